@@ -11,17 +11,28 @@ async function main() {
   console.log("Deployer balance:", ethers.formatEther(balance), "ETH\n");
 
   // Deployment parameters
-  const PRICE_PER_BLOCK = 50; // 50 cents = $0.50 per 30-minute block
+  const PRICE_PER_BLOCK = 50; // 50 cents = $0.50 per block (30 minutes by default)
   const MAX_BLOCKS = 96; // 96 blocks = 48 hours maximum
+  const PAYMENT_TOKEN_ADDRESS = process.env.PAYMENT_TOKEN_ADDRESS || ""; // Deploys a mock if empty
 
   console.log("Deployment parameters:");
   console.log("  - Price per block:", PRICE_PER_BLOCK, "cents ($" + (PRICE_PER_BLOCK / 100).toFixed(2) + ")");
   console.log("  - Max blocks:", MAX_BLOCKS, "(" + (MAX_BLOCKS * 30 / 60) + " hours)");
   console.log("");
 
+  // Deploy the fee math library (linked, keeps the calculator under the size limit)
+  console.log("Deploying FeeMath library...");
+  const FeeMath = await ethers.getContractFactory("FeeMath");
+  const feeMath = await FeeMath.deploy();
+  await feeMath.waitForDeployment();
+  const feeMathAddress = await feeMath.getAddress();
+  console.log("   Library address:", feeMathAddress);
+
   // Deploy contract
   console.log("Deploying contract...");
-  const ParkingFeeCalculator = await ethers.getContractFactory("ParkingFeeCalculator");
+  const ParkingFeeCalculator = await ethers.getContractFactory("ParkingFeeCalculator", {
+    libraries: { FeeMath: feeMathAddress },
+  });
   const contract = await ParkingFeeCalculator.deploy(PRICE_PER_BLOCK, MAX_BLOCKS);
 
   await contract.waitForDeployment();
@@ -30,30 +41,65 @@ async function main() {
   console.log("\n✅ ParkingFeeCalculator deployed successfully!");
   console.log("   Contract address:", contractAddress);
 
+  // Reservations (reads lots and rates from the calculator, prices with FeeMath)
+  console.log("\nDeploying ParkingReservations...");
+  const ParkingReservations = await ethers.getContractFactory("ParkingReservations", {
+    libraries: { FeeMath: feeMathAddress },
+  });
+  const reservations = await ParkingReservations.deploy(contractAddress);
+  await reservations.waitForDeployment();
+  const reservationsAddress = await reservations.getAddress();
+  console.log("   Reservations address:", reservationsAddress);
+
+  // Payment token (confidential, ERC-7984-style)
+  let paymentTokenAddress = PAYMENT_TOKEN_ADDRESS;
+  if (!paymentTokenAddress) {
+    console.log("\nDeploying MockConfidentialToken...");
+    const MockConfidentialToken = await ethers.getContractFactory("MockConfidentialToken");
+    const token = await MockConfidentialToken.deploy("Mock Parking Dollar", "mPUSD");
+    await token.waitForDeployment();
+    paymentTokenAddress = await token.getAddress();
+    console.log("   Token address:", paymentTokenAddress);
+  }
+
+  const setTokenTx = await contract.setPaymentToken(paymentTokenAddress);
+  await setTokenTx.wait();
+  console.log("   Payment token set:", paymentTokenAddress);
+
   // Verify deployment
   console.log("\n📋 Verifying deployment...");
   const version = await contract.version();
   const owner = await contract.owner();
   const price = await contract.pricePerBlock();
   const maxBlocks = await contract.maxBlocks();
-  const blockMinutes = await contract.BLOCK_MINUTES();
+  const blockMinutes = await contract.blockMinutes();
+  const feeRecipient = await contract.feeRecipient();
 
   console.log("   Version:", version);
   console.log("   Owner:", owner);
   console.log("   Price per block:", price.toString(), "cents");
   console.log("   Max blocks:", maxBlocks.toString());
   console.log("   Block size:", blockMinutes.toString(), "minutes");
+  console.log("   Fee recipient:", feeRecipient);
 
   // Output for frontend configuration
   console.log("\n" + "=".repeat(60));
   console.log("📝 Add this to your .env file:");
   console.log("=".repeat(60));
   console.log(`VITE_CONTRACT_ADDRESS=${contractAddress}`);
+  console.log(`VITE_RESERVATIONS_ADDRESS=${reservationsAddress}`);
   console.log("=".repeat(60));
 
   // Etherscan verification command
   console.log("\n🔍 To verify on Etherscan, run:");
-  console.log(`npx hardhat verify --network sepolia ${contractAddress} ${PRICE_PER_BLOCK} ${MAX_BLOCKS}`);
+  console.log(`npx hardhat verify --network sepolia ${feeMathAddress}`);
+  console.log(
+    `npx hardhat verify --network sepolia --libraries libraries.js ${contractAddress} ${PRICE_PER_BLOCK} ${MAX_BLOCKS}`
+  );
+  console.log(
+    `npx hardhat verify --network sepolia --libraries libraries.js ${reservationsAddress} ${contractAddress}`
+  );
+  console.log(`   (libraries.js: module.exports = { FeeMath: "${feeMathAddress}" };)`);
 }
 
 main()
@@ -1,82 +1,944 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, ebool, euint8, euint64, externalEuint8, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "./interfaces/IConfidentialToken.sol";
+import {FeeMath} from "./libraries/FeeMath.sol";
 
 /**
  * @title ParkingFeeCalculator
  * @notice Privacy-preserving parking fee calculator using FHE:
  *  - Input: encrypted minutes (euint64)
- *  - Rounds up to 30-min blocks: ceil(minutes / 30) without division
- *  - Cost: blocks * pricePerBlock (in cents)
+ *  - Rounds up to blocks (owner-settable size, e.g. 5/15/30/60 min): ceil(minutes / blockMinutes), one scalar division
+ *  - Cost: blocks * pricePerBlock (in cents), or per-tier prices if a tier table is set
+ *  - Limits: optional fee cap per 24h period (repeating) and minimum charge
+ *  - Grace period: stays up to graceMinutes are free (optionally deducted from longer stays)
+ *  - Vehicle classes: encrypted class input selects a per-class fee multiplier
+ *  - Passes: 30-day per-lot passes; quotes of active holders are zero (encrypted expiry)
+ *  - Timelock: every rate and fee rule change is scheduled at least MIN_RATE_CHANGE_DELAY ahead
+ *  - Sessions: entry time at check-in, duration from block.timestamp at check-out (both public)
+ *  - Settlement: encrypted fee paid in a confidential (ERC-7984-style) token
+ *  - Prepaid: encrypted balance deposited once; each fee is deducted if the balance covers it,
+ *    and the rest can be withdrawn
+ *  - Validations: merchants grant encrypted free minutes / percent discounts to a driver's next quote
+ *  - Lots: registry of lots with per-lot rate cards and operators
+ *  - History: append-only encrypted quote history per user
+ *  - Sharing: users grant a viewer (e.g. employer) decryption access to single fees
+ *  - Batch: up to maxBatchSize(lotId) stays quoted in one transaction with an encrypted total
+ *  - Revenue: encrypted running totals (overall, per lot, per lot and day) readable by owner/operator
  *  - Decryption: user-only via Relayer SDK userDecrypt
+ *  - Access: two-step ownership transfer and roles (rate manager, pauser, operator, merchant)
+ *  - Pause: emergency stop for quoting, sessions and payments (views stay available)
  */
 contract ParkingFeeCalculator is ZamaEthereumConfig {
     /* ─── Constants and Owner ─────────────────────────────────────────── */
-    uint64 public constant BLOCK_MINUTES = 30;
+    uint256 public constant MAX_TIERS = FeeMath.MAX_TIERS;
+    uint64 public constant DAY_MINUTES = FeeMath.DAY_MINUTES;
+    uint256 public constant MAX_CAP_PERIODS = FeeMath.MAX_CAP_PERIODS;
     address public owner;
+    address public pendingOwner;
 
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    // Modifiers delegate to internal checks so their revert code is emitted once
     modifier onlyOwner() {
-        require(msg.sender == owner, "Not owner");
+        _checkOwner();
         _;
     }
 
+    function _checkOwner() internal view {
+        require(msg.sender == owner, "Not owner");
+    }
+
     constructor(uint64 pricePerBlock_, uint16 maxBlocks_) {
         require(pricePerBlock_ > 0, "price=0");
         require(maxBlocks_ > 0, "maxBlocks=0");
+        FeeMath.requireFeeFits(pricePerBlock_, maxBlocks_);
         owner = msg.sender;
+        feeRecipient = msg.sender;
         pricePerBlock = pricePerBlock_;
         maxBlocks = maxBlocks_;
+        _rules.classMultipliers = [MULTIPLIER_BASE, MULTIPLIER_BASE, MULTIPLIER_BASE, MULTIPLIER_BASE];
     }
 
+    /// @notice Start an ownership transfer; the new owner must call acceptOwnership
     function transferOwnership(address n) external onlyOwner {
         require(n != address(0), "Zero owner");
-        owner = n;
+        pendingOwner = n;
+        emit OwnershipTransferStarted(owner, n);
+    }
+
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not pending owner");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+
+    /* ─── Roles ───────────────────────────────────────────────────── */
+    /// @notice Changes pricing parameters (price, block size, tiers, fee limits)
+    bytes32 public constant RATE_MANAGER_ROLE = keccak256("RATE_MANAGER_ROLE");
+    /// @notice Pauses quoting and payments in an emergency
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @notice Manages the lot registry (adds lots, assigns lot operators)
+    bytes32 public constant OPERATOR_ROLE = keccak256("OPERATOR_ROLE");
+    /// @notice Issues validations (free minutes, discounts) to drivers' next quote
+    bytes32 public constant MERCHANT_ROLE = keccak256("MERCHANT_ROLE");
+
+    mapping(bytes32 => mapping(address => bool)) private _roles;
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /// @dev The owner implicitly holds every role
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role);
+        _;
+    }
+
+    function _checkRole(bytes32 role) internal view {
+        require(hasRole(role, msg.sender), "Missing role");
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return account == owner || _roles[role][account];
+    }
+
+    function grantRole(bytes32 role, address account) external onlyOwner {
+        require(
+            role == RATE_MANAGER_ROLE || role == PAUSER_ROLE || role == OPERATOR_ROLE || role == MERCHANT_ROLE,
+            "Unknown role"
+        );
+        require(account != address(0), "Zero account");
+        if (!_roles[role][account]) {
+            _roles[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function revokeRole(bytes32 role, address account) external onlyOwner {
+        if (_roles[role][account]) {
+            _roles[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
     }
 
     function version() external pure returns (string memory) {
         return "ParkingFeeCalculator/1.0.3-sepolia";
     }
 
+    /* ─── Emergency Pause ─────────────────────────────────────────────── */
+    bool public paused;
+
+    /// @notice Reason given with the last pause (kept for display)
+    string public pauseReason;
+
+    event Paused(address indexed account, string reason);
+    event Unpaused(address indexed account);
+
+    modifier whenNotPaused() {
+        _requireNotPaused();
+        _;
+    }
+
+    function _requireNotPaused() internal view {
+        require(!paused, "Paused");
+    }
+
+    function pause(string calldata reason) external onlyRole(PAUSER_ROLE) {
+        require(!paused, "Paused");
+        paused = true;
+        pauseReason = reason;
+        emit Paused(msg.sender, reason);
+    }
+
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        require(paused, "Not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
     /* ─── Pricing Parameters ──────────────────────────────────────────────── */
-    /// @notice Price per 30-minute block, in cents
+    /// @notice Incremented on every change to pricing parameters (any lot)
+    uint256 public rateVersion = 1;
+
+    event RatesChanged(uint256 rateVersion);
+
+    function _bumpRateVersion() internal {
+        emit RatesChanged(++rateVersion);
+    }
+
+    /// @notice Price per block, in cents
     uint64 public pricePerBlock;
 
+    /// @notice Block size of the default lot, in minutes (must divide 24h)
+    uint64 public blockMinutes = 30;
+
     /// @notice Maximum billable blocks (e.g., 96 = 48 hours)
     uint16 public maxBlocks;
 
-    function setPricePerBlock(uint64 newPrice) external onlyOwner {
-        require(newPrice > 0, "price=0");
-        pricePerBlock = newPrice;
+    /* ─── Scheduled Rate Changes (Timelock) ───────────────────────────── */
+    uint64 public constant MIN_RATE_CHANGE_DELAY = 1 days;
+
+    /// @dev Queued rate card of a lot; effectiveAt = 0: none
+    struct RateChange {
+        uint64 pricePerBlock;
+        uint16 maxBlocks;
+        uint64 blockMinutes;
+        uint64 effectiveAt;
+    }
+
+    mapping(uint256 => RateChange) private _pendingRates; // lotId => queued change
+    FeeMath.FeeRules private _pendingRules; // Queued with _pendingRates[DEFAULT_LOT]
+
+    event RateChangeScheduled(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes, uint64 effectiveAt);
+    event RateChangeCancelled();
+    event RateChangeApplied(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes);
+    event LotRateChangeScheduled(
+        uint256 indexed lotId,
+        uint64 pricePerBlock,
+        uint16 maxBlocks,
+        uint64 blockMinutes,
+        uint64 effectiveAt
+    );
+    event LotRateChangeCancelled(uint256 indexed lotId);
+
+    /**
+     * @notice Queue the default lot's rate card together with the fee rules, replacing
+     *         any change not yet in effect. Every fee parameter changes only this way.
+     * @param rates  Price, maxBlocks, block size and effectiveAt of the default lot
+     * @param rules  Full tier table (empty = flat), limits, grace period and class multipliers
+     */
+    function scheduleRateChange(
+        RateChange calldata rates,
+        FeeMath.FeeRules calldata rules
+    ) external onlyRole(RATE_MANAGER_ROLE) {
+        _applyDueRateChange(DEFAULT_LOT);
+        require(rates.pricePerBlock > 0, "price=0");
+        require(rates.maxBlocks > 0, "maxBlocks=0");
+        require(rates.effectiveAt >= block.timestamp + MIN_RATE_CHANGE_DELAY, "Too soon");
+        _validateSchedule(rates.pricePerBlock, rates.maxBlocks, rates.blockMinutes);
+        FeeMath.validateRules(rules, rates.maxBlocks, rates.blockMinutes);
+
+        FeeMath.storeRules(_pendingRules, rules);
+        _pendingRates[DEFAULT_LOT] = rates;
+        emit RateChangeScheduled(rates.pricePerBlock, rates.maxBlocks, rates.blockMinutes, rates.effectiveAt);
+    }
+
+    function cancelRateChange() external onlyOwner {
+        _cancelRateChange(DEFAULT_LOT);
+        delete _pendingRules;
+        emit RateChangeCancelled();
+    }
+
+    /// @notice Pending change of the default lot and the fee rules (tiers: getPendingTier);
+    ///         once effectiveAt has passed it applies on the next quote or write
+    function pendingRateChange()
+        external
+        view
+        returns (
+            RateChange memory rates,
+            uint64 newDailyMaxFee,
+            uint64 newMinimumFee,
+            uint64 newGraceMinutes,
+            bool newGraceDeducted,
+            uint16[4] memory newClassMultipliers
+        )
+    {
+        FeeMath.FeeRules storage rules = _pendingRules;
+        return (
+            _pendingRates[DEFAULT_LOT],
+            rules.dailyMaxFee,
+            rules.minimumFee,
+            rules.graceMinutes,
+            rules.graceDeducted,
+            rules.classMultipliers
+        );
+    }
+
+    function getPendingTierCount() external view returns (uint256) {
+        return _pendingRules.tiers.length;
+    }
+
+    function getPendingTier(uint256 index) external view returns (uint16 fromBlock, uint64 price) {
+        FeeMath.Tier storage t = _pendingRules.tiers[index];
+        return (t.fromBlock, t.pricePerBlock);
+    }
+
+    /// @notice Apply a due change of a lot now (its quotes and rate changes also apply it first)
+    function applyRateChange(uint256 lotId) external {
+        uint64 effectiveAt = _pendingRates[lotId].effectiveAt;
+        require(effectiveAt != 0 && block.timestamp >= effectiveAt, "Nothing due");
+        _applyDueRateChange(lotId);
+    }
+
+    function _cancelRateChange(uint256 lotId) internal {
+        uint64 effectiveAt = _pendingRates[lotId].effectiveAt;
+        require(effectiveAt != 0, "No pending change");
+        require(block.timestamp < effectiveAt, "Already effective");
+        delete _pendingRates[lotId];
+    }
+
+    /// @dev Applies a due default-lot change first for every lot, since its fee rules apply to all lots
+    function _applyDueRateChange(uint256 lotId) internal {
+        if (lotId != DEFAULT_LOT) _applyDueRateChange(DEFAULT_LOT);
+        RateChange memory change = _pendingRates[lotId];
+        if (change.effectiveAt == 0 || block.timestamp < change.effectiveAt) return;
+
+        delete _pendingRates[lotId];
+        if (lotId == DEFAULT_LOT) {
+            pricePerBlock = change.pricePerBlock;
+            maxBlocks = change.maxBlocks;
+            blockMinutes = change.blockMinutes;
+            FeeMath.copyRules(_rules, _pendingRules);
+            delete _pendingRules;
+            emit RateChangeApplied(change.pricePerBlock, change.maxBlocks, change.blockMinutes);
+        } else {
+            Lot storage l = _lots[lotId];
+            l.pricePerBlock = change.pricePerBlock;
+            l.maxBlocks = change.maxBlocks;
+            l.blockMinutes = change.blockMinutes;
+            emit LotRatesUpdated(lotId, change.pricePerBlock, change.maxBlocks, change.blockMinutes);
+        }
+        _bumpRateVersion();
+    }
+
+    /* ─── Fee Rules in Effect ─────────────────────────────────────────── */
+    /// @dev Changed only by a scheduled default-lot rate change
+    FeeMath.FeeRules private _rules;
+
+    /* ─── Fee Limits ──────────────────────────────────────────────────── */
+    /// @notice Maximum fee per 24h period, in cents (0 = no cap)
+    function dailyMaxFee() external view returns (uint64) {
+        return _rules.dailyMaxFee;
+    }
+
+    /// @notice Minimum charge per quote, in cents (0 = none)
+    function minimumFee() external view returns (uint64) {
+        return _rules.minimumFee;
+    }
+
+    /* ─── Grace Period ────────────────────────────────────────────────── */
+    /// @notice Stays of at most this many minutes are free (0 = no grace period)
+    function graceMinutes() external view returns (uint64) {
+        return _rules.graceMinutes;
+    }
+
+    /// @notice Whether longer stays are billed for their minutes beyond the grace period
+    function graceDeducted() external view returns (bool) {
+        return _rules.graceDeducted;
+    }
+
+    /* ─── Tiered Pricing ──────────────────────────────────────────────── */
+    /// @dev Empty = flat pricePerBlock. First tier always starts at block 0.
+    function getTierCount() external view returns (uint256) {
+        return _rules.tiers.length;
+    }
+
+    function getTier(uint256 index) external view returns (uint16 fromBlock, uint64 price) {
+        FeeMath.Tier storage t = _rules.tiers[index];
+        return (t.fromBlock, t.pricePerBlock);
+    }
+
+    /* ─── Vehicle Classes ─────────────────────────────────────────────── */
+    /// @notice Classes: 0 = car, 1 = motorcycle, 2 = EV, 3 = oversized
+    uint8 public constant VEHICLE_CLASSES = 4;
+    uint16 public constant MULTIPLIER_BASE = 10000; // Basis points, 10000 = 1x
+    uint16 public constant MAX_CLASS_MULTIPLIER = FeeMath.MAX_CLASS_MULTIPLIER;
+
+    function getClassMultipliers() external view returns (uint16[4] memory) {
+        return _rules.classMultipliers;
+    }
+
+    /* ─── Payment Parameters ──────────────────────────────────────────── */
+    /// @notice Confidential token used to settle fees
+    IConfidentialToken public paymentToken;
+
+    /// @notice Receives settled fees of the default lot
+    address public feeRecipient;
+
+    /// @notice Deposits are held in the current token, so it stays while any balance is open
+    function setPaymentToken(address token) external onlyOwner {
+        require(token != address(0), "Zero token");
+        require(openBalances == 0, "Open balances");
+        paymentToken = IConfidentialToken(token);
+    }
+
+    function setFeeRecipient(address recipient) external onlyOwner {
+        require(recipient != address(0), "Zero recipient");
+        feeRecipient = recipient;
+    }
+
+    /* ─── Lot Registry ────────────────────────────────────────────────── */
+    /// @notice Lot 0 is the default lot, backed by the contract-level parameters
+    ///         (pricePerBlock, maxBlocks, blockMinutes, tiers, feeRecipient)
+    uint256 public constant DEFAULT_LOT = 0;
+
+    struct Lot {
+        string name;
+        address operator; // Manages the lot's rate card and receives its fees
+        uint64 pricePerBlock; // cents
+        uint16 maxBlocks;
+        uint64 blockMinutes;
+        bool active;
+    }
+
+    mapping(uint256 => Lot) private _lots;
+
+    /// @notice Number of lots, including the default lot
+    uint256 public lotCount = 1;
+
+    event LotAdded(uint256 indexed lotId, string name, address indexed operator);
+    event LotOperatorChanged(uint256 indexed lotId, address indexed operator);
+    event LotRatesUpdated(uint256 indexed lotId, uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes);
+    event LotActiveChanged(uint256 indexed lotId, bool active);
+
+    modifier onlyLotOperator(uint256 lotId) {
+        _checkLotOperator(lotId);
+        _;
+    }
+
+    function _checkLotOperator(uint256 lotId) internal view {
+        require(lotId != DEFAULT_LOT && lotId < lotCount, "Bad lot");
+        require(msg.sender == _lots[lotId].operator || hasRole(OPERATOR_ROLE, msg.sender), "Not lot operator");
+    }
+
+    function getLot(
+        uint256 lotId
+    )
+        external
+        view
+        returns (
+            string memory name,
+            address operator,
+            uint64 price,
+            uint16 lotMaxBlocks,
+            uint64 lotBlockMinutes,
+            bool active
+        )
+    {
+        require(lotId < lotCount, "Bad lot");
+        if (lotId == DEFAULT_LOT) {
+            return ("Default", feeRecipient, pricePerBlock, maxBlocks, blockMinutes, true);
+        }
+        Lot storage l = _lots[lotId];
+        return (l.name, l.operator, l.pricePerBlock, l.maxBlocks, l.blockMinutes, l.active);
+    }
+
+    function addLot(
+        string calldata name,
+        address operator,
+        uint64 price,
+        uint16 lotMaxBlocks,
+        uint64 lotBlockMinutes
+    ) external onlyRole(OPERATOR_ROLE) returns (uint256 lotId) {
+        require(bytes(name).length > 0, "Empty name");
+        require(operator != address(0), "Zero operator");
+        _validateLotRates(price, lotMaxBlocks, lotBlockMinutes);
+
+        lotId = lotCount++;
+        _lots[lotId] = Lot(name, operator, price, lotMaxBlocks, lotBlockMinutes, true);
+
+        emit LotAdded(lotId, name, operator);
+        emit LotRatesUpdated(lotId, price, lotMaxBlocks, lotBlockMinutes);
+    }
+
+    function setLotOperator(uint256 lotId, address operator) external onlyRole(OPERATOR_ROLE) {
+        require(lotId != DEFAULT_LOT && lotId < lotCount, "Bad lot");
+        require(operator != address(0), "Zero operator");
+        _lots[lotId].operator = operator;
+        emit LotOperatorChanged(lotId, operator);
+    }
+
+    /// @notice Queue a new rate card for a lot behind the same timelock as the
+    ///         default lot, replacing any change not yet in effect
+    function scheduleLotRateChange(
+        uint256 lotId,
+        uint64 price,
+        uint16 lotMaxBlocks,
+        uint64 lotBlockMinutes,
+        uint64 effectiveAt
+    ) external onlyLotOperator(lotId) {
+        _applyDueRateChange(lotId);
+        require(effectiveAt >= block.timestamp + MIN_RATE_CHANGE_DELAY, "Too soon");
+        _validateLotRates(price, lotMaxBlocks, lotBlockMinutes);
+
+        _pendingRates[lotId] = RateChange(price, lotMaxBlocks, lotBlockMinutes, effectiveAt);
+        emit LotRateChangeScheduled(lotId, price, lotMaxBlocks, lotBlockMinutes, effectiveAt);
+    }
+
+    function cancelLotRateChange(uint256 lotId) external onlyLotOperator(lotId) {
+        _cancelRateChange(lotId);
+        emit LotRateChangeCancelled(lotId);
+    }
+
+    /// @notice Pending rate card of a lot; once effectiveAt has passed it applies on the next quote
+    function pendingLotRateChange(
+        uint256 lotId
+    ) external view returns (uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes, uint64 effectiveAt) {
+        RateChange storage change = _pendingRates[lotId];
+        return (change.pricePerBlock, change.maxBlocks, change.blockMinutes, change.effectiveAt);
+    }
+
+    function setLotActive(uint256 lotId, bool active) external onlyLotOperator(lotId) {
+        _lots[lotId].active = active;
+        emit LotActiveChanged(lotId, active);
+    }
+
+    function _validateLotRates(uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes) internal pure {
+        require(price > 0, "price=0");
+        require(lotMaxBlocks > 0, "maxBlocks=0");
+        _validateSchedule(price, lotMaxBlocks, lotBlockMinutes);
+        // Keeps the daily cap loop bounded for every lot
+        require(FeeMath.capPeriods(lotMaxBlocks, lotBlockMinutes) <= MAX_CAP_PERIODS, "Too many cap periods");
+    }
+
+    function _rateCard(uint256 lotId) internal view returns (FeeMath.RateCard memory) {
+        require(lotId < lotCount, "Bad lot");
+        if (lotId == DEFAULT_LOT) {
+            return FeeMath.RateCard(pricePerBlock, maxBlocks, blockMinutes, _rules.tiers.length > 0);
+        }
+        Lot storage l = _lots[lotId];
+        return FeeMath.RateCard(l.pricePerBlock, l.maxBlocks, l.blockMinutes, false);
+    }
+
+    function _requireLotOpen(uint256 lotId) internal view {
+        require(lotId < lotCount, "Bad lot");
+        require(lotId == DEFAULT_LOT || _lots[lotId].active, "Lot inactive");
+    }
+
+    function _lotRecipient(uint256 lotId) internal view returns (address) {
+        return lotId == DEFAULT_LOT ? feeRecipient : _lots[lotId].operator;
+    }
+
+    /* ─── Monthly Passes ──────────────────────────────────────────────── */
+    uint64 public constant PASS_DURATION = 30 days;
+
+    /// @notice Pass price per lot in cents (0 = no passes sold at the lot)
+    mapping(uint256 => uint64) public passPrice;
+
+    /// @dev Encrypted expiry timestamp per user and lot; whether a pass is active
+    ///      (or a purchase went through) is never revealed
+    mapping(address => mapping(uint256 => euint64)) private _passExpiry;
+
+    event PassPriceUpdated(uint256 indexed lotId, uint64 price);
+    event PassPurchased(address indexed user, uint256 indexed lotId, bytes32 expiryHandle);
+
+    function setPassPrice(uint256 lotId, uint64 price) external onlyRole(RATE_MANAGER_ROLE) {
+        require(lotId < lotCount, "Bad lot");
+        passPrice[lotId] = price;
+        emit PassPriceUpdated(lotId, price);
+    }
+
+    function getMyPassHandle(uint256 lotId) external view returns (bytes32) {
+        return FHE.toBytes32(_passExpiry[msg.sender][lotId]);
+    }
+
+    /**
+     * @notice Buy (or extend) a PASS_DURATION pass for a lot, paid to the lot
+     *         operator in the confidential payment token. The pass only
+     *         extends if the full price was transferred, so a failed payment
+     *         is indistinguishable from a successful one on-chain.
+     * @param lotId          Lot the pass is valid at
+     * @param expectedPrice  passPrice the caller displayed
+     * @return expiryHandle  bytes32 handle to the encrypted expiry timestamp
+     */
+    function buyPass(uint256 lotId, uint64 expectedPrice) external whenNotPaused returns (bytes32 expiryHandle) {
+        require(address(paymentToken) != address(0), "No payment token");
+        _requireLotOpen(lotId);
+        uint64 price = passPrice[lotId];
+        require(price > 0, "No pass");
+        require(price == expectedPrice, "Price changed");
+
+        euint64 amount = FHE.asEuint64(price);
+        FHE.allowTransient(amount, address(paymentToken));
+        euint64 paid = paymentToken.confidentialTransferFrom(msg.sender, _lotRecipient(lotId), amount);
+
+        // Extend from the current expiry, or from now if none / expired
+        euint64 expiry = _passExpiry[msg.sender][lotId];
+        euint64 now_ = FHE.asEuint64(uint64(block.timestamp));
+        euint64 start = FHE.isInitialized(expiry) ? FHE.max(expiry, now_) : now_;
+        expiry = FHE.select(
+            FHE.eq(paid, price),
+            FHE.add(start, PASS_DURATION),
+            FHE.isInitialized(expiry) ? expiry : FHE.asEuint64(0)
+        );
+
+        _passExpiry[msg.sender][lotId] = expiry;
+        FHE.allowThis(expiry);
+        FHE.allow(expiry, msg.sender);
+
+        expiryHandle = FHE.toBytes32(expiry);
+        emit PassPurchased(msg.sender, lotId, expiryHandle);
+    }
+
+    /* ─── Prepaid Balance ─────────────────────────────────────────────── */
+    /// @dev Encrypted prepaid balance per user, held by this contract in the payment token
+    mapping(address => euint64) private _balances;
+
+    /// @notice Users with a prepaid balance, from their first deposit until they withdraw
+    uint256 public openBalances;
+
+    /// @dev Whether the last fee was deducted from the prepaid balance (encrypted)
+    mapping(address => ebool) private _lastFeeCharged;
+
+    event Deposited(address indexed user, bytes32 balanceHandle);
+    event Withdrawn(address indexed user);
+
+    function getMyBalanceHandle() external view returns (bytes32) {
+        return FHE.toBytes32(_balances[msg.sender]);
+    }
+
+    function getMyChargedHandle() external view returns (bytes32) {
+        return FHE.toBytes32(_lastFeeCharged[msg.sender]);
+    }
+
+    /**
+     * @notice Top up the prepaid balance from the payment token.
+     *         The user must have set this contract as operator on the token.
+     *         The amount the token actually moved (0 on insufficient balance)
+     *         is credited.
+     * @param amountExt  External euint64 (encrypted amount in cents)
+     * @param proof      Attestation from Relayer SDK for amountExt
+     * @return balanceHandle  bytes32 handle to the encrypted new balance
+     */
+    function deposit(
+        externalEuint64 amountExt,
+        bytes calldata proof
+    ) external whenNotPaused returns (bytes32 balanceHandle) {
+        require(address(paymentToken) != address(0), "No payment token");
+        require(proof.length > 0, "Empty proof");
+
+        euint64 amount = FHE.fromExternal(amountExt, proof);
+        FHE.allowTransient(amount, address(paymentToken));
+        euint64 received = paymentToken.confidentialTransferFrom(msg.sender, address(this), amount);
+
+        euint64 balance = _balances[msg.sender];
+        if (FHE.isInitialized(balance)) {
+            balance = FHE.add(balance, received);
+        } else {
+            balance = received;
+            ++openBalances;
+        }
+        _balances[msg.sender] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+
+        balanceHandle = FHE.toBytes32(balance);
+        emit Deposited(msg.sender, balanceHandle);
+    }
+
+    /**
+     * @notice Move the whole prepaid balance back to the caller in the payment
+     *         token and close it; a later deposit opens a new one.
+     */
+    function withdraw() external whenNotPaused {
+        euint64 balance = _balances[msg.sender];
+        require(FHE.isInitialized(balance), "No balance");
+
+        FHE.allowTransient(balance, address(paymentToken));
+        paymentToken.confidentialTransferFrom(address(this), msg.sender, balance);
+        _balances[msg.sender] = euint64.wrap(0);
+        --openBalances;
+        emit Withdrawn(msg.sender);
+    }
+
+    /* ─── Merchant Validations ────────────────────────────────────────── */
+    uint64 public constant MAX_DISCOUNT_PERCENT = FeeMath.MAX_DISCOUNT_PERCENT;
+
+    /// @dev Pending validation of a driver, consumed by their next quote
+    struct Validation {
+        euint64 creditMinutes; // Free minutes deducted from the stay
+        euint64 discountPercent; // Percent taken off the fee
+    }
+
+    mapping(address => Validation) private _validations;
+
+    event ValidationIssued(address indexed merchant, address indexed driver);
+    event ValidationApplied(address indexed driver);
+
+    function getMyValidationHandles() external view returns (bytes32 minutesHandle, bytes32 percentHandle) {
+        Validation storage v = _validations[msg.sender];
+        return (FHE.toBytes32(v.creditMinutes), FHE.toBytes32(v.discountPercent));
     }
 
-    function setMaxBlocks(uint16 newMax) external onlyOwner {
-        require(newMax > 0, "maxBlocks=0");
-        maxBlocks = newMax;
+    /**
+     * @notice Grant a driver free minutes and/or a percentage discount on their
+     *         next quote. Validations stack until used: minutes add up and the
+     *         highest discount applies. Percentages above 100 count as 100.
+     * @param driver      Driver receiving the validation
+     * @param minutesExt  External euint64 (encrypted free minutes, may be 0)
+     * @param percentExt  External euint64 (encrypted discount percent, may be 0)
+     * @param proof       Attestation from Relayer SDK for both inputs
+     */
+    function validate(
+        address driver,
+        externalEuint64 minutesExt,
+        externalEuint64 percentExt,
+        bytes calldata proof
+    ) external whenNotPaused onlyRole(MERCHANT_ROLE) {
+        require(driver != address(0) && driver != msg.sender, "Bad driver");
+        require(proof.length > 0, "Empty proof");
+
+        euint64 credit = FHE.fromExternal(minutesExt, proof);
+        euint64 percent = FHE.min(FHE.fromExternal(percentExt, proof), MAX_DISCOUNT_PERCENT);
+
+        Validation storage v = _validations[driver];
+        if (FHE.isInitialized(v.creditMinutes)) {
+            credit = FHE.add(v.creditMinutes, credit);
+            percent = FHE.max(v.discountPercent, percent);
+        }
+        v.creditMinutes = credit;
+        v.discountPercent = percent;
+        FHE.allowThis(credit);
+        FHE.allow(credit, driver);
+        FHE.allowThis(percent);
+        FHE.allow(percent, driver);
+
+        emit ValidationIssued(msg.sender, driver);
     }
 
     /* ─── Storage for User Results ───────────────────────────── */
     mapping(address => euint64) private _lastFee; // Last calculated fee (encrypted)
+    mapping(address => uint256) private _lastFeeLot; // Lot the last fee was computed for
+    mapping(address => euint64) private _lastPaid; // Amount actually transferred for last fee (encrypted)
+    mapping(address => bool) private _feeSettled; // Whether last fee has been paid
+
+    /* ─── Storage for Quote History ───────────────────────────── */
+    struct QuoteRecord {
+        euint64 fee; // Encrypted fee
+        uint64 timestamp; // Block timestamp of the quote
+        uint256 lotId;
+        uint256 rateVersion; // rateVersion the fee was computed with
+    }
+
+    mapping(address => QuoteRecord[]) private _quotes; // Append-only, one entry per quote / session
+
+    /* ─── Storage for Revenue Totals ─────────────────────────────── */
+    uint256 public constant REVENUE_PERIOD = 1 days;
+
+    struct Revenue {
+        euint64 amount; // Encrypted sum of quoted fees
+        uint256 quotes; // Number of fees added
+    }
+
+    Revenue private _totalRevenue; // Readable by the owner
+    mapping(uint256 => Revenue) private _lotRevenue; // Readable by the owner and the lot's operator
+    mapping(uint256 => mapping(uint256 => Revenue)) private _periodRevenue; // lotId => period => revenue
+
+    /* ─── Storage for Parking Sessions ───────────────────────────── */
+    struct Session {
+        euint64 entryTime; // Entry timestamp (seconds); encrypted type, public value
+        bool active;
+    }
+
+    mapping(address => mapping(uint256 => Session)) private _sessions; // user => lotId => session
 
     /* ─── Events ──────────────────────────────────────────────────────── */
-    event Quoted(address indexed user, bytes32 feeHandle);
+    event Quoted(address indexed user, uint256 indexed lotId, bytes32 feeHandle);
+    event BatchQuoted(address indexed user, uint256 indexed lotId, uint256 count, bytes32 totalHandle);
+    event SessionStarted(address indexed user, uint256 indexed lotId, bytes32 entryHandle);
+    event SessionEnded(address indexed user, uint256 indexed lotId, bytes32 feeHandle);
+    event Paid(address indexed user, address indexed recipient, bytes32 paidHandle);
+    event QuoteShared(
+        address indexed user,
+        address indexed viewer,
+        uint256 index,
+        uint256 lotId,
+        uint64 timestamp,
+        bytes32 feeHandle
+    );
 
     /* ─── Public Handle Getters ────────────────────────────────────── */
     function getMyFeeHandle() external view returns (bytes32) {
         return FHE.toBytes32(_lastFee[msg.sender]);
     }
 
-    /* ─── Internal Helper: MSB Position for uint16 ──────────────── */
-    function _msbPos(uint16 x) internal pure returns (uint8) {
-        uint8 p = 0;
-        while (x > 1) {
-            x >>= 1;
-            unchecked {
-                ++p;
+    function getMyPaymentHandle() external view returns (bytes32) {
+        return FHE.toBytes32(_lastPaid[msg.sender]);
+    }
+
+    function getMyQuoteCount() external view returns (uint256) {
+        return _quotes[msg.sender].length;
+    }
+
+    function getMyQuote(
+        uint256 index
+    ) external view returns (bytes32 feeHandle, uint64 timestamp, uint256 lotId, uint256 quoteRateVersion) {
+        QuoteRecord storage q = _quotes[msg.sender][index];
+        return (FHE.toBytes32(q.fee), q.timestamp, q.lotId, q.rateVersion);
+    }
+
+    function currentRevenuePeriod() external view returns (uint256) {
+        return block.timestamp / REVENUE_PERIOD;
+    }
+
+    function getRevenue() external view returns (bytes32 amountHandle, uint256 quotes) {
+        return (FHE.toBytes32(_totalRevenue.amount), _totalRevenue.quotes);
+    }
+
+    function getLotRevenue(uint256 lotId) external view returns (bytes32 amountHandle, uint256 quotes) {
+        Revenue storage rev = _lotRevenue[lotId];
+        return (FHE.toBytes32(rev.amount), rev.quotes);
+    }
+
+    function getLotPeriodRevenue(
+        uint256 lotId,
+        uint256 period
+    ) external view returns (bytes32 amountHandle, uint256 quotes) {
+        Revenue storage rev = _periodRevenue[lotId][period];
+        return (FHE.toBytes32(rev.amount), rev.quotes);
+    }
+
+    function isFeeSettled(address user) external view returns (bool) {
+        return _feeSettled[user];
+    }
+
+    function hasActiveSession(address user, uint256 lotId) external view returns (bool) {
+        return _sessions[user][lotId].active;
+    }
+
+    function getMySessionEntryHandle(uint256 lotId) external view returns (bytes32) {
+        return FHE.toBytes32(_sessions[msg.sender][lotId].entryTime);
+    }
+
+    /* ─── Internal Helper: Block Schedule Validation ───────────── */
+    function _validateSchedule(uint64 price, uint16 maxBlocks_, uint64 minutesPerBlock) internal pure {
+        require(minutesPerBlock > 0 && DAY_MINUTES % minutesPerBlock == 0, "Bad block size");
+        FeeMath.requireFeeFits(price, maxBlocks_);
+    }
+
+    /* ─── Internal Helper: Encrypted Fee for Encrypted Minutes ──── */
+    /// @param multiplier  Vehicle class multiplier in basis points (unset: quote without a class)
+    function _computeFee(euint64 mins, uint256 lotId, euint64 multiplier) internal returns (euint64 fee) {
+        FeeMath.RateCard memory card = _rateCard(lotId);
+
+        // Pending merchant validation: free minutes first (floored at 0)
+        Validation memory v = _validations[msg.sender];
+        bool validated = FHE.isInitialized(v.creditMinutes);
+        if (validated) {
+            ebool covered = FHE.ge(mins, v.creditMinutes);
+            mins = FHE.select(covered, FHE.sub(mins, v.creditMinutes), FHE.asEuint64(0));
+        }
+
+        uint64 grace = _rules.graceMinutes;
+        if (grace == 0) {
+            fee = _priceMinutes(mins, card);
+        } else {
+            // Grace period: free at or below the threshold (minimum charge included)
+            ebool withinGrace = FHE.le(mins, grace);
+            if (_rules.graceDeducted) {
+                mins = FHE.select(withinGrace, FHE.asEuint64(0), FHE.sub(mins, grace));
             }
+            fee = FHE.select(withinGrace, FHE.asEuint64(0), _priceMinutes(mins, card));
+        }
+
+        // Active pass holders park for free
+        euint64 passExpiry = _passExpiry[msg.sender][lotId];
+        if (FHE.isInitialized(passExpiry)) {
+            fee = FHE.select(FHE.gt(passExpiry, uint64(block.timestamp)), FHE.asEuint64(0), fee);
+        }
+
+        // ...then the discount, fee * (100 - percent) / 100 (one quote uses it up), and
+        // the class multiplier, fee * multiplier / 10000. A single mul and div applies
+        // both, since each pair adds 1.3M HCU of depth to the quote.
+        uint64 base = FHE.isInitialized(multiplier) ? MULTIPLIER_BASE : 1;
+        euint64 factor = multiplier;
+        if (validated) {
+            euint64 kept = FHE.sub(MAX_DISCOUNT_PERCENT, v.discountPercent);
+            factor = base == 1 ? kept : FHE.mul(kept, multiplier);
+            base *= MAX_DISCOUNT_PERCENT;
+            delete _validations[msg.sender];
+            emit ValidationApplied(msg.sender);
+        }
+        if (base > 1) {
+            fee = FHE.div(FHE.mul(fee, factor), base);
+        }
+    }
+
+    function _priceMinutes(euint64 mins, FeeMath.RateCard memory card) internal returns (euint64) {
+        return FeeMath.priceMinutes(mins, card, _rules.tiers, _rules.dailyMaxFee, _rules.minimumFee);
+    }
+
+    /* ─── Internal Helper: Vehicle Class Multiplier ─────────────── */
+    function _classMultiplier(euint8 vehicleClass) internal returns (euint64 multiplier) {
+        // Select the class multiplier without learning the class (unknown values -> car);
+        // _computeFee applies it as fee * multiplier / 10000, rounded down to whole cents
+        multiplier = FHE.asEuint64(_rules.classMultipliers[0]);
+        for (uint8 c = 1; c < VEHICLE_CLASSES; ++c) {
+            multiplier = FHE.select(FHE.eq(vehicleClass, c), FHE.asEuint64(_rules.classMultipliers[c]), multiplier);
+        }
+    }
+
+    /* ─── Internal Helper: Store Fee with User ACL ──────────────── */
+    function _storeFee(euint64 fee, uint256 lotId) internal returns (bytes32) {
+        _setPayableFee(fee, lotId);
+        _recordFee(fee, lotId);
+        return FHE.toBytes32(_lastFee[msg.sender]);
+    }
+
+    /* ─── Internal Helper: Fee Settled by pay() ──────────────────── */
+    function _setPayableFee(euint64 fee, uint256 lotId) internal {
+        _lastFee[msg.sender] = fee;
+        _lastFeeLot[msg.sender] = lotId;
+        _feeSettled[msg.sender] = false;
+
+        // - To contract: to reuse this value in future
+        FHE.allowThis(_lastFee[msg.sender]);
+
+        // - To user: to enable userDecrypt via Relayer SDK
+        FHE.allow(_lastFee[msg.sender], msg.sender);
+
+        euint64 balance = _balances[msg.sender];
+        if (!FHE.isInitialized(balance)) {
+            _lastFeeCharged[msg.sender] = ebool.wrap(0);
+            return;
+        }
+
+        // Prepaid: deduct the fee only if the balance covers it
+        ebool charged = FHE.le(fee, balance);
+        euint64 charge = FHE.select(charged, fee, FHE.asEuint64(0));
+        balance = FHE.sub(balance, charge);
+
+        _balances[msg.sender] = balance;
+        _lastFeeCharged[msg.sender] = charged;
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
+        FHE.allowThis(charged);
+        FHE.allow(charged, msg.sender);
+
+        // Forward the deducted amount to the lot operator
+        FHE.allowTransient(charge, address(paymentToken));
+        paymentToken.confidentialTransferFrom(address(this), _lotRecipient(lotId), charge);
+    }
+
+    /* ─── Internal Helper: History and Revenue of a Fee ──────────── */
+    function _recordFee(euint64 fee, uint256 lotId) internal {
+        FHE.allowThis(fee);
+        FHE.allow(fee, msg.sender);
+
+        // Keep every fee ciphertext in the user's history
+        _quotes[msg.sender].push(QuoteRecord(fee, uint64(block.timestamp), lotId, rateVersion));
+
+        // Aggregate revenue; individual fees stay readable by their user only
+        address lotReader = _lotRecipient(lotId);
+        _addRevenue(_totalRevenue, fee, address(0));
+        _addRevenue(_lotRevenue[lotId], fee, lotReader);
+        _addRevenue(_periodRevenue[lotId][block.timestamp / REVENUE_PERIOD], fee, lotReader);
+    }
+
+    /* ─── Internal Helper: Accumulate Encrypted Revenue ─────────── */
+    function _addRevenue(Revenue storage rev, euint64 fee, address reader) internal {
+        rev.amount = FHE.add(rev.amount, fee);
+        rev.quotes += 1;
+
+        FHE.allowThis(rev.amount);
+        FHE.allow(rev.amount, owner);
+        if (reader != address(0) && reader != owner) {
+            FHE.allow(rev.amount, reader);
         }
-        return p; // For x>=1 returns MSB position (0-based)
     }
 
     /* ─── Main Logic ──────────────────────────────────────────────── */
@@ -88,64 +950,277 @@ contract ParkingFeeCalculator is ZamaEthereumConfig {
      * @param proof       Attestation from Relayer SDK for minutesExt
      * @return feeHandle  bytes32 handle to encrypted fee
      */
-    function quote(externalEuint64 minutesExt, bytes calldata proof) external returns (bytes32 feeHandle) {
+    function quote(
+        externalEuint64 minutesExt,
+        bytes calldata proof
+    ) external whenNotPaused returns (bytes32 feeHandle) {
+        return _quote(DEFAULT_LOT, minutesExt, proof);
+    }
+
+    /**
+     * @notice Calculate fee for encrypted minutes at a specific lot.
+     * @param lotId       Lot whose rate card is applied
+     * @param minutesExt  External euint64 (encrypted minutes)
+     * @param proof       Attestation from Relayer SDK for minutesExt
+     * @return feeHandle  bytes32 handle to encrypted fee
+     */
+    function quote(
+        uint256 lotId,
+        externalEuint64 minutesExt,
+        bytes calldata proof
+    ) external whenNotPaused returns (bytes32 feeHandle) {
+        return _quote(lotId, minutesExt, proof);
+    }
+
+    /**
+     * @notice Calculate fee at a lot, reverting if rates changed since the
+     *         caller read them (protects against rate changes in flight).
+     * @param lotId                Lot whose rate card is applied
+     * @param minutesExt           External euint64 (encrypted minutes)
+     * @param proof                Attestation from Relayer SDK for minutesExt
+     * @param expectedRateVersion  rateVersion the caller displayed
+     * @return feeHandle           bytes32 handle to encrypted fee
+     */
+    function quote(
+        uint256 lotId,
+        externalEuint64 minutesExt,
+        bytes calldata proof,
+        uint256 expectedRateVersion
+    ) external whenNotPaused returns (bytes32 feeHandle) {
+        // A due scheduled change is applied first and counts as a change
+        _applyDueRateChange(lotId);
+        require(rateVersion == expectedRateVersion, "Rates changed");
+        return _quote(lotId, minutesExt, proof);
+    }
+
+    /**
+     * @notice Calculate fee at a lot for an encrypted vehicle class, reverting
+     *         if rates changed since the caller read them. The class and the
+     *         minutes come from one encrypted input (one proof).
+     * @param lotId                Lot whose rate card is applied
+     * @param minutesExt           External euint64 (encrypted minutes)
+     * @param classExt             External euint8 (encrypted vehicle class; unknown values bill as car)
+     * @param proof                Attestation from Relayer SDK for both inputs
+     * @param expectedRateVersion  rateVersion the caller displayed
+     * @return feeHandle           bytes32 handle to encrypted fee
+     */
+    function quote(
+        uint256 lotId,
+        externalEuint64 minutesExt,
+        externalEuint8 classExt,
+        bytes calldata proof,
+        uint256 expectedRateVersion
+    ) external whenNotPaused returns (bytes32 feeHandle) {
+        _applyDueRateChange(lotId);
+        require(rateVersion == expectedRateVersion, "Rates changed");
         require(proof.length > 0, "Empty proof");
+        _requireLotOpen(lotId);
+
+        euint64 mins = FHE.fromExternal(minutesExt, proof);
+        euint8 vehicleClass = FHE.fromExternal(classExt, proof);
+
+        feeHandle = _storeFee(_computeFee(mins, lotId, _classMultiplier(vehicleClass)), lotId);
+        emit Quoted(msg.sender, lotId, feeHandle);
+    }
+
+    function _quote(uint256 lotId, externalEuint64 minutesExt, bytes calldata proof) internal returns (bytes32 feeHandle) {
+        require(proof.length > 0, "Empty proof");
+        _requireLotOpen(lotId);
+        _applyDueRateChange(lotId);
 
         // 1) Import encrypted minutes
-        euint64 rem = FHE.fromExternal(minutesExt, proof);
+        euint64 mins = FHE.fromExternal(minutesExt, proof);
 
-        // 2) Fast floor(minutes / 30) without div:
-        //    Binary subtraction by chunks of 30 * 2^k
-        //    Then add +1 if remainder > 0 (ceil)
-        euint64 blocks = FHE.asEuint64(0);
+        // 2) Compute fee and store it for the user
+        feeHandle = _storeFee(_computeFee(mins, lotId, euint64.wrap(0)), lotId);
+        emit Quoted(msg.sender, lotId, feeHandle);
+    }
 
-        // Use MSB of maxBlocks (sufficient ~16 iterations)
-        uint8 kMax = _msbPos(maxBlocks); // 0..15 for maxBlocks<=65535
+    /**
+     * @notice Calculate fees for several stays in one transaction.
+     *         Each fee is stored in the user's history; the encrypted total
+     *         becomes the last fee (getMyFeeHandle / pay). A pending merchant
+     *         validation is used up by the first stay only.
+     * @param minutesExts  External euint64 minutes, all from one encrypted input
+     * @param proof        Attestation from Relayer SDK for minutesExts
+     * @return feeHandles  bytes32 handles to the encrypted fee of each stay
+     * @return totalHandle bytes32 handle to the encrypted sum of the fees
+     */
+    function quoteBatch(
+        externalEuint64[] calldata minutesExts,
+        bytes calldata proof
+    ) external whenNotPaused returns (bytes32[] memory feeHandles, bytes32 totalHandle) {
+        return _quoteBatch(DEFAULT_LOT, minutesExts, proof);
+    }
 
-        // Iterate k = kMax..0
-        for (uint8 ki = kMax + 1; ki > 0; ) {
-            unchecked {
-                --ki;
-            }
-            uint8 k = ki;
-            // chunk = 30 * (1 << k)
-            uint64 chunk = uint64(BLOCK_MINUTES) * (uint64(1) << k);
+    /**
+     * @notice Calculate fees for several stays at a specific lot.
+     * @param lotId        Lot whose rate card is applied
+     * @param minutesExts  External euint64 minutes, all from one encrypted input
+     * @param proof        Attestation from Relayer SDK for minutesExts
+     * @return feeHandles  bytes32 handles to the encrypted fee of each stay
+     * @return totalHandle bytes32 handle to the encrypted sum of the fees
+     */
+    function quoteBatch(
+        uint256 lotId,
+        externalEuint64[] calldata minutesExts,
+        bytes calldata proof
+    ) external whenNotPaused returns (bytes32[] memory feeHandles, bytes32 totalHandle) {
+        return _quoteBatch(lotId, minutesExts, proof);
+    }
 
-            // Check rem >= chunk. Library may not have gte, use gt(rem, chunk-1)
-            ebool ge = FHE.gt(rem, FHE.asEuint64(chunk - 1));
+    /**
+     * @notice Calculate fees for several stays at a lot, reverting if rates
+     *         changed since the caller read them (see the versioned quote).
+     * @param lotId                Lot whose rate card is applied
+     * @param minutesExts          External euint64 minutes, all from one encrypted input
+     * @param proof                Attestation from Relayer SDK for minutesExts
+     * @param expectedRateVersion  rateVersion the caller displayed
+     * @return feeHandles          bytes32 handles to the encrypted fee of each stay
+     * @return totalHandle         bytes32 handle to the encrypted sum of the fees
+     */
+    function quoteBatch(
+        uint256 lotId,
+        externalEuint64[] calldata minutesExts,
+        bytes calldata proof,
+        uint256 expectedRateVersion
+    ) external whenNotPaused returns (bytes32[] memory feeHandles, bytes32 totalHandle) {
+        _applyDueRateChange(lotId);
+        require(rateVersion == expectedRateVersion, "Rates changed");
+        return _quoteBatch(lotId, minutesExts, proof);
+    }
+
+    /// @notice Most stays one batch quote at the lot's rates in effect can take, bound
+    ///         by the coprocessor's HCU limits per transaction (0: batches revert)
+    function maxBatchSize(uint256 lotId) public view returns (uint256) {
+        return FeeMath.maxBatchSize(_rateCard(lotId), _rules.tiers, _rules.dailyMaxFee, _rules.minimumFee);
+    }
 
-            // rem = ge ? (rem - chunk) : rem
-            euint64 remMinus = FHE.sub(rem, FHE.asEuint64(chunk));
-            rem = FHE.select(ge, remMinus, rem);
+    function _quoteBatch(
+        uint256 lotId,
+        externalEuint64[] calldata minutesExts,
+        bytes calldata proof
+    ) internal returns (bytes32[] memory feeHandles, bytes32 totalHandle) {
+        require(proof.length > 0, "Empty proof");
+        _requireLotOpen(lotId);
+        _applyDueRateChange(lotId);
+        require(minutesExts.length > 0 && minutesExts.length <= maxBatchSize(lotId), "Bad batch size");
+
+        feeHandles = new bytes32[](minutesExts.length);
+        euint64 total;
+        for (uint256 i = 0; i < minutesExts.length; ++i) {
+            // _computeFee consumes a pending validation, so only stay 0 gets it
+            euint64 fee = _computeFee(FHE.fromExternal(minutesExts[i], proof), lotId, euint64.wrap(0));
+            _recordFee(fee, lotId);
+            total = i == 0 ? fee : FHE.add(total, fee);
 
-            // blocks = ge ? (blocks + (1 << k)) : blocks
-            euint64 addBy = FHE.asEuint64(uint64(1) << k);
-            euint64 blocksPlus = FHE.add(blocks, addBy);
-            blocks = FHE.select(ge, blocksPlus, blocks);
+            feeHandles[i] = FHE.toBytes32(fee);
+            emit Quoted(msg.sender, lotId, feeHandles[i]);
         }
 
-        // Ceil: if remainder > 0, add 1 block
-        ebool hasRem = FHE.gt(rem, FHE.asEuint64(0));
-        blocks = FHE.select(hasRem, FHE.add(blocks, FHE.asEuint64(1)), blocks);
+        _setPayableFee(total, lotId);
+        totalHandle = FHE.toBytes32(total);
+        emit BatchQuoted(msg.sender, lotId, minutesExts.length, totalHandle);
+    }
 
-        // 3) Cap blocks at maxBlocks
-        ebool tooMany = FHE.gt(blocks, FHE.asEuint64(maxBlocks));
-        blocks = FHE.select(tooMany, FHE.asEuint64(maxBlocks), blocks);
+    /* ─── Sessions (Check-in / Check-out) ─────────────────────────── */
+
+    /**
+     * @notice Check in at a lot. Stores the entry time as a euint64 for
+     *         the check-out arithmetic.
+     * @dev The entry time is block.timestamp, which is public; only the fee
+     *      billed at check-out is confidential.
+     * @param lotId  Lot identifier
+     * @return entryHandle  bytes32 handle to the entry time
+     */
+    function startSession(uint256 lotId) external whenNotPaused returns (bytes32 entryHandle) {
+        _requireLotOpen(lotId);
+        Session storage s = _sessions[msg.sender][lotId];
+        require(!s.active, "Session active");
 
-        // 4) fee = blocks * pricePerBlock (in cents)
-        euint64 fee = FHE.mul(blocks, FHE.asEuint64(pricePerBlock));
+        s.entryTime = FHE.asEuint64(uint64(block.timestamp));
+        s.active = true;
 
-        // 5) Store fee and grant permissions:
-        _lastFee[msg.sender] = fee;
+        FHE.allowThis(s.entryTime);
+        FHE.allow(s.entryTime, msg.sender);
 
-        // - To contract: to reuse this value in future
-        FHE.allowThis(_lastFee[msg.sender]);
+        entryHandle = FHE.toBytes32(s.entryTime);
+        emit SessionStarted(msg.sender, lotId, entryHandle);
+    }
 
-        // - To user: to enable userDecrypt via Relayer SDK
-        FHE.allow(_lastFee[msg.sender], msg.sender);
+    /**
+     * @notice Check out of a lot. Computes the duration from block.timestamp
+     *         and bills it with the same block logic as quote.
+     * @param lotId  Lot identifier
+     * @return feeHandle  bytes32 handle to encrypted fee
+     */
+    function endSession(uint256 lotId) external whenNotPaused returns (bytes32 feeHandle) {
+        Session storage s = _sessions[msg.sender][lotId];
+        require(s.active, "No session");
+        _applyDueRateChange(lotId);
+
+        // Elapsed seconds, rounded up to whole minutes
+        euint64 elapsed = FHE.sub(FHE.asEuint64(uint64(block.timestamp)), s.entryTime);
+        euint64 mins = FHE.div(FHE.add(elapsed, FHE.asEuint64(59)), 60);
+
+        s.active = false;
+
+        feeHandle = _storeFee(_computeFee(mins, lotId, euint64.wrap(0)), lotId);
+        emit SessionEnded(msg.sender, lotId, feeHandle);
+    }
+
+    /* ─── Settlement ──────────────────────────────────────────────── */
+
+    /**
+     * @notice Pay the last calculated fee to the operator of its lot in the
+     *         confidential payment token.
+     *         The user must have set this contract as operator on the token.
+     *         If the balance is insufficient the token moves 0; the encrypted
+     *         transferred amount is stored for the user to verify.
+     * @return paidHandle  bytes32 handle to encrypted transferred amount
+     */
+    function pay() external whenNotPaused returns (bytes32 paidHandle) {
+        require(address(paymentToken) != address(0), "No payment token");
+        require(FHE.isInitialized(_lastFee[msg.sender]), "No fee");
+        require(!_feeSettled[msg.sender], "Already paid");
+
+        euint64 fee = _lastFee[msg.sender];
+        address recipient = _lotRecipient(_lastFeeLot[msg.sender]);
+        _feeSettled[msg.sender] = true;
+
+        // Nothing left to pay if the fee was deducted from the prepaid balance
+        ebool charged = _lastFeeCharged[msg.sender];
+        if (FHE.isInitialized(charged)) {
+            fee = FHE.select(charged, FHE.asEuint64(0), fee);
+        }
+
+        // Let the token read the fee for the duration of this call
+        FHE.allowTransient(fee, address(paymentToken));
+        euint64 paid = paymentToken.confidentialTransferFrom(msg.sender, recipient, fee);
+
+        _lastPaid[msg.sender] = paid;
+        FHE.allowThis(_lastPaid[msg.sender]);
+        FHE.allow(_lastPaid[msg.sender], msg.sender);
+
+        paidHandle = FHE.toBytes32(_lastPaid[msg.sender]);
+        emit Paid(msg.sender, recipient, paidHandle);
+    }
+
+    /* ─── Sharing (Expense Reimbursement) ─────────────────────────── */
+
+    /**
+     * @notice Let `viewer` decrypt one fee of the caller's quote history
+     *         (e.g. an employer's finance team). The grant is permanent;
+     *         the fee stays private to everyone else.
+     * @param index   Position in the caller's quote history
+     * @param viewer  Address allowed to userDecrypt the fee
+     */
+    function shareQuote(uint256 index, address viewer) external {
+        require(index < _quotes[msg.sender].length, "Bad index");
+        require(viewer != address(0) && viewer != msg.sender, "Bad viewer");
 
-        // 6) Return handle to user
-        feeHandle = FHE.toBytes32(_lastFee[msg.sender]);
-        emit Quoted(msg.sender, feeHandle);
+        QuoteRecord storage q = _quotes[msg.sender][index];
+        FHE.allow(q.fee, viewer);
+        emit QuoteShared(msg.sender, viewer, index, q.lotId, q.timestamp, FHE.toBytes32(q.fee));
     }
 }
@@ -0,0 +1,480 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "./interfaces/IConfidentialToken.sol";
+import {IParkingFeeCalculator} from "./interfaces/IParkingFeeCalculator.sol";
+import {FeeMath} from "./libraries/FeeMath.sol";
+
+/**
+ * @title ParkingReservations
+ * @notice Spot reservations for the lots of a ParkingFeeCalculator:
+ *  - Input: encrypted start time (unix seconds) and duration (minutes)
+ *  - Availability: encrypted count of overlapping confirmed bookings vs lot capacity
+ *  - Fee: the lot's rate card priced with the calculator's block logic (FeeMath),
+ *    charged at booking in the calculator's payment token to the lot's recipient
+ *  - Outcome: encrypted "confirmed" flag, false if no spot was free or the fee was
+ *    not paid; unconfirmed bookings cost an encrypted zero
+ *  - Capacity: set per lot by the lot operator (or a calculator operator); each
+ *    driver holds at most MAX_OPEN_BOOKINGS bookings at once
+ *  - Check-out: encrypted overstay penalty for blocks past the reserved end,
+ *    charged in the calculator's payment token to the lot's recipient
+ *  - Release: anyone can free the slot of a booking that was not confirmed or whose
+ *    reserved window ended, with a public decryption of that one bit
+ *  - Expiry: bookings never checked out are settled with their full overstay
+ *  - Decryption: user-only via Relayer SDK userDecrypt (except the release bit)
+ *
+ * Overlaps are counted pairwise against the new booking, so the check is
+ * conservative: it never books more than `capacity` cars at once, but may
+ * refuse a booking whose overlapping bookings do not overlap each other.
+ */
+contract ParkingReservations is ZamaEthereumConfig {
+    /* ─── Constants ───────────────────────────────────────────────── */
+    /// @notice Bookings per lot that can hold capacity at once (bounds the overlap loop)
+    uint256 public constant MAX_ACTIVE_RESERVATIONS = 16;
+    /// @notice Bookings one driver can hold open at once, across lots
+    uint256 public constant MAX_OPEN_BOOKINGS = 2;
+    /// @notice Latest start accepted, relative to the booking time
+    uint64 public constant MAX_ADVANCE = 14 days;
+    /// @notice Longest reservation; longer durations are cut to it
+    uint64 public constant MAX_RESERVATION_MINUTES = 1440;
+    /// @notice Expired bookings settled by each reserve call. A booking next to 15
+    ///         others, with its fee transfer and one settlement, costs ~13M HCU of the
+    ///         20M per-transaction limit; use settleExpired or release for more.
+    uint256 public constant MAX_SETTLED_PER_RESERVE = 1;
+
+    IParkingFeeCalculator public immutable calculator;
+
+    constructor(address calculator_) {
+        require(calculator_ != address(0), "Zero calculator");
+        calculator = IParkingFeeCalculator(calculator_);
+    }
+
+    function version() external pure returns (string memory) {
+        return "ParkingReservations/1.0.0-sepolia";
+    }
+
+    /* ─── Lot Capacity ────────────────────────────────────────────── */
+    /// @notice Spots bookable in advance per lot (0 = no reservations)
+    mapping(uint256 => uint16) public lotCapacity;
+
+    event LotCapacityUpdated(uint256 indexed lotId, uint16 capacity);
+
+    function setLotCapacity(uint256 lotId, uint16 capacity) external {
+        (, address operator, , , , ) = calculator.getLot(lotId);
+        require(
+            msg.sender == operator || calculator.hasRole(calculator.OPERATOR_ROLE(), msg.sender),
+            "Not lot operator"
+        );
+        lotCapacity[lotId] = capacity;
+        emit LotCapacityUpdated(lotId, capacity);
+    }
+
+    /* ─── Overstay Penalty ────────────────────────────────────────── */
+    /// @notice Price per block (lot block size) parked past the reserved end (0 = no penalty)
+    uint64 public penaltyPerBlock;
+
+    event PenaltyPriceUpdated(uint64 penaltyPerBlock);
+
+    /// @notice Set by the calculator's owner. A penalty needs the calculator's payment token to be charged in.
+    ///         Overstays are capped at a lot's uint16 max blocks, so the price times that cap must
+    ///         fit the encrypted euint64, whose arithmetic wraps silently.
+    function setPenaltyPerBlock(uint64 price) external {
+        require(msg.sender == calculator.owner(), "Not owner");
+        require(price == 0 || address(calculator.paymentToken()) != address(0), "No payment token");
+        require(uint256(price) * type(uint16).max <= type(uint64).max, "Penalty overflow");
+        penaltyPerBlock = price;
+        emit PenaltyPriceUpdated(price);
+    }
+
+    /* ─── Storage ─────────────────────────────────────────────────── */
+    struct Reservation {
+        address driver;
+        uint256 lotId;
+        euint64 start; // Encrypted unix seconds
+        euint64 end; // Encrypted unix seconds (start + duration)
+        euint64 fee; // Encrypted fee in cents charged at booking (0 if not confirmed)
+        euint64 penalty; // Encrypted overstay penalty in cents (set at check-out)
+        euint64 penaltyPaid; // Encrypted amount of the penalty the token transferred
+        ebool confirmed; // Encrypted: in the booking window, a spot was free and the fee paid
+        uint64 expiresAt; // Public bound after which the booking surely ended
+        bool active; // Holds capacity (not cancelled or expired)
+    }
+
+    Reservation[] private _reservations;
+    mapping(uint256 => uint256[]) private _activeByLot; // lotId => reservation ids
+    mapping(address => uint256[]) private _byDriver; // driver => reservation ids
+    mapping(uint256 => ebool) private _releasable; // Publicly decryptable, set by requestRelease
+
+    /// @notice Active bookings per driver (bounded by MAX_OPEN_BOOKINGS)
+    mapping(address => uint256) public openBookings;
+
+    event Reserved(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 feeHandle);
+    event ReservationCancelled(address indexed driver, uint256 indexed lotId, uint256 indexed id);
+    event CheckedOut(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 penaltyHandle);
+    event ReservationExpired(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 penaltyHandle);
+    event ReleaseRequested(uint256 indexed id, bytes32 releasableHandle);
+    event PenaltyCharged(address indexed driver, address indexed recipient, uint256 indexed id, bytes32 paidHandle);
+
+    function reservationCount() external view returns (uint256) {
+        return _reservations.length;
+    }
+
+    function getReservation(
+        uint256 id
+    )
+        external
+        view
+        returns (
+            address driver,
+            uint256 lotId,
+            bytes32 startHandle,
+            bytes32 endHandle,
+            bytes32 feeHandle,
+            bytes32 penaltyHandle,
+            bytes32 penaltyPaidHandle,
+            bytes32 confirmedHandle,
+            uint64 expiresAt,
+            bool active
+        )
+    {
+        require(id < _reservations.length, "Bad id");
+        Reservation storage r = _reservations[id];
+        return (
+            r.driver,
+            r.lotId,
+            FHE.toBytes32(r.start),
+            FHE.toBytes32(r.end),
+            FHE.toBytes32(r.fee),
+            FHE.toBytes32(r.penalty),
+            FHE.toBytes32(r.penaltyPaid),
+            FHE.toBytes32(r.confirmed),
+            r.expiresAt,
+            r.active && r.expiresAt > block.timestamp
+        );
+    }
+
+    function getMyReservationIds() external view returns (uint256[] memory) {
+        return _byDriver[msg.sender];
+    }
+
+    /// @notice Bookings currently holding capacity at a lot (expired ones included until pruned)
+    function getActiveReservationCount(uint256 lotId) external view returns (uint256) {
+        return _activeByLot[lotId].length;
+    }
+
+    /// @notice Ids of the bookings holding capacity at a lot, for requestRelease
+    function getActiveReservationIds(uint256 lotId) external view returns (uint256[] memory) {
+        return _activeByLot[lotId];
+    }
+
+    /// @notice Handle of the bit requested by requestRelease (zero hash until requested)
+    function getReleasableHandle(uint256 id) external view returns (bytes32) {
+        return FHE.toBytes32(_releasable[id]);
+    }
+
+    /* ─── Reserve / Cancel ────────────────────────────────────────── */
+
+    /**
+     * @notice Book a spot at a lot. Whether the booking is confirmed stays
+     *         encrypted; the fee is an encrypted zero if it is not. The fee is
+     *         charged in the calculator's payment token to the lot's recipient,
+     *         so the driver must have made this contract an operator on it (which
+     *         also lets an overstay be charged); a booking whose fee the balance
+     *         does not cover is not confirmed. The fee is not refunded.
+     * @param lotId       Lot to book
+     * @param startExt    External euint64 (encrypted start, unix seconds)
+     * @param minutesExt  External euint64 (encrypted duration in minutes)
+     * @param proof       Attestation from Relayer SDK for both inputs
+     * @return id         Reservation id
+     */
+    function reserve(
+        uint256 lotId,
+        externalEuint64 startExt,
+        externalEuint64 minutesExt,
+        bytes calldata proof
+    ) external returns (uint256 id) {
+        require(!calculator.paused(), "Paused");
+        require(proof.length > 0, "Empty proof");
+        require(lotCapacity[lotId] > 0, "No reservations");
+        require(openBookings[msg.sender] < MAX_OPEN_BOOKINGS, "Too many bookings");
+        _requireOperator();
+        _pruneExpired(lotId);
+        require(_activeByLot[lotId].length < MAX_ACTIVE_RESERVATIONS, "Fully booked");
+
+        euint64 start = FHE.fromExternal(startExt, proof);
+        euint64 mins = FHE.min(FHE.fromExternal(minutesExt, proof), MAX_RESERVATION_MINUTES);
+        euint64 end = FHE.add(start, FHE.mul(mins, 60));
+
+        // Start must lie in [now, now + MAX_ADVANCE] and a spot must be free
+        ebool confirmed = FHE.and(
+            FHE.and(FHE.ge(start, uint64(block.timestamp)), FHE.le(start, uint64(block.timestamp) + MAX_ADVANCE)),
+            _hasFreeSpot(lotId, start, end)
+        );
+        euint64 fee = FHE.select(confirmed, _price(lotId, mins), FHE.asEuint64(0));
+
+        euint64 paid = _collectFee(lotId, fee);
+        confirmed = FHE.and(confirmed, FHE.eq(paid, fee));
+        fee = paid;
+
+        id = _reservations.length;
+        _reservations.push(
+            Reservation({
+                driver: msg.sender,
+                lotId: lotId,
+                start: start,
+                end: end,
+                fee: fee,
+                penalty: euint64.wrap(0),
+                penaltyPaid: euint64.wrap(0),
+                confirmed: confirmed,
+                expiresAt: uint64(block.timestamp) + MAX_ADVANCE + MAX_RESERVATION_MINUTES * 60,
+                active: true
+            })
+        );
+        _activeByLot[lotId].push(id);
+        _byDriver[msg.sender].push(id);
+        ++openBookings[msg.sender];
+
+        _allow(start, msg.sender);
+        _allow(end, msg.sender);
+        _allow(fee, msg.sender);
+        FHE.allowThis(confirmed);
+        FHE.allow(confirmed, msg.sender);
+
+        emit Reserved(msg.sender, lotId, id, FHE.toBytes32(fee));
+    }
+
+    /// @notice Release a booking's capacity before leaving the spot. The fee stays
+    ///         recorded; a late cancellation is billed the overstay like a check-out.
+    function cancelReservation(uint256 id) external {
+        require(!calculator.paused(), "Paused");
+        Reservation storage r = _settle(id);
+        emit ReservationCancelled(msg.sender, r.lotId, id);
+    }
+
+    /**
+     * @notice Leave a booked spot. Time parked past the reserved end (actual
+     *         minus reserved duration, floored at zero) is billed per block at
+     *         `penaltyPerBlock` and transferred to the lot's recipient in the
+     *         payment token; the penalty stays encrypted and is zero for
+     *         bookings that were not confirmed. Releases the booking's capacity.
+     * @param id           Reservation id
+     * @return penaltyHandle Encrypted penalty in cents
+     */
+    function checkOut(uint256 id) external returns (bytes32 penaltyHandle) {
+        require(!calculator.paused(), "Paused");
+        Reservation storage r = _settle(id);
+        penaltyHandle = FHE.toBytes32(r.penalty);
+        emit CheckedOut(msg.sender, r.lotId, id, penaltyHandle);
+    }
+
+    /**
+     * @notice Settle a booking that surely ended without a check-out: its full
+     *         overstay is billed like a check-out and its capacity released.
+     *         Anyone can call this (e.g. the lot operator) to free capacity.
+     * @param id  Reservation id
+     */
+    function settleExpired(uint256 id) external {
+        require(!calculator.paused(), "Paused");
+        require(id < _reservations.length, "Bad id");
+        Reservation storage r = _reservations[id];
+        require(r.active, "Not active");
+        require(r.expiresAt <= block.timestamp, "Not expired");
+        _expire(id);
+    }
+
+    /**
+     * @notice First step of releasing a booking that holds a slot without a car:
+     *         computes whether it was not confirmed or its reserved window ended,
+     *         and makes that one bit publicly decryptable. Anyone can call this
+     *         (e.g. the lot operator); the start, end and fee stay private.
+     * @param id                Reservation id
+     * @return releasableHandle Handle to decrypt with the Relayer SDK publicDecrypt
+     */
+    function requestRelease(uint256 id) external returns (bytes32 releasableHandle) {
+        require(!calculator.paused(), "Paused");
+        require(id < _reservations.length, "Bad id");
+        Reservation storage r = _reservations[id];
+        require(r.active, "Not active");
+
+        ebool releasable = FHE.or(FHE.not(r.confirmed), FHE.le(r.end, uint64(block.timestamp)));
+        FHE.allowThis(releasable);
+        _releasable[id] = FHE.makePubliclyDecryptable(releasable);
+        releasableHandle = FHE.toBytes32(releasable);
+        emit ReleaseRequested(id, releasableHandle);
+    }
+
+    /**
+     * @notice Release a booking with the public decryption of its requestRelease
+     *         bit. A booking that ended is settled like an expired one, billed
+     *         the overstay up to now.
+     * @param id              Reservation id
+     * @param cleartexts      ABI-encoded decrypted bit (abiEncodedClearValues)
+     * @param decryptionProof KMS signatures from publicDecrypt
+     */
+    function release(uint256 id, bytes calldata cleartexts, bytes calldata decryptionProof) external {
+        require(!calculator.paused(), "Paused");
+        require(id < _reservations.length, "Bad id");
+        require(_reservations[id].active, "Not active");
+        require(FHE.isInitialized(_releasable[id]), "Not requested");
+
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(_releasable[id]);
+        FHE.checkSignatures(handles, cleartexts, decryptionProof);
+        require(abi.decode(cleartexts, (bool)), "Still booked");
+        _expire(id);
+    }
+
+    /* ─── Internal Helpers ────────────────────────────────────────── */
+    /// @dev Bill the caller's booking for its overstay and release its capacity
+    function _settle(uint256 id) internal returns (Reservation storage r) {
+        require(id < _reservations.length, "Bad id");
+        r = _reservations[id];
+        require(r.driver == msg.sender, "Not driver");
+        require(r.active, "Not active");
+
+        _bill(id, true);
+        _release(id);
+    }
+
+    /**
+     * @dev Set the overstay penalty of a booking and charge it to the lot's recipient.
+     *      With `required` the token reverts if the driver revoked this contract as
+     *      operator; otherwise the penalty is only recorded and nothing is transferred.
+     */
+    function _bill(uint256 id, bool required) internal {
+        Reservation storage r = _reservations[id];
+        euint64 penalty = FHE.mul(_overstayBlocks(r), penaltyPerBlock);
+        r.penalty = FHE.select(r.confirmed, penalty, FHE.asEuint64(0));
+        _allow(r.penalty, r.driver);
+        if (penaltyPerBlock == 0) {
+            return;
+        }
+
+        IConfidentialToken token = calculator.paymentToken();
+        if (!required && !token.isOperator(r.driver, address(this))) {
+            return;
+        }
+        (, address recipient, , , , ) = calculator.getLot(r.lotId);
+
+        // Let the token read the penalty for the duration of this call
+        FHE.allowTransient(r.penalty, address(token));
+        r.penaltyPaid = token.confidentialTransferFrom(r.driver, recipient, r.penalty);
+        _allow(r.penaltyPaid, r.driver);
+        emit PenaltyCharged(r.driver, recipient, id, FHE.toBytes32(r.penaltyPaid));
+    }
+
+    /// @dev Fees and penalties are charged through the calculator's payment token
+    function _requireOperator() internal view {
+        IConfidentialToken token = calculator.paymentToken();
+        require(address(token) != address(0), "No payment token");
+        require(token.isOperator(msg.sender, address(this)), "Not operator");
+    }
+
+    /// @dev Charge the caller a booking fee to the lot's recipient; the token moves
+    ///      nothing if the balance is short
+    function _collectFee(uint256 lotId, euint64 fee) internal returns (euint64 paid) {
+        IConfidentialToken token = calculator.paymentToken();
+        (, address recipient, , , , ) = calculator.getLot(lotId);
+        FHE.allowTransient(fee, address(token));
+        paid = token.confidentialTransferFrom(msg.sender, recipient, fee);
+    }
+
+    /// @dev Started blocks of the lot's block size past the reserved end, capped at the lot's max blocks
+    function _overstayBlocks(Reservation storage r) internal returns (euint64) {
+        (, , , uint16 lotMaxBlocks, uint64 lotBlockMinutes, ) = calculator.getLot(r.lotId);
+        uint64 blockSeconds = lotBlockMinutes * 60;
+
+        // max(now, end) - end = seconds past the reserved end, 0 if left in time
+        euint64 late = FHE.sub(FHE.max(r.end, uint64(block.timestamp)), r.end);
+        euint64 blocks = FHE.div(FHE.add(late, blockSeconds - 1), blockSeconds);
+        return FHE.min(blocks, uint64(lotMaxBlocks));
+    }
+
+    /// @dev Fewer confirmed bookings than the lot's capacity overlap [start, end)
+    function _hasFreeSpot(uint256 lotId, euint64 start, euint64 end) internal returns (ebool) {
+        uint256[] storage activeIds = _activeByLot[lotId];
+        euint64 overlapping = FHE.asEuint64(0);
+        for (uint256 i = 0; i < activeIds.length; ++i) {
+            Reservation storage other = _reservations[activeIds[i]];
+            ebool overlaps = FHE.and(FHE.lt(start, other.end), FHE.lt(other.start, end));
+            overlapping = FHE.add(overlapping, FHE.asEuint64(FHE.and(overlaps, other.confirmed)));
+        }
+        return FHE.lt(overlapping, uint64(lotCapacity[lotId]));
+    }
+
+    /// @dev Fee for the duration with the lot's current rate card and the calculator's fee limits
+    function _price(uint256 lotId, euint64 mins) internal returns (euint64) {
+        return
+            FeeMath.priceMinutesWithTiers(
+                mins,
+                _rateCard(lotId),
+                _tiers(lotId),
+                calculator.dailyMaxFee(),
+                calculator.minimumFee()
+            );
+    }
+
+    function _allow(euint64 value, address driver) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, driver);
+    }
+
+    function _rateCard(uint256 lotId) internal view returns (FeeMath.RateCard memory) {
+        (, , uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes, bool active) = calculator.getLot(lotId);
+        require(active, "Lot inactive");
+        bool tiered = lotId == calculator.DEFAULT_LOT() && calculator.getTierCount() > 0;
+        return FeeMath.RateCard(price, lotMaxBlocks, lotBlockMinutes, tiered);
+    }
+
+    /// @dev The calculator's tier table (applies to the default lot only)
+    function _tiers(uint256 lotId) internal view returns (FeeMath.Tier[] memory tiers) {
+        if (lotId != calculator.DEFAULT_LOT()) {
+            return tiers;
+        }
+        tiers = new FeeMath.Tier[](calculator.getTierCount());
+        for (uint256 i = 0; i < tiers.length; ++i) {
+            (uint16 fromBlock, uint64 price) = calculator.getTier(i);
+            tiers[i] = FeeMath.Tier(fromBlock, price);
+        }
+    }
+
+    /// @dev Settle up to MAX_SETTLED_PER_RESERVE bookings that surely ended
+    function _pruneExpired(uint256 lotId) internal {
+        uint256[] storage activeIds = _activeByLot[lotId];
+        uint256 settled = 0;
+        for (uint256 i = activeIds.length; i > 0 && settled < MAX_SETTLED_PER_RESERVE; --i) {
+            uint256 id = activeIds[i - 1];
+            if (_reservations[id].expiresAt <= block.timestamp) {
+                _expire(id);
+                ++settled;
+            }
+        }
+    }
+
+    /// @dev Bill an expired booking its full overstay (if still approved) and release its capacity
+    function _expire(uint256 id) internal {
+        Reservation storage r = _reservations[id];
+        _bill(id, false);
+        _release(id);
+        emit ReservationExpired(r.driver, r.lotId, id, FHE.toBytes32(r.penalty));
+    }
+
+    function _release(uint256 id) internal {
+        Reservation storage r = _reservations[id];
+        r.active = false;
+        --openBookings[r.driver];
+
+        // Swap-and-pop from the lot's active set
+        uint256[] storage activeIds = _activeByLot[r.lotId];
+        for (uint256 i = 0; i < activeIds.length; ++i) {
+            if (activeIds[i] == id) {
+                activeIds[i] = activeIds[activeIds.length - 1];
+                activeIds.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title IConfidentialToken
+ * @notice Subset of the ERC-7984 confidential fungible token interface
+ *         used by ParkingFeeCalculator and ParkingReservations to settle
+ *         encrypted fees and penalties.
+ */
+interface IConfidentialToken {
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    /// @dev Caller must be an operator of `from` and allowed on `amount`.
+    ///      Returns the amount actually transferred (0 on insufficient balance).
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+}
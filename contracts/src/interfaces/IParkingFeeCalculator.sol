@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IConfidentialToken} from "./IConfidentialToken.sol";
+
+/**
+ * @title IParkingFeeCalculator
+ * @notice Subset of ParkingFeeCalculator read by ParkingReservations
+ *         (lot registry, rate card, fee limits, owner, roles, pause state
+ *         and payment token).
+ */
+interface IParkingFeeCalculator {
+    function paused() external view returns (bool);
+
+    function owner() external view returns (address);
+
+    function hasRole(bytes32 role, address account) external view returns (bool);
+
+    function OPERATOR_ROLE() external view returns (bytes32);
+
+    function DEFAULT_LOT() external view returns (uint256);
+
+    function getLot(
+        uint256 lotId
+    )
+        external
+        view
+        returns (
+            string memory name,
+            address operator,
+            uint64 price,
+            uint16 lotMaxBlocks,
+            uint64 lotBlockMinutes,
+            bool active
+        );
+
+    function getTierCount() external view returns (uint256);
+
+    function getTier(uint256 index) external view returns (uint16 fromBlock, uint64 price);
+
+    function dailyMaxFee() external view returns (uint64);
+
+    function minimumFee() external view returns (uint64);
+
+    function paymentToken() external view returns (IConfidentialToken);
+}
@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title FeeMath
+ * @notice Encrypted fee math shared by ParkingFeeCalculator and ParkingReservations:
+ *         minutes to blocks, flat/tiered pricing, daily cap and minimum charge.
+ * @dev The public functions are external to the callers' bytecode (linked library,
+ *      DELEGATECALL), so FHE ops still run as the caller: same ACL subject and
+ *      coprocessor config.
+ */
+library FeeMath {
+    uint64 internal constant DAY_MINUTES = 1440;
+    uint256 internal constant MAX_TIERS = 8;
+    uint256 internal constant MAX_CAP_PERIODS = 7; // Daily cap evaluated over at most 7 days
+    uint16 internal constant MAX_CLASS_MULTIPLIER = 50000; // 5x
+    uint64 internal constant MAX_DISCOUNT_PERCENT = 100;
+
+    /// @notice A tier prices every block from `fromBlock` (0-based) up to the next tier's `fromBlock`
+    struct Tier {
+        uint16 fromBlock;
+        uint64 pricePerBlock; // cents
+    }
+
+    /// @dev Billing parameters of a lot (resolved from contract-level state for lot 0)
+    struct RateCard {
+        uint64 pricePerBlock;
+        uint16 maxBlocks;
+        uint64 blockMinutes;
+        bool tiered;
+    }
+
+    /// @dev Fee rules: the default lot's tier table (empty = flat), and the limits,
+    ///      grace period and vehicle class multipliers of every lot
+    struct FeeRules {
+        Tier[] tiers;
+        uint64 dailyMaxFee; // cents, 0 = no cap
+        uint64 minimumFee; // cents, 0 = none
+        uint64 graceMinutes; // 0 = no grace period
+        bool graceDeducted;
+        uint16[4] classMultipliers; // Basis points, by vehicle class
+    }
+
+    /* ─── Encrypted Fee for Encrypted Minutes ───────────────────── */
+    function priceMinutes(
+        euint64 mins,
+        RateCard memory card,
+        Tier[] storage tiers,
+        uint64 dailyMaxFee,
+        uint64 minimumFee
+    ) public returns (euint64) {
+        return priceMinutesWithTiers(mins, card, tiers, dailyMaxFee, minimumFee);
+    }
+
+    /// @dev Same as priceMinutes, for callers that read the tier table from elsewhere
+    function priceMinutesWithTiers(
+        euint64 mins,
+        RateCard memory card,
+        Tier[] memory tiers,
+        uint64 dailyMaxFee,
+        uint64 minimumFee
+    ) public returns (euint64) {
+        euint64 fee = priceBlocks(computeBlocks(mins, card), card, tiers, dailyMaxFee);
+
+        // Minimum charge
+        if (minimumFee > 0) {
+            fee = FHE.max(fee, minimumFee);
+        }
+        return fee;
+    }
+
+    /* ─── Encrypted Blocks for Encrypted Minutes ────────────────── */
+    function computeBlocks(euint64 mins, RateCard memory card) internal returns (euint64) {
+        // min(ceil(minutes / blockMinutes), maxBlocks) as one scalar division.
+        // Clamping first caps the result and keeps the rounding add from wrapping.
+        euint64 clamped = FHE.min(mins, uint64(card.maxBlocks) * card.blockMinutes);
+        return FHE.div(FHE.add(clamped, card.blockMinutes - 1), card.blockMinutes);
+    }
+
+    /* ─── Pricing Segments ──────────────────────────────────────── */
+    /// @dev Blocks are priced in segments: runs of blocks at one price, split at
+    ///      tier starts and, when a daily cap applies (perDay > 0), at 24h periods.
+    ///      Returns the segment starting at block `from`.
+    function nextSegment(
+        uint16 from,
+        RateCard memory card,
+        Tier[] memory tiers,
+        uint64 perDay
+    ) internal pure returns (uint16 to, uint64 price) {
+        to = card.maxBlocks;
+        price = card.pricePerBlock;
+        if (card.tiered) {
+            for (uint256 i = 0; i < tiers.length; ++i) {
+                if (tiers[i].fromBlock > from) {
+                    if (tiers[i].fromBlock < to) to = tiers[i].fromBlock;
+                    break;
+                }
+                price = tiers[i].pricePerBlock;
+            }
+        }
+        if (perDay > 0) {
+            uint64 periodEnd = (from / perDay + 1) * perDay;
+            if (periodEnd < to) to = uint16(periodEnd);
+        }
+    }
+
+    function periodEnds(uint16 to, RateCard memory card, uint64 perDay) internal pure returns (bool) {
+        return to == card.maxBlocks || (perDay > 0 && to % perDay == 0);
+    }
+
+    /* ─── Encrypted Fee for Encrypted Blocks ────────────────────── */
+    /// @dev Fee = sum of price * (min(blocks, to) - min(blocks, from)) over the
+    ///      segments; with a daily cap, each period's sum is capped first. The
+    ///      cost grows with tiers + periods, and sums are pairwise to keep depth low.
+    function priceBlocks(
+        euint64 blocks,
+        RateCard memory card,
+        Tier[] memory tiers,
+        uint64 dailyMaxFee
+    ) internal returns (euint64) {
+        uint64 perDay = dailyMaxFee > 0 ? blocksPerDay(card.blockMinutes) : 0;
+        euint64[] memory periodFees = new euint64[](perDay > 0 ? capPeriods(card.maxBlocks, card.blockMinutes) : 1);
+        euint64[] memory terms = new euint64[](tiers.length + 1);
+        uint256 periods;
+        uint256 n;
+
+        euint64 lower; // min(blocks, from), unset for the first segment
+        for (uint16 from = 0; from < card.maxBlocks; ) {
+            (uint16 to, uint64 price) = nextSegment(from, card, tiers, perDay);
+            euint64 upper = to < card.maxBlocks ? FHE.min(blocks, uint64(to)) : blocks;
+            terms[n++] = FHE.mul(from == 0 ? upper : FHE.sub(upper, lower), price);
+
+            if (periodEnds(to, card, perDay)) {
+                euint64 periodFee = sum(terms, n);
+                periodFees[periods++] = perDay > 0 ? FHE.min(periodFee, dailyMaxFee) : periodFee;
+                n = 0;
+            }
+            lower = upper;
+            from = to;
+        }
+        return sum(periodFees, periods);
+    }
+
+    /// @dev Pairwise sum of terms[0..n) (overwrites terms): depth grows with log2(n), not n
+    function sum(euint64[] memory terms, uint256 n) internal returns (euint64) {
+        for (; n > 1; n = (n + 1) / 2) {
+            for (uint256 i = 0; i < n / 2; ++i) {
+                terms[i] = FHE.add(terms[2 * i], terms[2 * i + 1]);
+            }
+            if (n % 2 == 1) {
+                terms[n / 2] = terms[n - 1];
+            }
+        }
+        return terms[0];
+    }
+
+    /* ─── Daily Cap Periods ─────────────────────────────────────── */
+    function blocksPerDay(uint64 minutesPerBlock) internal pure returns (uint64) {
+        return DAY_MINUTES / minutesPerBlock;
+    }
+
+    function capPeriods(uint16 maxBlocks_, uint64 minutesPerBlock) internal pure returns (uint256) {
+        uint64 perDay = blocksPerDay(minutesPerBlock);
+        return (uint64(maxBlocks_) + perDay - 1) / perDay;
+    }
+
+    /* ─── HCU Cost Model ────────────────────────────────────────── */
+    // euint64 HCU per op as charged by the coprocessor's HCULimit (_S: scalar operand)
+    uint256 internal constant HCU_ADD = 162_000; // Also sub
+    uint256 internal constant HCU_ADD_S = 133_000;
+    uint256 internal constant HCU_MUL_S = 365_000;
+    uint256 internal constant HCU_DIV_S = 715_000;
+    uint256 internal constant HCU_MIN_S = 150_000; // Also max
+
+    uint256 internal constant HCU_LIMIT = 20_000_000; // Per transaction
+    uint256 internal constant HCU_DEPTH_LIMIT = 5_000_000; // Per sequential chain
+    // Rest of the costliest calculator quote (class quote with a merchant validation,
+    // deducted grace period, active pass and prepaid balance), measured around priceMinutes
+    uint256 internal constant QUOTE_OVERHEAD_HCU = 4_210_000;
+    uint256 internal constant QUOTE_OVERHEAD_DEPTH = 2_395_000;
+    // Rest of each further stay of a batch quote (no class or validation), including
+    // the add to the batch total
+    uint256 internal constant BATCH_STAY_OVERHEAD_HCU = 707_000;
+
+    /**
+     * @notice Upper bound on the HCU of priceMinutes for one stay, and on its
+     *         sequential depth from a fresh input (HCULimit caps both per transaction)
+     */
+    function pricingCost(
+        RateCard memory card,
+        Tier[] memory tiers,
+        uint64 dailyMaxFee,
+        uint64 minimumFee
+    ) public pure returns (uint256 hcu, uint256 depth) {
+        uint64 perDay = dailyMaxFee > 0 ? blocksPerDay(card.blockMinutes) : 0;
+        uint256 periods;
+        uint256 longest; // Most segments in one period
+        uint256 n;
+        for (uint16 from = 0; from < card.maxBlocks; ) {
+            (uint16 to, ) = nextSegment(from, card, tiers, perDay);
+            // min, sub, mul, and the add summing the term
+            hcu += HCU_MIN_S + HCU_ADD + HCU_MUL_S + HCU_ADD;
+            if (++n > longest) longest = n;
+            if (periodEnds(to, card, perDay)) {
+                ++periods;
+                n = 0;
+            }
+            from = to;
+        }
+
+        uint256 blocksCost = HCU_MIN_S + HCU_ADD_S + HCU_DIV_S;
+        hcu += blocksCost;
+        // Blocks, one term (min, sub, mul), then the pairwise sums within and across periods
+        depth = blocksCost + HCU_MIN_S + HCU_ADD + HCU_MUL_S;
+        depth += (log2Ceil(longest) + log2Ceil(periods)) * HCU_ADD;
+        if (perDay > 0) {
+            hcu += periods * HCU_MIN_S;
+            depth += HCU_MIN_S;
+        }
+        if (minimumFee > 0) {
+            hcu += HCU_MIN_S;
+            depth += HCU_MIN_S;
+        }
+    }
+
+    /// @notice Most stays one batch quote can price at these rules (0: none). The first
+    ///         stay costs at most a quote; each further one adds its own cost to the
+    ///         total and one add to the depth of the summed total.
+    function maxBatchSize(
+        RateCard memory card,
+        Tier[] storage tiers,
+        uint64 dailyMaxFee,
+        uint64 minimumFee
+    ) public pure returns (uint256) {
+        (uint256 hcu, uint256 depth) = pricingCost(card, tiers, dailyMaxFee, minimumFee);
+        hcu += QUOTE_OVERHEAD_HCU;
+        depth += QUOTE_OVERHEAD_DEPTH;
+        if (hcu > HCU_LIMIT || depth > HCU_DEPTH_LIMIT) return 0;
+
+        uint256 byHcu = (HCU_LIMIT - hcu) / (hcu - QUOTE_OVERHEAD_HCU + BATCH_STAY_OVERHEAD_HCU);
+        uint256 byDepth = (HCU_DEPTH_LIMIT - depth) / HCU_ADD;
+        return 1 + (byHcu < byDepth ? byHcu : byDepth);
+    }
+
+    function log2Ceil(uint256 x) internal pure returns (uint256 levels) {
+        while ((uint256(1) << levels) < x) {
+            ++levels;
+        }
+    }
+
+    /* ─── Fee Rules Validation ──────────────────────────────────── */
+    /// @notice Revert unless `rules` are valid together with the default lot's
+    ///         maxBlocks and block size they take effect with, and a quote at them
+    ///         fits the HCU limits
+    function validateRules(FeeRules calldata rules, uint16 maxBlocks_, uint64 minutesPerBlock) public pure {
+        require(rules.tiers.length <= MAX_TIERS, "Too many tiers");
+        for (uint256 i = 0; i < rules.tiers.length; ++i) {
+            Tier calldata t = rules.tiers[i];
+            require(i == 0 ? t.fromBlock == 0 : t.fromBlock > rules.tiers[i - 1].fromBlock, "Bad tier order");
+            require(t.pricePerBlock > 0, "price=0");
+            requireFeeFits(t.pricePerBlock, maxBlocks_);
+        }
+        require(rules.dailyMaxFee == 0 || rules.dailyMaxFee >= rules.minimumFee, "cap<minimum");
+        requireFeeFits(rules.minimumFee, 1); // Raised to the minimum, then multiplied
+        require(
+            rules.dailyMaxFee == 0 || capPeriods(maxBlocks_, minutesPerBlock) <= MAX_CAP_PERIODS,
+            "Too many cap periods"
+        );
+        require(rules.graceMinutes <= DAY_MINUTES, "Grace too long");
+        for (uint256 c = 0; c < rules.classMultipliers.length; ++c) {
+            require(rules.classMultipliers[c] <= MAX_CLASS_MULTIPLIER, "Multiplier too high");
+        }
+
+        // Tiers and cap periods both add segments: bound their combination by cost
+        // (the price does not change it)
+        RateCard memory card = RateCard(1, maxBlocks_, minutesPerBlock, rules.tiers.length > 0);
+        (uint256 hcu, uint256 depth) = pricingCost(card, rules.tiers, rules.dailyMaxFee, rules.minimumFee);
+        require(
+            hcu + QUOTE_OVERHEAD_HCU <= HCU_LIMIT && depth + QUOTE_OVERHEAD_DEPTH <= HCU_DEPTH_LIMIT,
+            "Quote over HCU limit"
+        );
+    }
+
+    /// @dev FHE arithmetic wraps silently: the largest fee (maxBlocks at `price`,
+    ///      times the largest class multiplier and discount factor before their
+    ///      division) must fit a euint64
+    function requireFeeFits(uint64 price, uint16 maxBlocks_) internal pure {
+        require(
+            uint256(price) * maxBlocks_ * MAX_CLASS_MULTIPLIER * MAX_DISCOUNT_PERCENT <= type(uint64).max,
+            "Fee overflow"
+        );
+    }
+
+    /* ─── Fee Rules Storage ─────────────────────────────────────── */
+    /// @notice Replace `to` with validated rules (a scheduled change)
+    function storeRules(FeeRules storage to, FeeRules calldata from) public {
+        delete to.tiers;
+        for (uint256 i = 0; i < from.tiers.length; ++i) {
+            to.tiers.push(from.tiers[i]);
+        }
+        to.dailyMaxFee = from.dailyMaxFee;
+        to.minimumFee = from.minimumFee;
+        to.graceMinutes = from.graceMinutes;
+        to.graceDeducted = from.graceDeducted;
+        to.classMultipliers = from.classMultipliers;
+    }
+
+    /// @notice Replace `to` with a copy of `from` (a change coming into effect)
+    function copyRules(FeeRules storage to, FeeRules storage from) public {
+        delete to.tiers;
+        for (uint256 i = 0; i < from.tiers.length; ++i) {
+            to.tiers.push(from.tiers[i]);
+        }
+        to.dailyMaxFee = from.dailyMaxFee;
+        to.minimumFee = from.minimumFee;
+        to.graceMinutes = from.graceMinutes;
+        to.graceDeducted = from.graceDeducted;
+        to.classMultipliers = from.classMultipliers;
+    }
+}
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IConfidentialToken} from "../interfaces/IConfidentialToken.sol";
+
+/**
+ * @title MockConfidentialToken
+ * @notice Minimal ERC-7984-style token for local testing:
+ *  - Encrypted balances (euint64, 2 decimals = cents)
+ *  - Time-bounded operators instead of allowances
+ *  - Transfers never revert on insufficient balance; they move 0 instead
+ *  - Open faucet via mint (testing only)
+ */
+contract MockConfidentialToken is IConfidentialToken, ZamaEthereumConfig {
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 2;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators; // holder => operator => until
+
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event ConfidentialTransfer(address indexed from, address indexed to, bytes32 amount);
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    /* ─── Views ───────────────────────────────────────────────────── */
+    function confidentialBalanceOf(address account) external view returns (bytes32) {
+        return FHE.toBytes32(_balances[account]);
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    /* ─── Faucet (testing only) ───────────────────────────────────── */
+    function mint(address to, uint64 amount) external {
+        euint64 balance = FHE.isInitialized(_balances[to]) ? _balances[to] : FHE.asEuint64(0);
+        _balances[to] = FHE.add(balance, FHE.asEuint64(amount));
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        emit ConfidentialTransfer(address(0), to, FHE.toBytes32(_balances[to]));
+    }
+
+    /* ─── Operators ───────────────────────────────────────────────── */
+    function setOperator(address operator, uint48 until) external {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    /* ─── Transfers ───────────────────────────────────────────────── */
+    function confidentialTransfer(
+        address to,
+        externalEuint64 amountExt,
+        bytes calldata proof
+    ) external returns (euint64 transferred) {
+        transferred = _transfer(msg.sender, to, FHE.fromExternal(amountExt, proof));
+        FHE.allow(transferred, msg.sender);
+    }
+
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        euint64 amount
+    ) external returns (euint64 transferred) {
+        require(isOperator(from, msg.sender), "Not operator");
+        require(FHE.isSenderAllowed(amount), "Amount not allowed");
+
+        transferred = _transfer(from, to, amount);
+        FHE.allow(transferred, msg.sender);
+    }
+
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        require(to != address(0), "Zero recipient");
+
+        euint64 fromBalance = FHE.isInitialized(_balances[from]) ? _balances[from] : FHE.asEuint64(0);
+        euint64 toBalance = FHE.isInitialized(_balances[to]) ? _balances[to] : FHE.asEuint64(0);
+
+        // Move the full amount only if the sender can cover it
+        ebool enough = FHE.le(amount, fromBalance);
+        transferred = FHE.select(enough, amount, FHE.asEuint64(0));
+
+        _balances[from] = FHE.sub(fromBalance, transferred);
+        _balances[to] = FHE.add(toBalance, transferred);
+
+        FHE.allowThis(_balances[from]);
+        FHE.allow(_balances[from], from);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+
+        emit ConfidentialTransfer(from, to, FHE.toBytes32(transferred));
+    }
+}
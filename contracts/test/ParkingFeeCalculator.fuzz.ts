@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import fc from "fast-check";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+// The Calculator's plaintext estimate doubles as the reference for the encrypted loop
+import { computeBlocks } from "../../src/lib/pricing";
+
+// Encrypted runs deploy and quote once each; raise FUZZ_RUNS for a deeper sweep
+const CONTRACT_RUNS = Number(process.env.FUZZ_RUNS ?? 25);
+const REFERENCE_RUNS = 20_000;
+
+const MAX_UINT64 = (1n << 64n) - 1n;
+
+// Block sizes accepted by scheduleRateChange
+const BLOCK_SIZES = Array.from({ length: 1440 }, (_, i) => i + 1).filter((n) => 1440 % n === 0);
+
+interface Case {
+  minutes: bigint;
+  maxBlocks: number;
+  blockMinutes: bigint;
+}
+
+// Minutes biased towards block edges and the cap, plus the full uint64 range
+const minutesFor = (maxBlocks: number, blockMinutes: bigint) =>
+  fc.oneof(
+    fc.bigInt({ min: 0n, max: MAX_UINT64 }),
+    fc.bigInt({ min: 0n, max: 2n * BigInt(maxBlocks) * blockMinutes }),
+    fc
+      .tuple(fc.integer({ min: 0, max: maxBlocks + 1 }), fc.integer({ min: -1, max: 1 }))
+      .map(([n, offset]) => {
+        const minutes = BigInt(n) * blockMinutes + BigInt(offset);
+        return minutes < 0n ? 0n : minutes;
+      }),
+    fc.constantFrom(0n, 1n, MAX_UINT64 - 1n, MAX_UINT64)
+  );
+
+const caseArb: fc.Arbitrary<Case> = fc
+  .record({
+    maxBlocks: fc.integer({ min: 1, max: 65535 }),
+    blockMinutes: fc.constantFrom(...BLOCK_SIZES).map(BigInt),
+  })
+  .chain(({ maxBlocks, blockMinutes }) =>
+    minutesFor(maxBlocks, blockMinutes).map((minutes) => ({ minutes, maxBlocks, blockMinutes }))
+  );
+
+const describeCase = ({ minutes, maxBlocks, blockMinutes }: Case) =>
+  `minutes=${minutes} maxBlocks=${maxBlocks} blockMinutes=${blockMinutes}`;
+
+// Blocks the contract bills, as computed by the plaintext reference
+const referenceBlocks = ({ minutes, maxBlocks, blockMinutes }: Case) =>
+  computeBlocks(minutes, Number(blockMinutes), maxBlocks);
+
+// What the loop is meant to compute: min(ceil(minutes / blockMinutes), maxBlocks)
+function intendedBlocks({ minutes, maxBlocks, blockMinutes }: Case): bigint {
+  const ceil = (minutes + blockMinutes - 1n) / blockMinutes;
+  const cap = BigInt(maxBlocks);
+  return ceil > cap ? cap : ceil;
+}
+
+describe("ParkingFeeCalculator block loop (differential)", function () {
+  describe("plaintext reference", function () {
+    it("matches min(ceil(minutes / blockMinutes), maxBlocks)", function () {
+      fc.assert(
+        fc.property(caseArb, (c) => {
+          expect(referenceBlocks(c)).to.equal(intendedBlocks(c), describeCase(c));
+        }),
+        { numRuns: REFERENCE_RUNS }
+      );
+    });
+  });
+
+  describe("encrypted contract", function () {
+    let alice: HardhatEthersSigner;
+    let feeMathAddress: string;
+
+    before(async function () {
+      [, alice] = await ethers.getSigners();
+      const feeMath = await (await ethers.getContractFactory("FeeMath")).deploy();
+      await feeMath.waitForDeployment();
+      feeMathAddress = await feeMath.getAddress();
+    });
+
+    beforeEach(function () {
+      // Encrypted inputs and decryption need the local FHEVM mock
+      if (!fhevm.isMock) {
+        this.skip();
+      }
+    });
+
+    it("bills exactly the reference blocks", async function () {
+      this.timeout(CONTRACT_RUNS * 10_000);
+
+      await fc.assert(
+        fc.asyncProperty(caseArb, async (c) => {
+          // Price 1 cent per block, no tiers or limits: the fee is the block count
+          const factory = await ethers.getContractFactory("ParkingFeeCalculator", {
+            libraries: { FeeMath: feeMathAddress },
+          });
+          const calculator = await factory.deploy(1, c.maxBlocks);
+          await calculator.waitForDeployment();
+          if (c.blockMinutes !== (await calculator.blockMinutes())) {
+            const effectiveAt = (await time.latest()) + 2 * 24 * 60 * 60;
+            const rates = {
+              pricePerBlock: 1,
+              maxBlocks: c.maxBlocks,
+              blockMinutes: c.blockMinutes,
+              effectiveAt,
+            };
+            const rules = {
+              tiers: [],
+              dailyMaxFee: 0,
+              minimumFee: 0,
+              graceMinutes: 0,
+              graceDeducted: false,
+              classMultipliers: [...(await calculator.getClassMultipliers())],
+            };
+            await (await calculator.scheduleRateChange(rates, rules)).wait();
+            await time.increaseTo(effectiveAt);
+            await (await calculator.applyRateChange(0)).wait();
+          }
+
+          const calculatorAddress = await calculator.getAddress();
+          const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+          input.add64(c.minutes);
+          const encrypted = await input.encrypt();
+          await (
+            await calculator.connect(alice)["quote(bytes32,bytes)"](
+              encrypted.handles[0],
+              encrypted.inputProof
+            )
+          ).wait();
+
+          const blocks = await fhevm.userDecryptEuint(
+            FhevmType.euint64,
+            await calculator.connect(alice).getMyFeeHandle(),
+            calculatorAddress,
+            alice
+          );
+
+          expect(blocks).to.equal(referenceBlocks(c), `reference mismatch: ${describeCase(c)}`);
+          expect(blocks).to.equal(intendedBlocks(c), `ceil intent mismatch: ${describeCase(c)}`);
+        }),
+        { numRuns: CONTRACT_RUNS }
+      );
+    });
+  });
+});
@@ -0,0 +1,1288 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { ParkingFeeCalculator } from "../typechain-types";
+
+const PRICE_PER_BLOCK = 50n; // cents
+const MAX_BLOCKS = 96;
+const DEFAULT_LOT = 0;
+
+// Fields of a default-lot rate change; unset fields keep their current value
+interface RateChanges {
+  pricePerBlock?: bigint;
+  maxBlocks?: number;
+  blockMinutes?: number;
+  tiers?: Array<{ fromBlock: number; pricePerBlock: bigint | number }>;
+  dailyMaxFee?: bigint | number;
+  minimumFee?: bigint | number;
+  graceMinutes?: number;
+  graceDeducted?: boolean;
+  classMultipliers?: number[];
+}
+
+describe("ParkingFeeCalculator", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let calculator: ParkingFeeCalculator;
+  let calculatorAddress: string;
+  let feeMathAddress: string;
+
+  async function deploy(pricePerBlock: bigint, maxBlocks: number) {
+    if (!feeMathAddress) {
+      const feeMath = await (await ethers.getContractFactory("FeeMath")).deploy();
+      await feeMath.waitForDeployment();
+      feeMathAddress = await feeMath.getAddress();
+    }
+    const factory = await ethers.getContractFactory("ParkingFeeCalculator", {
+      libraries: { FeeMath: feeMathAddress },
+    });
+    const contract = await factory.deploy(pricePerBlock, maxBlocks);
+    await contract.waitForDeployment();
+    return contract;
+  }
+
+  // Encrypt minutes for `user`, quote on the default lot and return the fee handle
+  async function quote(minutes: number | bigint, user: HardhatEthersSigner = alice) {
+    const input = fhevm.createEncryptedInput(calculatorAddress, user.address);
+    input.add64(minutes);
+    const encrypted = await input.encrypt();
+
+    const tx = await calculator.connect(user)["quote(bytes32,bytes)"](
+      encrypted.handles[0],
+      encrypted.inputProof
+    );
+    await tx.wait();
+
+    return calculator.connect(user).getMyFeeHandle();
+  }
+
+  // scheduleRateChange arguments: the current card and fee rules with `changes`,
+  // effective two days from now
+  async function rateChange(changes: RateChanges) {
+    const tiers = [];
+    for (let i = 0n; i < (await calculator.getTierCount()); i++) {
+      const [fromBlock, pricePerBlock] = await calculator.getTier(i);
+      tiers.push({ fromBlock, pricePerBlock });
+    }
+    const rates = {
+      pricePerBlock: changes.pricePerBlock ?? (await calculator.pricePerBlock()),
+      maxBlocks: changes.maxBlocks ?? (await calculator.maxBlocks()),
+      blockMinutes: changes.blockMinutes ?? (await calculator.blockMinutes()),
+      effectiveAt: (await time.latest()) + 2 * 24 * 60 * 60,
+    };
+    const rules = {
+      tiers: changes.tiers ?? tiers,
+      dailyMaxFee: changes.dailyMaxFee ?? (await calculator.dailyMaxFee()),
+      minimumFee: changes.minimumFee ?? (await calculator.minimumFee()),
+      graceMinutes: changes.graceMinutes ?? (await calculator.graceMinutes()),
+      graceDeducted: changes.graceDeducted ?? (await calculator.graceDeducted()),
+      classMultipliers: changes.classMultipliers ?? [...(await calculator.getClassMultipliers())],
+    };
+    return [rates, rules] as const;
+  }
+
+  // Schedule a default-lot rate change and apply it once due
+  async function changeRates(changes: RateChanges) {
+    const [rates, rules] = await rateChange(changes);
+    await (await calculator.scheduleRateChange(rates, rules)).wait();
+    await time.increaseTo(rates.effectiveAt);
+    await (await calculator.applyRateChange(DEFAULT_LOT)).wait();
+  }
+
+  async function decryptFee(handle: string, user: HardhatEthersSigner = alice) {
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, calculatorAddress, user);
+  }
+
+  async function quoteAndDecrypt(minutes: number | bigint, user: HardhatEthersSigner = alice) {
+    return decryptFee(await quote(minutes, user), user);
+  }
+
+  // Quote on a specific lot and return the decrypted fee
+  async function quoteLot(lotId: number, minutes: number, user: HardhatEthersSigner = alice) {
+    const input = fhevm.createEncryptedInput(calculatorAddress, user.address);
+    input.add64(minutes);
+    const encrypted = await input.encrypt();
+    const tx = await calculator.connect(user)["quote(uint256,bytes32,bytes)"](
+      lotId,
+      encrypted.handles[0],
+      encrypted.inputProof
+    );
+    await tx.wait();
+    return decryptFee(await calculator.connect(user).getMyFeeHandle(), user);
+  }
+
+  // Deploy the mock payment token, fund `user` and approve the calculator as operator
+  async function setupToken(balance: bigint, user: HardhatEthersSigner = alice) {
+    const factory = await ethers.getContractFactory("MockConfidentialToken");
+    const token = await factory.deploy("Parking USD", "pUSD");
+    await token.waitForDeployment();
+    await calculator.setPaymentToken(await token.getAddress());
+
+    await token.mint(user.address, balance);
+    const until = (await time.latest()) + 365 * 24 * 3600;
+    await token.connect(user).setOperator(calculatorAddress, until);
+    return token;
+  }
+
+  async function tokenBalance(
+    token: Awaited<ReturnType<typeof setupToken>>,
+    user: HardhatEthersSigner
+  ) {
+    const handle = await token.confidentialBalanceOf(user.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, await token.getAddress(), user);
+  }
+
+  // Worst case around the pricing of alice's next quote: merchant validation, deducted
+  // grace period, minimum fee, an active pass and a prepaid balance deducted through
+  // the token, on top of `changes`
+  async function setupWorstCase(changes: RateChanges) {
+    await changeRates({
+      ...changes,
+      minimumFee: PRICE_PER_BLOCK,
+      graceMinutes: 10,
+      graceDeducted: true,
+      classMultipliers: [10000, 10000, 10000, 15000],
+    });
+
+    await setupToken(1_000_000n);
+    const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+    input.add64(100_000n);
+    const deposit = await input.encrypt();
+    await (await calculator.connect(alice).deposit(deposit.handles[0], deposit.inputProof)).wait();
+    await calculator.setPassPrice(DEFAULT_LOT, 3000n);
+    await (await calculator.connect(alice).buyPass(DEFAULT_LOT, 3000n)).wait();
+
+    await calculator.grantRole(await calculator.MERCHANT_ROLE(), bob.address);
+    const validation = fhevm.createEncryptedInput(calculatorAddress, bob.address);
+    validation.add64(30n);
+    validation.add64(10n);
+    const encrypted = await validation.encrypt();
+    await (
+      await calculator
+        .connect(bob)
+        .validate(alice.address, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+    ).wait();
+  }
+
+  before(async function () {
+    [owner, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Encrypted inputs and decryption need the local FHEVM mock
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    calculator = await deploy(PRICE_PER_BLOCK, MAX_BLOCKS);
+    calculatorAddress = await calculator.getAddress();
+  });
+
+  describe("ceil-to-block rounding", function () {
+    const cases: Array<[number, bigint]> = [
+      [0, 0n],
+      [1, 1n],
+      [29, 1n],
+      [30, 1n],
+      [31, 2n],
+      [59, 2n],
+      [60, 2n],
+      [61, 3n],
+    ];
+
+    for (const [minutes, blocks] of cases) {
+      it(`bills ${minutes} minute(s) as ${blocks} block(s)`, async function () {
+        expect(await quoteAndDecrypt(minutes)).to.equal(blocks * PRICE_PER_BLOCK);
+      });
+    }
+
+    it("follows the configured block size", async function () {
+      await changeRates({ blockMinutes: 15 });
+
+      expect(await quoteAndDecrypt(15)).to.equal(PRICE_PER_BLOCK);
+      expect(await quoteAndDecrypt(16)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+  });
+
+  describe("maxBlocks cap", function () {
+    it("caps the fee at maxBlocks", async function () {
+      const cap = BigInt(MAX_BLOCKS) * PRICE_PER_BLOCK;
+
+      expect(await quoteAndDecrypt(MAX_BLOCKS * 30)).to.equal(cap);
+      expect(await quoteAndDecrypt(MAX_BLOCKS * 30 + 1)).to.equal(cap);
+      expect(await quoteAndDecrypt(7 * 24 * 60)).to.equal(cap);
+    });
+
+    it("caps a small maxBlocks", async function () {
+      calculator = await deploy(PRICE_PER_BLOCK, 4);
+      calculatorAddress = await calculator.getAddress();
+
+      expect(await quoteAndDecrypt(91)).to.equal(4n * PRICE_PER_BLOCK);
+      expect(await quoteAndDecrypt(10 * 60)).to.equal(4n * PRICE_PER_BLOCK);
+    });
+
+    it("applies a scheduled maxBlocks once effective", async function () {
+      const [rates, rules] = await rateChange({ maxBlocks: 2 });
+      await calculator.scheduleRateChange(rates, rules);
+
+      expect(await quoteAndDecrypt(120)).to.equal(4n * PRICE_PER_BLOCK);
+
+      await time.increaseTo(rates.effectiveAt);
+      expect(await quoteAndDecrypt(120)).to.equal(2n * PRICE_PER_BLOCK);
+      expect(await calculator.maxBlocks()).to.equal(2);
+    });
+
+    it("rejects rates whose largest fee overflows a euint64", async function () {
+      // price * maxBlocks * 5x class multiplier * 100% discount factor must stay below 2^64
+      const maxPrice = (2n ** 64n - 1n) / (BigInt(MAX_BLOCKS) * 50000n * 100n);
+
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ pricePerBlock: maxPrice + 1n })))
+      ).to.be.revertedWith("Fee overflow");
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ pricePerBlock: maxPrice })))
+      ).to.emit(calculator, "RateChangeScheduled");
+      // Tiers are bounded by the maxBlocks they take effect with
+      await expect(
+        calculator.scheduleRateChange(
+          ...(await rateChange({ tiers: [{ fromBlock: 0, pricePerBlock: maxPrice + 1n }] }))
+        )
+      ).to.be.revertedWith("Fee overflow");
+      await expect(deploy(maxPrice + 1n, MAX_BLOCKS)).to.be.revertedWith("Fee overflow");
+    });
+  });
+
+  describe("lot rate changes", function () {
+    const LOT = 1;
+
+    beforeEach(async function () {
+      // $1 per 60-minute block, operated by bob
+      await calculator.addLot("Garage", bob.address, 100, 48, 60);
+    });
+
+    it("applies a scheduled lot rate card once effective", async function () {
+      const effectiveAt = (await time.latest()) + 2 * 24 * 60 * 60;
+      await expect(calculator.connect(bob).scheduleLotRateChange(LOT, 80, 48, 30, effectiveAt))
+        .to.emit(calculator, "LotRateChangeScheduled")
+        .withArgs(LOT, 80, 48, 30, effectiveAt);
+      expect(await calculator.pendingLotRateChange(LOT)).to.deep.equal([
+        80n,
+        48n,
+        30n,
+        BigInt(effectiveAt),
+      ]);
+
+      // Quotes keep the current card until the change is due
+      expect(await quoteLot(LOT, 90)).to.equal(200n);
+
+      await time.increaseTo(effectiveAt);
+      expect(await quoteLot(LOT, 90)).to.equal(3n * 80n);
+      const lot = await calculator.getLot(LOT);
+      expect(lot.price).to.equal(80n);
+      expect(lot.lotBlockMinutes).to.equal(30n);
+      expect((await calculator.pendingLotRateChange(LOT)).effectiveAt).to.equal(0n);
+    });
+
+    it("requires notice and the lot operator", async function () {
+      const now = await time.latest();
+      await expect(
+        calculator.connect(bob).scheduleLotRateChange(LOT, 80, 48, 30, now + 60)
+      ).to.be.revertedWith("Too soon");
+      await expect(
+        calculator.connect(alice).scheduleLotRateChange(LOT, 80, 48, 30, now + 2 * 24 * 60 * 60)
+      ).to.be.revertedWith("Not lot operator");
+      await expect(
+        calculator.scheduleLotRateChange(DEFAULT_LOT, 80, 48, 30, now + 2 * 24 * 60 * 60)
+      ).to.be.revertedWith("Bad lot");
+
+      await calculator.connect(bob).scheduleLotRateChange(LOT, 80, 48, 30, now + 2 * 24 * 60 * 60);
+      await expect(calculator.connect(alice).cancelLotRateChange(LOT)).to.be.revertedWith(
+        "Not lot operator"
+      );
+      await expect(calculator.connect(bob).cancelLotRateChange(LOT))
+        .to.emit(calculator, "LotRateChangeCancelled")
+        .withArgs(LOT);
+      await expect(calculator.connect(bob).cancelLotRateChange(LOT)).to.be.revertedWith(
+        "No pending change"
+      );
+    });
+
+    it("applies a due change on request", async function () {
+      const effectiveAt = (await time.latest()) + 2 * 24 * 60 * 60;
+      await calculator.connect(bob).scheduleLotRateChange(LOT, 80, 48, 30, effectiveAt);
+      await expect(calculator.applyRateChange(LOT)).to.be.revertedWith("Nothing due");
+
+      await time.increaseTo(effectiveAt);
+      await expect(calculator.applyRateChange(LOT))
+        .to.emit(calculator, "LotRatesUpdated")
+        .withArgs(LOT, 80, 48, 30);
+    });
+
+    it("applies a due default-lot change before quoting another lot", async function () {
+      const [rates, rules] = await rateChange({ minimumFee: 500 });
+      await calculator.scheduleRateChange(rates, rules);
+      await time.increaseTo(rates.effectiveAt);
+
+      // The minimum fee applies to every lot
+      expect(await quoteLot(LOT, 90)).to.equal(500n);
+      expect(await calculator.minimumFee()).to.equal(500n);
+    });
+  });
+
+  describe("tiers and fee limits", function () {
+    it("prices each block at its tier", async function () {
+      await changeRates({
+        tiers: [
+          { fromBlock: 0, pricePerBlock: 100 },
+          { fromBlock: 2, pricePerBlock: 50 },
+        ],
+      });
+      expect(await calculator.getTierCount()).to.equal(2);
+
+      expect(await quoteAndDecrypt(30)).to.equal(100n);
+      expect(await quoteAndDecrypt(120)).to.equal(2n * 100n + 2n * 50n);
+
+      // An empty table goes back to flat pricing
+      await changeRates({ tiers: [] });
+      expect(await quoteAndDecrypt(120)).to.equal(4n * PRICE_PER_BLOCK);
+    });
+
+    it("caps each 24h period at the daily maximum", async function () {
+      await changeRates({ dailyMaxFee: 1000 });
+
+      expect(await quoteAndDecrypt(10 * 60)).to.equal(1000n);
+      // Day one: 48 blocks capped at 1000, then 12 blocks of the second day
+      expect(await quoteAndDecrypt(30 * 60)).to.equal(1000n + 12n * PRICE_PER_BLOCK);
+    });
+
+    it("raises short stays to the minimum fee", async function () {
+      await changeRates({ minimumFee: 80 });
+
+      expect(await quoteAndDecrypt(1)).to.equal(80n);
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+
+    it("validates tiers and limits", async function () {
+      const tiers = (fromBlocks: number[], price = 100) =>
+        rateChange({ tiers: fromBlocks.map((fromBlock) => ({ fromBlock, pricePerBlock: price })) });
+
+      await expect(calculator.scheduleRateChange(...(await tiers([1])))).to.be.revertedWith(
+        "Bad tier order"
+      );
+      await expect(calculator.scheduleRateChange(...(await tiers([0, 0])))).to.be.revertedWith(
+        "Bad tier order"
+      );
+      await expect(calculator.scheduleRateChange(...(await tiers([0], 0)))).to.be.revertedWith(
+        "price=0"
+      );
+      await expect(
+        calculator.scheduleRateChange(...(await tiers([0, 1, 2, 3, 4, 5, 6, 7, 8])))
+      ).to.be.revertedWith("Too many tiers");
+
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ minimumFee: 80, dailyMaxFee: 50 })))
+      ).to.be.revertedWith("cap<minimum");
+      // Raised to the minimum, the fee still goes through the class multiplier
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ minimumFee: 2n ** 48n })))
+      ).to.be.revertedWith("Fee overflow");
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ blockMinutes: 7 })))
+      ).to.be.revertedWith("Bad block size");
+      // 200 blocks of 60 minutes span 9 days, more than MAX_CAP_PERIODS
+      await expect(
+        calculator.scheduleRateChange(
+          ...(await rateChange({ maxBlocks: 200, blockMinutes: 60, dailyMaxFee: 1000 }))
+        )
+      ).to.be.revertedWith("Too many cap periods");
+    });
+
+    it("queues every fee rule behind the timelock", async function () {
+      const [rates, rules] = await rateChange({
+        blockMinutes: 15,
+        tiers: [{ fromBlock: 0, pricePerBlock: 70 }],
+        dailyMaxFee: 2000,
+        minimumFee: 60,
+        graceMinutes: 10,
+        graceDeducted: true,
+        classMultipliers: [10000, 5000, 8000, 15000],
+      });
+      await expect(
+        calculator.scheduleRateChange({ ...rates, effectiveAt: (await time.latest()) + 60 }, rules)
+      ).to.be.revertedWith("Too soon");
+      await expect(calculator.scheduleRateChange(rates, rules))
+        .to.emit(calculator, "RateChangeScheduled")
+        .withArgs(PRICE_PER_BLOCK, MAX_BLOCKS, 15, rates.effectiveAt);
+
+      const pending = await calculator.pendingRateChange();
+      expect(pending.rates.blockMinutes).to.equal(15n);
+      expect(pending.newDailyMaxFee).to.equal(2000n);
+      expect(pending.newClassMultipliers).to.deep.equal([10000n, 5000n, 8000n, 15000n]);
+      expect(await calculator.getPendingTier(0)).to.deep.equal([0n, 70n]);
+
+      // Nothing changes before effectiveAt
+      expect(await quoteAndDecrypt(16)).to.equal(PRICE_PER_BLOCK);
+      expect(await calculator.minimumFee()).to.equal(0n);
+
+      await time.increaseTo(rates.effectiveAt);
+      await expect(calculator.applyRateChange(DEFAULT_LOT))
+        .to.emit(calculator, "RateChangeApplied")
+        .withArgs(PRICE_PER_BLOCK, MAX_BLOCKS, 15);
+      expect(await calculator.blockMinutes()).to.equal(15n);
+      expect(await calculator.graceDeducted()).to.equal(true);
+      expect(await calculator.getClassMultipliers()).to.deep.equal([10000n, 5000n, 8000n, 15000n]);
+      expect(await calculator.getPendingTierCount()).to.equal(0);
+      // 16 minutes - 10 grace = 1 block of 15 minutes at the tier price
+      expect(await quoteAndDecrypt(16)).to.equal(70n);
+    });
+
+    it("cancels a pending change with its fee rules", async function () {
+      await calculator.scheduleRateChange(...(await rateChange({ minimumFee: 80 })));
+      await expect(calculator.connect(bob).cancelRateChange()).to.be.revertedWith("Not owner");
+      await expect(calculator.cancelRateChange()).to.emit(calculator, "RateChangeCancelled");
+
+      expect((await calculator.pendingRateChange()).newMinimumFee).to.equal(0n);
+      await expect(calculator.applyRateChange(DEFAULT_LOT)).to.be.revertedWith("Nothing due");
+    });
+  });
+
+  describe("lots", function () {
+    it("adds lots with their own rate card and operator", async function () {
+      await expect(
+        calculator.connect(bob).addLot("Garage", bob.address, 100, 48, 60)
+      ).to.be.revertedWith("Missing role");
+      await expect(calculator.addLot("Garage", bob.address, 100, 48, 60))
+        .to.emit(calculator, "LotAdded")
+        .withArgs(1, "Garage", bob.address);
+
+      expect(await calculator.lotCount()).to.equal(2);
+      const lot = await calculator.getLot(1);
+      expect([
+        lot.name,
+        lot.operator,
+        lot.price,
+        lot.lotMaxBlocks,
+        lot.lotBlockMinutes,
+        lot.active,
+      ]).to.deep.equal(["Garage", bob.address, 100n, 48n, 60n, true]);
+
+      // 90 minutes at 60-minute blocks
+      expect(await quoteLot(1, 90)).to.equal(200n);
+    });
+
+    it("lets the lot operator close and reopen the lot", async function () {
+      await calculator.addLot("Garage", bob.address, 100, 48, 60);
+
+      await expect(calculator.connect(alice).setLotActive(1, false)).to.be.revertedWith(
+        "Not lot operator"
+      );
+      await expect(calculator.connect(bob).setLotActive(1, false))
+        .to.emit(calculator, "LotActiveChanged")
+        .withArgs(1, false);
+      await expect(quoteLot(1, 90)).to.be.revertedWith("Lot inactive");
+      await expect(calculator.connect(alice).startSession(1)).to.be.revertedWith("Lot inactive");
+
+      await calculator.connect(bob).setLotActive(1, true);
+      expect(await quoteLot(1, 90)).to.equal(200n);
+    });
+
+    it("validates lots", async function () {
+      await expect(calculator.addLot("", bob.address, 100, 48, 60)).to.be.revertedWith(
+        "Empty name"
+      );
+      await expect(calculator.addLot("Garage", ethers.ZeroAddress, 100, 48, 60)).to.be.revertedWith(
+        "Zero operator"
+      );
+      await expect(calculator.addLot("Garage", bob.address, 100, 48, 7)).to.be.revertedWith(
+        "Bad block size"
+      );
+      await expect(quoteLot(5, 90)).to.be.revertedWith("Bad lot");
+      await expect(calculator.setLotActive(DEFAULT_LOT, false)).to.be.revertedWith("Bad lot");
+    });
+  });
+
+  describe("emergency pause", function () {
+    it("stops quotes, sessions and payments until unpaused", async function () {
+      await expect(calculator.connect(bob).pause("Incident")).to.be.revertedWith("Missing role");
+      await expect(calculator.pause("Incident"))
+        .to.emit(calculator, "Paused")
+        .withArgs(owner.address, "Incident");
+      expect(await calculator.paused()).to.equal(true);
+      expect(await calculator.pauseReason()).to.equal("Incident");
+
+      await expect(quote(60)).to.be.revertedWith("Paused");
+      await expect(calculator.connect(alice).startSession(DEFAULT_LOT)).to.be.revertedWith(
+        "Paused"
+      );
+      await expect(calculator.connect(alice).pay()).to.be.revertedWith("Paused");
+      await expect(calculator.pause("Again")).to.be.revertedWith("Paused");
+
+      // Pausers other than the owner can lift it
+      await calculator.grantRole(await calculator.PAUSER_ROLE(), bob.address);
+      await expect(calculator.connect(bob).unpause())
+        .to.emit(calculator, "Unpaused")
+        .withArgs(bob.address);
+      await expect(calculator.unpause()).to.be.revertedWith("Not paused");
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+  });
+
+  describe("stale-rate protection", function () {
+    async function quoteAtVersion(minutes: number, version: bigint) {
+      const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+      input.add64(minutes);
+      const encrypted = await input.encrypt();
+      return calculator.connect(alice)["quote(uint256,bytes32,bytes,uint256)"](
+        DEFAULT_LOT,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        version
+      );
+    }
+
+    it("reverts when the rates changed after they were read", async function () {
+      const version = await calculator.rateVersion();
+      await (await quoteAtVersion(60, version)).wait();
+
+      await calculator.scheduleRateChange(...(await rateChange({ minimumFee: 10 })));
+      await time.increase(2 * 24 * 60 * 60);
+      await expect(calculator.applyRateChange(DEFAULT_LOT))
+        .to.emit(calculator, "RatesChanged")
+        .withArgs(version + 1n);
+      await expect(quoteAtVersion(60, version)).to.be.revertedWith("Rates changed");
+      await (await quoteAtVersion(60, version + 1n)).wait();
+    });
+
+    it("counts a due scheduled change as a change", async function () {
+      const [rates, rules] = await rateChange({ pricePerBlock: PRICE_PER_BLOCK * 2n });
+      await calculator.scheduleRateChange(rates, rules);
+      const version = await calculator.rateVersion();
+
+      await time.increaseTo(rates.effectiveAt);
+      await expect(quoteAtVersion(60, version)).to.be.revertedWith("Rates changed");
+      await (await quoteAtVersion(60, version + 1n)).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyFeeHandle())).to.equal(
+        4n * PRICE_PER_BLOCK
+      );
+    });
+  });
+
+  describe("sessions", function () {
+    it("bills the time between check-in and check-out", async function () {
+      await expect(calculator.connect(alice).startSession(DEFAULT_LOT)).to.emit(
+        calculator,
+        "SessionStarted"
+      );
+      const entry = await time.latest();
+      expect(await calculator.hasActiveSession(alice.address, DEFAULT_LOT)).to.equal(true);
+      expect(
+        await decryptFee(await calculator.connect(alice).getMySessionEntryHandle(DEFAULT_LOT))
+      ).to.equal(BigInt(entry));
+      await expect(calculator.connect(alice).startSession(DEFAULT_LOT)).to.be.revertedWith(
+        "Session active"
+      );
+
+      // 61 minutes, billed as 3 blocks
+      await time.setNextBlockTimestamp(entry + 61 * 60);
+      await expect(calculator.connect(alice).endSession(DEFAULT_LOT)).to.emit(
+        calculator,
+        "SessionEnded"
+      );
+      expect(await calculator.hasActiveSession(alice.address, DEFAULT_LOT)).to.equal(false);
+      expect(await decryptFee(await calculator.connect(alice).getMyFeeHandle())).to.equal(
+        3n * PRICE_PER_BLOCK
+      );
+    });
+
+    it("rounds partial minutes up", async function () {
+      await (await calculator.connect(alice).startSession(DEFAULT_LOT)).wait();
+      const entry = await time.latest();
+
+      // 30 minutes and 1 second -> 31 minutes -> 2 blocks
+      await time.setNextBlockTimestamp(entry + 30 * 60 + 1);
+      await (await calculator.connect(alice).endSession(DEFAULT_LOT)).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyFeeHandle())).to.equal(
+        2n * PRICE_PER_BLOCK
+      );
+    });
+
+    it("requires an open session to check out", async function () {
+      await expect(calculator.connect(alice).endSession(DEFAULT_LOT)).to.be.revertedWith(
+        "No session"
+      );
+    });
+  });
+
+  describe("payment", function () {
+    it("transfers the last fee to the fee recipient", async function () {
+      const token = await setupToken(1000n);
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+
+      await expect(calculator.connect(alice).pay()).to.emit(calculator, "Paid");
+      expect(await decryptFee(await calculator.connect(alice).getMyPaymentHandle())).to.equal(
+        2n * PRICE_PER_BLOCK
+      );
+      expect(await calculator.isFeeSettled(alice.address)).to.equal(true);
+      expect(await tokenBalance(token, alice)).to.equal(1000n - 2n * PRICE_PER_BLOCK);
+      expect(await tokenBalance(token, owner)).to.equal(2n * PRICE_PER_BLOCK);
+
+      await expect(calculator.connect(alice).pay()).to.be.revertedWith("Already paid");
+    });
+
+    it("pays a lot's fee to its operator", async function () {
+      const token = await setupToken(1000n);
+      await calculator.addLot("Garage", bob.address, 100, 48, 60);
+      expect(await quoteLot(1, 90)).to.equal(200n);
+
+      await (await calculator.connect(alice).pay()).wait();
+      expect(await tokenBalance(token, bob)).to.equal(200n);
+    });
+
+    it("moves nothing when the token balance is short", async function () {
+      const token = await setupToken(PRICE_PER_BLOCK);
+      await quote(60);
+
+      await (await calculator.connect(alice).pay()).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyPaymentHandle())).to.equal(0n);
+      expect(await tokenBalance(token, alice)).to.equal(PRICE_PER_BLOCK);
+    });
+
+    it("validates payments", async function () {
+      await quote(60);
+      await expect(calculator.connect(alice).pay()).to.be.revertedWith("No payment token");
+      await setupToken(1000n);
+      await expect(calculator.connect(bob).pay()).to.be.revertedWith("No fee");
+    });
+  });
+
+  describe("revenue", function () {
+    it("aggregates fees in total, per lot and per day", async function () {
+      await calculator.addLot("Garage", bob.address, 100, 48, 60);
+      const period = await calculator.currentRevenuePeriod();
+
+      await quote(60); // 100
+      await quote(120); // 200
+      await quoteLot(1, 90); // 200
+
+      const [totalHandle, totalQuotes] = await calculator.getRevenue();
+      expect(totalQuotes).to.equal(3);
+      expect(await decryptFee(totalHandle, owner)).to.equal(500n);
+
+      const [defaultHandle, defaultQuotes] = await calculator.getLotRevenue(DEFAULT_LOT);
+      expect(defaultQuotes).to.equal(2);
+      expect(await decryptFee(defaultHandle, owner)).to.equal(300n);
+
+      // Lot revenue is readable by the lot operator
+      const [lotHandle, lotQuotes] = await calculator.getLotRevenue(1);
+      expect(lotQuotes).to.equal(1);
+      expect(await decryptFee(lotHandle, bob)).to.equal(200n);
+
+      // A new day starts a new bucket
+      await time.increase(24 * 60 * 60);
+      await quote(60);
+      expect((await calculator.getLotPeriodRevenue(DEFAULT_LOT, period)).quotes).to.equal(2);
+      const [nextHandle, nextQuotes] = await calculator.getLotPeriodRevenue(
+        DEFAULT_LOT,
+        period + 1n
+      );
+      expect(nextQuotes).to.equal(1);
+      expect(await decryptFee(nextHandle, owner)).to.equal(100n);
+    });
+  });
+
+  describe("access control", function () {
+    it("restricts rate changes to the owner and rate managers", async function () {
+      const [rates, rules] = await rateChange({ minimumFee: 100 });
+
+      await expect(calculator.connect(bob).scheduleRateChange(rates, rules)).to.be.revertedWith(
+        "Missing role"
+      );
+
+      await calculator.grantRole(await calculator.RATE_MANAGER_ROLE(), bob.address);
+      await expect(calculator.connect(bob).scheduleRateChange(rates, rules)).to.emit(
+        calculator,
+        "RateChangeScheduled"
+      );
+    });
+
+    it("restricts owner functions to the owner", async function () {
+      await expect(calculator.connect(bob).transferOwnership(bob.address)).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(calculator.connect(bob).setPaymentToken(bob.address)).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(calculator.connect(bob).setFeeRecipient(bob.address)).to.be.revertedWith(
+        "Not owner"
+      );
+      await expect(
+        calculator.connect(bob).grantRole(await calculator.PAUSER_ROLE(), bob.address)
+      ).to.be.revertedWith("Not owner");
+    });
+
+    it("transfers ownership in two steps", async function () {
+      await expect(calculator.transferOwnership(alice.address))
+        .to.emit(calculator, "OwnershipTransferStarted")
+        .withArgs(owner.address, alice.address);
+      expect(await calculator.owner()).to.equal(owner.address);
+
+      await expect(calculator.connect(bob).acceptOwnership()).to.be.revertedWith(
+        "Not pending owner"
+      );
+      await calculator.connect(alice).acceptOwnership();
+      expect(await calculator.owner()).to.equal(alice.address);
+    });
+  });
+
+  describe("Quoted event", function () {
+    it("emits the caller, lot and fee handle", async function () {
+      const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+      input.add64(45);
+      const encrypted = await input.encrypt();
+
+      const tx = calculator.connect(alice)["quote(bytes32,bytes)"](
+        encrypted.handles[0],
+        encrypted.inputProof
+      );
+      await expect(tx)
+        .to.emit(calculator, "Quoted")
+        .withArgs(alice.address, DEFAULT_LOT, anyValue);
+
+      const receipt = await (await tx).wait();
+      const event = receipt!.logs
+        .map((log) => calculator.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "Quoted");
+      expect(event!.args.feeHandle).to.equal(await calculator.connect(alice).getMyFeeHandle());
+    });
+
+    it("rejects an empty proof", async function () {
+      await expect(
+        calculator.connect(alice)["quote(bytes32,bytes)"](ethers.ZeroHash, "0x")
+      ).to.be.revertedWith("Empty proof");
+    });
+  });
+
+  describe("batch quote", function () {
+    async function encryptStays(stays: number[], user: HardhatEthersSigner) {
+      const input = fhevm.createEncryptedInput(calculatorAddress, user.address);
+      for (const minutes of stays) {
+        input.add64(minutes);
+      }
+      return input.encrypt();
+    }
+
+    async function quoteBatch(stays: number[], user: HardhatEthersSigner = alice) {
+      const encrypted = await encryptStays(stays, user);
+      return calculator.connect(user)["quoteBatch(bytes32[],bytes)"](
+        encrypted.handles,
+        encrypted.inputProof
+      );
+    }
+
+    async function quoteBatchAtVersion(stays: number[], version: bigint) {
+      const encrypted = await encryptStays(stays, alice);
+      return calculator.connect(alice)["quoteBatch(uint256,bytes32[],bytes,uint256)"](
+        DEFAULT_LOT,
+        encrypted.handles,
+        encrypted.inputProof,
+        version
+      );
+    }
+
+    it("quotes every stay and the encrypted total", async function () {
+      const stays = [45, 0, MAX_BLOCKS * 30 + 1];
+      const receipt = await (await quoteBatch(stays)).wait();
+
+      const events = receipt!.logs.map((log) => calculator.interface.parseLog(log));
+      const feeHandles = events
+        .filter((parsed) => parsed?.name === "Quoted")
+        .map((parsed) => parsed!.args.feeHandle);
+      const batch = events.find((parsed) => parsed?.name === "BatchQuoted");
+
+      expect(feeHandles).to.have.length(stays.length);
+      expect(batch!.args.count).to.equal(stays.length);
+
+      const fees = [];
+      for (const handle of feeHandles) {
+        fees.push(await decryptFee(handle));
+      }
+      expect(fees).to.deep.equal([
+        2n * PRICE_PER_BLOCK,
+        0n,
+        BigInt(MAX_BLOCKS) * PRICE_PER_BLOCK,
+      ]);
+
+      // The total is the payable last fee
+      const totalHandle = await calculator.connect(alice).getMyFeeHandle();
+      expect(totalHandle).to.equal(batch!.args.totalHandle);
+      expect(await decryptFee(totalHandle)).to.equal(fees.reduce((sum, fee) => sum + fee, 0n));
+
+      expect(await calculator.connect(alice).getMyQuoteCount()).to.equal(stays.length);
+    });
+
+    it("rejects an empty batch", async function () {
+      await expect(
+        calculator.connect(alice)["quoteBatch(bytes32[],bytes)"]([], "0x01")
+      ).to.be.revertedWith("Bad batch size");
+    });
+
+    // Quote the largest batch of longest stays the card allows in the worst case
+    // (see setupWorstCase) and check one more stay is rejected
+    async function fullBatchWorstCase(changes: RateChanges) {
+      await setupWorstCase(changes);
+      const maxBatch = Number(await calculator.maxBatchSize(DEFAULT_LOT));
+      const longest =
+        Number(await calculator.maxBlocks()) * Number(await calculator.blockMinutes());
+      const receipt = await (await quoteBatch(Array(maxBatch).fill(longest))).wait();
+
+      await expect(quoteBatch(Array(maxBatch + 1).fill(60))).to.be.revertedWith("Bad batch size");
+      return { maxBatch, hcu: fhevm.computeTransactionHCU(receipt!) };
+    }
+
+    it("fits a full batch at the flat card into the per-transaction HCU limit", async function () {
+      const { maxBatch, hcu } = await fullBatchWorstCase({});
+      expect(maxBatch).to.be.above(1);
+      // HCULimit reverts at 20M HCU per transaction (5M sequential depth)
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("fits a full tiered batch into the per-transaction HCU limit", async function () {
+      const { hcu } = await fullBatchWorstCase({
+        tiers: [
+          { fromBlock: 0, pricePerBlock: 100 },
+          { fromBlock: 4, pricePerBlock: 80 },
+          { fromBlock: 8, pricePerBlock: 60 },
+        ],
+      });
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("fits a full batch over seven capped days into the per-transaction HCU limit", async function () {
+      const { maxBatch, hcu } = await fullBatchWorstCase({ maxBlocks: 336, dailyMaxFee: 2500 });
+      expect(maxBatch).to.be.above(0);
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("reverts a versioned batch when the rates changed", async function () {
+      const version = await calculator.rateVersion();
+      await changeRates({ minimumFee: 10 });
+
+      await expect(quoteBatchAtVersion([60, 60], version)).to.be.revertedWith("Rates changed");
+      await (await quoteBatchAtVersion([60, 60], version + 1n)).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyFeeHandle())).to.equal(
+        4n * PRICE_PER_BLOCK
+      );
+    });
+
+    it("applies a pending validation to the first stay only", async function () {
+      await calculator.grantRole(await calculator.MERCHANT_ROLE(), bob.address);
+      const input = fhevm.createEncryptedInput(calculatorAddress, bob.address);
+      input.add64(60n);
+      input.add64(0n);
+      const encrypted = await input.encrypt();
+      await (
+        await calculator
+          .connect(bob)
+          .validate(alice.address, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+      ).wait();
+
+      await (await quoteBatch([90, 90])).wait();
+      const totalHandle = await calculator.connect(alice).getMyFeeHandle();
+      // 90 - 60 free minutes = 1 block, then 3 blocks without the validation
+      expect(await decryptFee(totalHandle)).to.equal(4n * PRICE_PER_BLOCK);
+    });
+  });
+
+  describe("vehicle classes", function () {
+    const MOTORCYCLE = 1;
+    const OVERSIZED = 3;
+
+    async function quoteClass(minutes: number, vehicleClass: number) {
+      const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+      input.add64(minutes);
+      input.add8(vehicleClass);
+      const encrypted = await input.encrypt();
+
+      const tx = await calculator.connect(alice)["quote(uint256,bytes32,bytes32,bytes,uint256)"](
+        DEFAULT_LOT,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+        await calculator.rateVersion()
+      );
+      await tx.wait();
+
+      return decryptFee(await calculator.connect(alice).getMyFeeHandle());
+    }
+
+    it("applies the multiplier of the encrypted class", async function () {
+      await changeRates({ classMultipliers: [10000, 5000, 10000, 15000] });
+
+      expect(await quoteClass(45, 0)).to.equal(2n * PRICE_PER_BLOCK);
+      expect(await quoteClass(45, MOTORCYCLE)).to.equal(PRICE_PER_BLOCK);
+      expect(await quoteClass(45, OVERSIZED)).to.equal(3n * PRICE_PER_BLOCK);
+    });
+
+    it("bills unknown classes as a car", async function () {
+      await changeRates({ classMultipliers: [12000, 10000, 10000, 10000] });
+      expect(await quoteClass(45, 9)).to.equal((2n * PRICE_PER_BLOCK * 12n) / 10n);
+    });
+
+    // Oversized class quote of the longest stay in the worst case (see setupWorstCase)
+    async function quoteClassWorstCase(changes: RateChanges) {
+      await setupWorstCase(changes);
+
+      const stay = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+      stay.add64(MAX_BLOCKS * 30);
+      stay.add8(OVERSIZED);
+      const stayEncrypted = await stay.encrypt();
+      const tx = await calculator.connect(alice)["quote(uint256,bytes32,bytes32,bytes,uint256)"](
+        DEFAULT_LOT,
+        stayEncrypted.handles[0],
+        stayEncrypted.handles[1],
+        stayEncrypted.inputProof,
+        await calculator.rateVersion()
+      );
+      return fhevm.computeTransactionHCU((await tx.wait())!);
+    }
+
+    it("fits a class quote at MAX_TIERS into the per-transaction HCU limit", async function () {
+      const maxTiers = Number(await calculator.MAX_TIERS());
+      const tiers = Array.from({ length: maxTiers }, (_, i) => ({
+        fromBlock: i * 8,
+        pricePerBlock: PRICE_PER_BLOCK,
+      }));
+
+      // HCULimit reverts at 20M HCU per transaction (5M sequential depth)
+      const hcu = await quoteClassWorstCase({ tiers });
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("fits a tiered class quote under a daily cap into the per-transaction HCU limit", async function () {
+      const hcu = await quoteClassWorstCase({
+        tiers: [
+          { fromBlock: 0, pricePerBlock: 100 },
+          { fromBlock: 4, pricePerBlock: 80 },
+          { fromBlock: 8, pricePerBlock: 60 },
+        ],
+        dailyMaxFee: 2500,
+      });
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("fits the costliest tiers and cap periods accepted", async function () {
+      // Two capped days of four tier segments each
+      const tiers = Array.from({ length: 8 }, (_, i) => ({
+        fromBlock: i * 12,
+        pricePerBlock: PRICE_PER_BLOCK,
+      }));
+
+      const hcu = await quoteClassWorstCase({ tiers, dailyMaxFee: 2500 });
+      expect(hcu.globalHCU).to.be.below(20_000_000);
+      expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    });
+
+    it("rejects tiers and cap periods a quote cannot run", async function () {
+      // 8 tiers in the first of two capped days: 6 segments summed in one period
+      const tiers = Array.from({ length: 8 }, (_, i) => ({
+        fromBlock: i * 8,
+        pricePerBlock: PRICE_PER_BLOCK,
+      }));
+      await expect(
+        calculator.scheduleRateChange(
+          ...(await rateChange({ tiers, dailyMaxFee: 2500, minimumFee: 100 }))
+        )
+      ).to.be.revertedWith("Quote over HCU limit");
+      // 8 tiers across 7 capped days: one segment per tier and day
+      const weekTiers = tiers.map((tier, i) => ({ ...tier, fromBlock: i * 30 }));
+      await expect(
+        calculator.scheduleRateChange(
+          ...(await rateChange({ tiers: weekTiers, maxBlocks: 336, dailyMaxFee: 2500 }))
+        )
+      ).to.be.revertedWith("Quote over HCU limit");
+      // The same tiers without a cap are fine
+      await calculator.scheduleRateChange(
+        ...(await rateChange({ tiers: weekTiers, maxBlocks: 336, minimumFee: 100 }))
+      );
+    });
+
+    it("validates class rates", async function () {
+      await expect(
+        calculator.scheduleRateChange(
+          ...(await rateChange({ classMultipliers: [10000, 50001, 10000, 10000] }))
+        )
+      ).to.be.revertedWith("Multiplier too high");
+    });
+  });
+
+  describe("grace period", function () {
+    it("makes stays up to the grace period free, minimum charge included", async function () {
+      await changeRates({ minimumFee: 2n * PRICE_PER_BLOCK, graceMinutes: 15 });
+
+      expect(await quoteAndDecrypt(10)).to.equal(0n);
+      expect(await quoteAndDecrypt(15)).to.equal(0n);
+      expect(await quoteAndDecrypt(16)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+
+    it("bills the full stay above the grace period unless deducted", async function () {
+      await changeRates({ graceMinutes: 15 });
+      expect(await quoteAndDecrypt(40)).to.equal(2n * PRICE_PER_BLOCK);
+
+      await changeRates({ graceDeducted: true });
+      expect(await quoteAndDecrypt(40)).to.equal(PRICE_PER_BLOCK);
+      expect(await quoteAndDecrypt(46)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+
+    it("validates the grace period", async function () {
+      await expect(
+        calculator.scheduleRateChange(...(await rateChange({ graceMinutes: 1441 })))
+      ).to.be.revertedWith("Grace too long");
+    });
+  });
+
+  describe("monthly passes", function () {
+    const PASS_PRICE = 3000n;
+
+    async function setupPasses(balance: bigint) {
+      await setupToken(balance);
+      await calculator.setPassPrice(DEFAULT_LOT, PASS_PRICE);
+    }
+
+    async function buyPass() {
+      const tx = await calculator.connect(alice).buyPass(DEFAULT_LOT, PASS_PRICE);
+      await tx.wait();
+      return decryptFee(await calculator.connect(alice).getMyPassHandle(DEFAULT_LOT));
+    }
+
+    it("makes quotes free while the pass is active", async function () {
+      await setupPasses(PASS_PRICE);
+      const expiry = await buyPass();
+      expect(expiry).to.equal(BigInt(await time.latest()) + 30n * 24n * 3600n);
+
+      expect(await quoteAndDecrypt(120)).to.equal(0n);
+      expect(await quoteAndDecrypt(120, bob)).to.equal(4n * PRICE_PER_BLOCK);
+
+      await time.increaseTo(expiry);
+      expect(await quoteAndDecrypt(120)).to.equal(4n * PRICE_PER_BLOCK);
+    });
+
+    it("does not extend the pass when the payment fails", async function () {
+      await setupPasses(PASS_PRICE - 1n);
+      expect(await buyPass()).to.equal(0n);
+      expect(await quoteAndDecrypt(120)).to.equal(4n * PRICE_PER_BLOCK);
+    });
+
+    it("validates pass purchases", async function () {
+      await expect(calculator.connect(alice).buyPass(DEFAULT_LOT, 0)).to.be.revertedWith(
+        "No payment token"
+      );
+      await setupPasses(PASS_PRICE);
+      await expect(calculator.connect(alice).buyPass(DEFAULT_LOT, PASS_PRICE - 1n)).to.be.revertedWith(
+        "Price changed"
+      );
+      await expect(calculator.connect(bob).setPassPrice(DEFAULT_LOT, 1)).to.be.revertedWith(
+        "Missing role"
+      );
+    });
+  });
+
+  describe("prepaid balance", function () {
+    async function deposit(amount: bigint) {
+      const input = fhevm.createEncryptedInput(calculatorAddress, alice.address);
+      input.add64(amount);
+      const encrypted = await input.encrypt();
+
+      const tx = await calculator.connect(alice).deposit(encrypted.handles[0], encrypted.inputProof);
+      await tx.wait();
+      return decryptFee(await calculator.connect(alice).getMyBalanceHandle());
+    }
+
+    async function lastCharge() {
+      const handle = await calculator.connect(alice).getMyChargedHandle();
+      return fhevm.userDecryptEbool(handle, calculatorAddress, alice);
+    }
+
+    it("credits deposits and deducts covered fees", async function () {
+      const token = await setupToken(1000n);
+      expect(await deposit(300n)).to.equal(300n);
+
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+      expect(await lastCharge()).to.equal(true);
+      expect(await decryptFee(await calculator.connect(alice).getMyBalanceHandle())).to.equal(
+        300n - 2n * PRICE_PER_BLOCK
+      );
+
+      const ownerBalance = await token.confidentialBalanceOf(owner.address);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, ownerBalance, await token.getAddress(), owner)
+      ).to.equal(2n * PRICE_PER_BLOCK);
+
+      // pay() has nothing left to transfer
+      await (await calculator.connect(alice).pay()).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyPaymentHandle())).to.equal(0n);
+    });
+
+    it("leaves the balance untouched when it does not cover the fee", async function () {
+      await setupToken(1000n);
+      await deposit(PRICE_PER_BLOCK);
+
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+      expect(await lastCharge()).to.equal(false);
+      expect(await decryptFee(await calculator.connect(alice).getMyBalanceHandle())).to.equal(
+        PRICE_PER_BLOCK
+      );
+
+      await (await calculator.connect(alice).pay()).wait();
+      expect(await decryptFee(await calculator.connect(alice).getMyPaymentHandle())).to.equal(
+        2n * PRICE_PER_BLOCK
+      );
+    });
+
+    it("credits only what the token transferred", async function () {
+      await setupToken(100n);
+      expect(await deposit(500n)).to.equal(0n);
+    });
+
+    it("withdraws the remaining balance and closes it", async function () {
+      const token = await setupToken(1000n);
+      await expect(calculator.connect(alice).withdraw()).to.be.revertedWith("No balance");
+
+      await deposit(300n);
+      await quoteAndDecrypt(60);
+      await expect(calculator.connect(alice).withdraw()).to.emit(calculator, "Withdrawn");
+      expect(await tokenBalance(token, alice)).to.equal(1000n - 2n * PRICE_PER_BLOCK);
+      expect(await calculator.connect(alice).getMyBalanceHandle()).to.equal(ethers.ZeroHash);
+      expect(await calculator.openBalances()).to.equal(0n);
+
+      // Later fees are no longer deducted
+      expect(await quoteAndDecrypt(60)).to.equal(2n * PRICE_PER_BLOCK);
+      await expect(calculator.connect(alice).withdraw()).to.be.revertedWith("No balance");
+    });
+
+    it("keeps the payment token while balances are open", async function () {
+      const token = await setupToken(1000n);
+      await deposit(300n);
+      expect(await calculator.openBalances()).to.equal(1n);
+
+      const other = await token.getAddress();
+      await expect(calculator.setPaymentToken(other)).to.be.revertedWith("Open balances");
+
+      await (await calculator.connect(alice).withdraw()).wait();
+      await calculator.setPaymentToken(other);
+    });
+  });
+
+  describe("merchant validations", function () {
+    // `bob` acts as the merchant
+    async function validate(minutes: bigint, percent: bigint, merchant: HardhatEthersSigner = bob) {
+      const input = fhevm.createEncryptedInput(calculatorAddress, merchant.address);
+      input.add64(minutes);
+      input.add64(percent);
+      const encrypted = await input.encrypt();
+
+      const tx = await calculator
+        .connect(merchant)
+        .validate(alice.address, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+      await tx.wait();
+    }
+
+    beforeEach(async function () {
+      await calculator.grantRole(await calculator.MERCHANT_ROLE(), bob.address);
+    });
+
+    it("applies pending minutes and discount to the next quote only", async function () {
+      await validate(30n, 0n);
+      await validate(30n, 50n);
+
+      const [minutesHandle, percentHandle] = await calculator.connect(alice).getMyValidationHandles();
+      expect(await decryptFee(minutesHandle)).to.equal(60n);
+      expect(await decryptFee(percentHandle)).to.equal(50n);
+
+      // 150 minutes - 60 free = 3 blocks, then 50% off
+      expect(await quoteAndDecrypt(150)).to.equal((3n * PRICE_PER_BLOCK) / 2n);
+      expect(await quoteAndDecrypt(150)).to.equal(5n * PRICE_PER_BLOCK);
+      const [cleared] = await calculator.connect(alice).getMyValidationHandles();
+      expect(cleared).to.equal(ethers.ZeroHash);
+    });
+
+    it("floors the credit at zero and the discount at a free stay", async function () {
+      await validate(600n, 250n);
+      expect(await quoteAndDecrypt(60)).to.equal(0n);
+    });
+
+    it("restricts validations to merchants", async function () {
+      await expect(validate(30n, 0n, alice)).to.be.revertedWith("Missing role");
+    });
+  });
+
+  describe("fee ACL", function () {
+    it("lets the user decrypt their own fee", async function () {
+      const handle = await quote(45);
+      expect(await decryptFee(handle, alice)).to.equal(2n * PRICE_PER_BLOCK);
+    });
+
+    it("does not let other accounts decrypt the fee", async function () {
+      const handle = await quote(45);
+
+      let decrypted = false;
+      try {
+        await decryptFee(handle, bob);
+        decrypted = true;
+      } catch {
+        // Expected: bob has no ACL permission on alice's fee
+      }
+      expect(decrypted).to.equal(false);
+
+      // The owner gets no access either
+      let ownerDecrypted = false;
+      try {
+        await decryptFee(handle, owner);
+        ownerDecrypted = true;
+      } catch {
+        // Expected
+      }
+      expect(ownerDecrypted).to.equal(false);
+    });
+
+    it("keeps fees per user", async function () {
+      await quote(45, alice);
+      expect(await calculator.connect(bob).getMyFeeHandle()).to.equal(ethers.ZeroHash);
+    });
+
+    it("lets a shared viewer decrypt a single fee", async function () {
+      const first = await quote(45);
+      const second = await quote(90);
+
+      await expect(calculator.connect(alice).shareQuote(1, bob.address))
+        .to.emit(calculator, "QuoteShared")
+        .withArgs(alice.address, bob.address, 1, DEFAULT_LOT, anyValue, second);
+      expect(await decryptFee(second, bob)).to.equal(3n * PRICE_PER_BLOCK);
+
+      let decrypted = false;
+      try {
+        await decryptFee(first, bob);
+        decrypted = true;
+      } catch {
+        // Expected: only the shared fee is readable
+      }
+      expect(decrypted).to.equal(false);
+    });
+
+    it("validates shares", async function () {
+      await quote(45);
+      await expect(calculator.connect(alice).shareQuote(1, bob.address)).to.be.revertedWith("Bad index");
+      await expect(calculator.connect(alice).shareQuote(0, alice.address)).to.be.revertedWith(
+        "Bad viewer"
+      );
+    });
+  });
+});
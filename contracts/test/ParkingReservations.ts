@@ -0,0 +1,428 @@
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type {
+  MockConfidentialToken,
+  ParkingFeeCalculator,
+  ParkingReservations,
+} from "../typechain-types";
+
+const PRICE_PER_BLOCK = 50n; // cents
+const MAX_BLOCKS = 96;
+const DEFAULT_LOT = 0;
+const HOUR = 3600;
+const PENALTY = 80n; // cents per block
+const FUNDS = 10_000n; // Token balance of each funded driver, cents
+
+describe("ParkingReservations", function () {
+  let owner: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let drivers: HardhatEthersSigner[]; // Unfunded signers other than owner, alice and bob
+  let libraries: { FeeMath: string };
+  let calculator: ParkingFeeCalculator;
+  let reservations: ParkingReservations;
+  let reservationsAddress: string;
+  let token: MockConfidentialToken;
+
+  // Encrypt start and duration for `user`, book the default lot and return the id
+  async function reserve(start: number, minutes: number, user: HardhatEthersSigner = alice) {
+    const input = fhevm.createEncryptedInput(reservationsAddress, user.address);
+    input.add64(start);
+    input.add64(minutes);
+    const encrypted = await input.encrypt();
+
+    const id = await reservations.reservationCount();
+    const tx = await reservations
+      .connect(user)
+      .reserve(DEFAULT_LOT, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+    await tx.wait();
+    return id;
+  }
+
+  // Decrypted outcome of a booking: [confirmed, fee]
+  async function outcome(id: bigint, user: HardhatEthersSigner = alice) {
+    const r = await reservations.getReservation(id);
+    return [
+      await fhevm.userDecryptEbool(r.confirmedHandle, reservationsAddress, user),
+      await fhevm.userDecryptEuint(FhevmType.euint64, r.feeHandle, reservationsAddress, user),
+    ];
+  }
+
+  // Decrypted overstay penalty of a booking and the amount charged for it
+  async function penaltyOf(id: bigint, user: HardhatEthersSigner = alice) {
+    const r = await reservations.getReservation(id);
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, reservationsAddress, user);
+    return [
+      await decrypt(r.penaltyHandle),
+      r.penaltyPaidHandle === ethers.ZeroHash ? 0n : await decrypt(r.penaltyPaidHandle),
+    ];
+  }
+
+  async function tokenBalance(user: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(user.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, await token.getAddress(), user);
+  }
+
+  // Mint `amount` to a driver and approve the reservations contract to charge them
+  async function fund(user: HardhatEthersSigner, amount: bigint = FUNDS) {
+    await token.mint(user.address, amount);
+    const until = (await time.latest()) + 365 * 24 * HOUR;
+    await token.connect(user).setOperator(reservationsAddress, until);
+  }
+
+  async function deployContracts() {
+    const calculatorFactory = await ethers.getContractFactory("ParkingFeeCalculator", { libraries });
+    const deployedCalculator = await calculatorFactory.deploy(PRICE_PER_BLOCK, MAX_BLOCKS);
+    await deployedCalculator.waitForDeployment();
+
+    const reservationsFactory = await ethers.getContractFactory("ParkingReservations", { libraries });
+    const deployedReservations = await reservationsFactory.deploy(
+      await deployedCalculator.getAddress()
+    );
+    await deployedReservations.waitForDeployment();
+    return [deployedCalculator, deployedReservations] as const;
+  }
+
+  // Request a booking's release, publicly decrypt the bit and submit it
+  async function release(id: bigint) {
+    await (await reservations.requestRelease(id)).wait();
+    const handle = await reservations.getReleasableHandle(id);
+    const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+    return reservations.release(id, abiEncodedClearValues, decryptionProof);
+  }
+
+  before(async function () {
+    [owner, alice, bob, ...drivers] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    // Encrypted inputs and decryption need the local FHEVM mock
+    if (!fhevm.isMock) {
+      this.skip();
+    }
+
+    const feeMath = await (await ethers.getContractFactory("FeeMath")).deploy();
+    await feeMath.waitForDeployment();
+    libraries = { FeeMath: await feeMath.getAddress() };
+
+    [calculator, reservations] = await deployContracts();
+    reservationsAddress = await reservations.getAddress();
+    await reservations.setLotCapacity(DEFAULT_LOT, 1);
+
+    // Fees are charged in the calculator's payment token
+    const factory = await ethers.getContractFactory("MockConfidentialToken");
+    token = await factory.deploy("Parking USD", "pUSD");
+    await token.waitForDeployment();
+    await calculator.setPaymentToken(await token.getAddress());
+    await fund(alice);
+    await fund(bob);
+  });
+
+  it("confirms a free slot, prices it with the block logic and charges the fee", async function () {
+    const start = (await time.latest()) + HOUR;
+    const id = await reserve(start, 90);
+
+    expect(await outcome(id)).to.deep.equal([true, 3n * PRICE_PER_BLOCK]);
+
+    // Charged to the lot's recipient (the calculator's fee recipient for the default lot)
+    expect(await tokenBalance(alice)).to.equal(FUNDS - 3n * PRICE_PER_BLOCK);
+    expect(await tokenBalance(owner)).to.equal(3n * PRICE_PER_BLOCK);
+
+    const r = await reservations.getReservation(id);
+    expect(r.driver).to.equal(alice.address);
+    expect(r.active).to.equal(true);
+    expect(await reservations.openBookings(alice.address)).to.equal(1n);
+  });
+
+  it("refuses a booking the driver cannot pay for", async function () {
+    const [carol] = drivers;
+    await fund(carol, 3n * PRICE_PER_BLOCK - 1n);
+
+    // Not confirmed and nothing charged, so the spot stays free
+    const start = (await time.latest()) + HOUR;
+    const unpaid = await reserve(start, 90, carol);
+    expect(await outcome(unpaid, carol)).to.deep.equal([false, 0n]);
+    expect(await tokenBalance(carol)).to.equal(3n * PRICE_PER_BLOCK - 1n);
+
+    expect(await outcome(await reserve(start, 90, bob), bob)).to.deep.equal([
+      true,
+      3n * PRICE_PER_BLOCK,
+    ]);
+  });
+
+  it("requires a payment token and the driver's approval", async function () {
+    const [unpriced, unpricedReservations] = await deployContracts();
+    await unpricedReservations.setLotCapacity(DEFAULT_LOT, 1);
+    const input = fhevm.createEncryptedInput(
+      await unpricedReservations.getAddress(),
+      alice.address
+    );
+    input.add64((await time.latest()) + HOUR);
+    input.add64(60);
+    const encrypted = await input.encrypt();
+    await expect(
+      unpricedReservations
+        .connect(alice)
+        .reserve(DEFAULT_LOT, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+    ).to.be.revertedWith("No payment token");
+    await expect(unpricedReservations.setPenaltyPerBlock(PENALTY)).to.be.revertedWith(
+      "No payment token"
+    );
+    expect(await unpriced.paymentToken()).to.equal(ethers.ZeroAddress);
+
+    await token.connect(alice).setOperator(reservationsAddress, 0);
+    await expect(reserve((await time.latest()) + HOUR, 60)).to.be.revertedWith("Not operator");
+  });
+
+  it("limits the open bookings per driver", async function () {
+    const maxOpen = Number(await reservations.MAX_OPEN_BOOKINGS());
+    await reservations.setLotCapacity(DEFAULT_LOT, maxOpen + 1);
+    const start = (await time.latest()) + HOUR;
+    const ids = [];
+    for (let i = 0; i < maxOpen; ++i) {
+      ids.push(await reserve(start + i * HOUR, 30));
+    }
+    await expect(reserve(start, 30)).to.be.revertedWith("Too many bookings");
+
+    // Releasing one frees a booking
+    await reservations.connect(alice).cancelReservation(ids[0]);
+    await reserve(start, 30);
+    expect(await reservations.openBookings(alice.address)).to.equal(BigInt(maxOpen));
+  });
+
+  it("applies the calculator's tiers and fee limits", async function () {
+    // Fee rules change through the calculator's rate timelock
+    const effectiveAt = (await time.latest()) + 2 * 24 * HOUR;
+    await calculator.scheduleRateChange(
+      { pricePerBlock: PRICE_PER_BLOCK, maxBlocks: MAX_BLOCKS, blockMinutes: 30, effectiveAt },
+      {
+        tiers: [
+          { fromBlock: 0, pricePerBlock: 100 },
+          { fromBlock: 2, pricePerBlock: 10 },
+        ],
+        dailyMaxFee: 0,
+        minimumFee: 150,
+        graceMinutes: 0,
+        graceDeducted: false,
+        classMultipliers: [...(await calculator.getClassMultipliers())],
+      }
+    );
+    await time.increaseTo(effectiveAt);
+    await calculator.applyRateChange(DEFAULT_LOT);
+
+    const start = (await time.latest()) + HOUR;
+    expect(await outcome(await reserve(start, 30))).to.deep.equal([true, 150n]);
+    expect(await outcome(await reserve(start + 2 * HOUR, 120))).to.deep.equal([true, 220n]);
+  });
+
+  it("refuses overlapping bookings beyond capacity", async function () {
+    const start = (await time.latest()) + HOUR;
+    await reserve(start, 120);
+
+    // Overlaps the first booking: not confirmed, no fee
+    const overlapping = await reserve(start + HOUR, 60, bob);
+    expect(await outcome(overlapping, bob)).to.deep.equal([false, 0n]);
+
+    // Starts when the first booking ends
+    const after = await reserve(start + 2 * HOUR, 60, bob);
+    expect(await outcome(after, bob)).to.deep.equal([true, 2n * PRICE_PER_BLOCK]);
+  });
+
+  it("refuses starts outside the booking window", async function () {
+    const now = await time.latest();
+    expect(await outcome(await reserve(now - HOUR, 60))).to.deep.equal([false, 0n]);
+
+    const maxAdvance = Number(await reservations.MAX_ADVANCE());
+    expect(await outcome(await reserve(now + maxAdvance + HOUR, 60))).to.deep.equal([false, 0n]);
+  });
+
+  it("frees capacity on cancellation and after expiry", async function () {
+    const start = (await time.latest()) + HOUR;
+    const id = await reserve(start, 60);
+    await expect(reservations.connect(bob).cancelReservation(id)).to.be.revertedWith("Not driver");
+    await expect(reservations.connect(alice).cancelReservation(id))
+      .to.emit(reservations, "ReservationCancelled")
+      .withArgs(alice.address, DEFAULT_LOT, id);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(0n);
+
+    await reserve(start, 60);
+    const expiresAt = (await reservations.getReservation(1)).expiresAt;
+    await time.increaseTo(expiresAt);
+    await reserve((await time.latest()) + HOUR, 60, bob);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(1n);
+  });
+
+  it("bills overstay blocks at the penalty price on check-out", async function () {
+    await expect(reservations.connect(alice).setPenaltyPerBlock(PENALTY)).to.be.revertedWith("Not owner");
+    const maxPenalty = (2n ** 64n - 1n) / 65535n;
+    await expect(reservations.setPenaltyPerBlock(maxPenalty + 1n)).to.be.revertedWith(
+      "Penalty overflow"
+    );
+    await reservations.setPenaltyPerBlock(maxPenalty);
+    await reservations.setPenaltyPerBlock(PENALTY);
+    expect(await reservations.penaltyPerBlock()).to.equal(PENALTY);
+
+    // 60 reserved minutes, left 31 minutes late: 2 started 30-minute blocks
+    const start = (await time.latest()) + HOUR;
+    const id = await reserve(start, 60);
+    await time.setNextBlockTimestamp(start + HOUR + 31 * 60);
+    await expect(reservations.connect(alice).checkOut(id))
+      .to.emit(reservations, "CheckedOut")
+      .and.to.emit(reservations, "PenaltyCharged");
+
+    // Charged to the lot's recipient along with the fee
+    const fee = 2n * PRICE_PER_BLOCK;
+    expect(await penaltyOf(id)).to.deep.equal([2n * PENALTY, 2n * PENALTY]);
+    expect(await tokenBalance(alice)).to.equal(FUNDS - fee - 2n * PENALTY);
+    expect(await tokenBalance(owner)).to.equal(fee + 2n * PENALTY);
+    expect((await reservations.getReservation(id)).active).to.equal(false);
+    await expect(reservations.connect(alice).checkOut(id)).to.be.revertedWith("Not active");
+  });
+
+  it("keeps the driver's operator approval required while a penalty is set", async function () {
+    await reservations.setPenaltyPerBlock(PENALTY);
+
+    // Revoking after booking does not let the driver leave without paying
+    const start = (await time.latest()) + HOUR;
+    const id = await reserve(start, 60, bob);
+    await token.connect(bob).setOperator(reservationsAddress, 0);
+    await time.setNextBlockTimestamp(start + 2 * HOUR);
+    await expect(reservations.connect(bob).checkOut(id)).to.be.revertedWith("Not operator");
+  });
+
+  it("settles expired bookings with their full overstay", async function () {
+    await reservations.setPenaltyPerBlock(PENALTY);
+    await reservations.setLotCapacity(DEFAULT_LOT, 2);
+
+    const start = (await time.latest()) + HOUR;
+    const charged = await reserve(start, 60);
+    const revoked = await reserve(start, 60, bob);
+    await token.connect(bob).setOperator(reservationsAddress, 0);
+
+    await expect(reservations.settleExpired(charged)).to.be.revertedWith("Not expired");
+
+    // The next booking after expiry settles one; anyone can settle the other.
+    // The overstay is capped at the lot's max blocks.
+    const expiresAt = (await reservations.getReservation(revoked)).expiresAt;
+    await time.increaseTo(expiresAt);
+    const input = fhevm.createEncryptedInput(reservationsAddress, alice.address);
+    input.add64((await time.latest()) + HOUR);
+    input.add64(60);
+    const encrypted = await input.encrypt();
+    await expect(
+      reservations
+        .connect(alice)
+        .reserve(DEFAULT_LOT, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof)
+    )
+      .to.emit(reservations, "ReservationExpired")
+      .withArgs(bob.address, DEFAULT_LOT, revoked, anyValue);
+    await expect(reservations.settleExpired(charged))
+      .to.emit(reservations, "ReservationExpired")
+      .withArgs(alice.address, DEFAULT_LOT, charged, anyValue);
+    await expect(reservations.settleExpired(charged)).to.be.revertedWith("Not active");
+
+    const fee = 2n * PRICE_PER_BLOCK;
+    const fullOverstay = BigInt(MAX_BLOCKS) * PENALTY;
+    expect(await penaltyOf(charged)).to.deep.equal([fullOverstay, fullOverstay]);
+    expect(await tokenBalance(owner)).to.equal(3n * fee + fullOverstay);
+
+    // Without an approval the penalty is recorded but nothing moves
+    expect(await penaltyOf(revoked, bob)).to.deep.equal([fullOverstay, 0n]);
+    expect(await tokenBalance(bob)).to.equal(FUNDS - fee);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(1n);
+  });
+
+  it("fits a booking that settles an expiry into the per-transaction HCU limit", async function () {
+    await reservations.setPenaltyPerBlock(PENALTY);
+    const maxActive = Number(await reservations.MAX_ACTIVE_RESERVATIONS());
+    const maxOpen = Number(await reservations.MAX_OPEN_BOOKINGS());
+    await reservations.setLotCapacity(DEFAULT_LOT, maxActive);
+    const bookers = [alice, bob, ...drivers].slice(0, maxActive / maxOpen + 1);
+    for (const user of bookers.slice(2)) {
+      await fund(user);
+    }
+
+    // One booking expires while the lot holds the most others it can
+    const first = await reserve((await time.latest()) + HOUR, 60);
+    const expiresAt = (await reservations.getReservation(first)).expiresAt;
+    await time.increaseTo(expiresAt - BigInt(HOUR));
+    for (let i = 1; i < maxActive; ++i) {
+      await reserve((await time.latest()) + HOUR, 60, bookers[Math.floor(i / maxOpen)]);
+    }
+    await time.increaseTo(expiresAt);
+
+    const last = bookers[bookers.length - 1];
+    const input = fhevm.createEncryptedInput(reservationsAddress, last.address);
+    input.add64((await time.latest()) + HOUR);
+    input.add64(60);
+    const encrypted = await input.encrypt();
+    const tx = await reservations
+      .connect(last)
+      .reserve(DEFAULT_LOT, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+    const hcu = fhevm.computeTransactionHCU((await tx.wait())!);
+    expect(hcu.globalHCU).to.be.below(20_000_000);
+    expect(hcu.maxHCUDepth).to.be.below(5_000_000);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(BigInt(maxActive));
+  });
+
+  it("charges no penalty when leaving in time or without a confirmed spot", async function () {
+    await reservations.setPenaltyPerBlock(PENALTY);
+
+    const start = (await time.latest()) + HOUR;
+    const onTime = await reserve(start, 120);
+    const refused = await reserve(start, 60, bob); // Lot is full
+    await time.setNextBlockTimestamp(start + 2 * HOUR);
+    await reservations.connect(alice).checkOut(onTime);
+    await time.increase(HOUR);
+    await reservations.connect(bob).cancelReservation(refused);
+
+    expect(await penaltyOf(onTime)).to.deep.equal([0n, 0n]);
+    expect(await penaltyOf(refused, bob)).to.deep.equal([0n, 0n]);
+    expect(await tokenBalance(owner)).to.equal(4n * PRICE_PER_BLOCK); // The fee only
+  });
+
+  it("releases bookings that were not confirmed or whose window ended", async function () {
+    const start = (await time.latest()) + HOUR;
+    const booked = await reserve(start, 60);
+    const refused = await reserve(start, 60, bob); // Lot is full
+    await expect(reservations.release(refused, "0x", "0x")).to.be.revertedWith("Not requested");
+
+    // Anyone can release a refused booking right away
+    await expect(release(refused))
+      .to.emit(reservations, "ReservationExpired")
+      .withArgs(bob.address, DEFAULT_LOT, refused, anyValue);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(1n);
+    expect(await reservations.openBookings(bob.address)).to.equal(0n);
+
+    // A confirmed booking holds its slot until its window ended, not until expiresAt
+    await expect(release(booked)).to.be.revertedWith("Still booked");
+    await time.increaseTo(start + HOUR);
+    await expect(release(booked))
+      .to.emit(reservations, "ReservationExpired")
+      .withArgs(alice.address, DEFAULT_LOT, booked, anyValue);
+    expect(await reservations.getActiveReservationCount(DEFAULT_LOT)).to.equal(0n);
+    expect((await reservations.getReservation(booked)).expiresAt).to.be.above(await time.latest());
+    await expect(reservations.requestRelease(booked)).to.be.revertedWith("Not active");
+  });
+
+  it("validates capacity and lot state", async function () {
+    await expect(reservations.connect(alice).setLotCapacity(DEFAULT_LOT, 5)).to.be.revertedWith(
+      "Not lot operator"
+    );
+
+    await reservations.setLotCapacity(DEFAULT_LOT, 0);
+    const start = (await time.latest()) + HOUR;
+    await expect(reserve(start, 60)).to.be.revertedWith("No reservations");
+
+    await reservations.setLotCapacity(DEFAULT_LOT, 1);
+    const id = await reserve(start, 60);
+    await calculator.pause("maintenance");
+    await expect(reserve(start, 60)).to.be.revertedWith("Paused");
+    await expect(reservations.connect(alice).cancelReservation(id)).to.be.revertedWith("Paused");
+  });
+});
@@ -7,6 +7,11 @@ import Navigation from "./components/Navigation";
 import Landing from "./pages/Landing";
 import Calculator from "./pages/Calculator";
 import Admin from "./pages/Admin";
+import MyQuotes from "./pages/MyQuotes";
+import Passes from "./pages/Passes";
+import Reserve from "./pages/Reserve";
+import SharedFees from "./pages/SharedFees";
+import Merchant from "./pages/Merchant";
 import NotFound from "./pages/NotFound";
 import { useWallet } from "./hooks/useWallet";
 
@@ -28,6 +33,11 @@ const AppContent = () => {
       <Routes>
         <Route path="/" element={<Landing />} />
         <Route path="/calculator" element={<Calculator />} />
+        <Route path="/quotes" element={<MyQuotes />} />
+        <Route path="/passes" element={<Passes />} />
+        <Route path="/reserve" element={<Reserve />} />
+        <Route path="/shared" element={<SharedFees />} />
+        <Route path="/merchant" element={<Merchant />} />
         <Route path="/admin" element={<Admin />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
@@ -1,4 +1,5 @@
 import { NavLink } from "./NavLink";
+import PrepaidBalance from "./PrepaidBalance";
 import { Button } from "./ui/button";
 import { Wallet, Loader2, AlertTriangle } from "lucide-react";
 import {
@@ -50,6 +51,41 @@ const Navigation = ({
             >
               Calculate Fee
             </NavLink>
+            <NavLink
+              to="/quotes"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              activeClassName="text-primary"
+            >
+              My Quotes
+            </NavLink>
+            <NavLink
+              to="/passes"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              activeClassName="text-primary"
+            >
+              Passes
+            </NavLink>
+            <NavLink
+              to="/reserve"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              activeClassName="text-primary"
+            >
+              Reserve
+            </NavLink>
+            <NavLink
+              to="/shared"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              activeClassName="text-primary"
+            >
+              Shared Fees
+            </NavLink>
+            <NavLink
+              to="/merchant"
+              className="text-muted-foreground hover:text-foreground transition-colors"
+              activeClassName="text-primary"
+            >
+              Merchants
+            </NavLink>
             <NavLink
               to="/admin"
               className="text-muted-foreground hover:text-foreground transition-colors"
@@ -81,6 +117,11 @@ const Navigation = ({
             </Tooltip>
           )}
 
+          {/* Prepaid Balance */}
+          {isConnected && isCorrectNetwork && walletAddress && (
+            <PrepaidBalance key={walletAddress} walletAddress={walletAddress} />
+          )}
+
           {/* Wallet Button */}
           <Button
             onClick={onConnectWallet}
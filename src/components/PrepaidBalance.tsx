@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { ZeroHash } from "ethers";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Loader2, PiggyBank, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { encryptUint64, userDecryptUint64 } from "@/lib/fhe";
+import {
+  getMyBalanceHandle,
+  isPaymentOperatorApproved,
+  approvePaymentOperator,
+  callDeposit,
+  callWithdraw,
+  getSigner,
+  formatPrice,
+  CONTRACT_ADDRESS,
+} from "@/lib/contract";
+
+interface PrepaidBalanceProps {
+  walletAddress: string;
+}
+
+type DepositStep = "idle" | "approving" | "encrypting" | "depositing";
+
+const DEPOSIT_STEP_LABELS: Record<DepositStep, string> = {
+  idle: "Deposit",
+  approving: "Approving Token...",
+  encrypting: "Encrypting...",
+  depositing: "Depositing...",
+};
+
+const PrepaidBalance = ({ walletAddress }: PrepaidBalanceProps) => {
+  const [balanceHandle, setBalanceHandle] = useState<string | null>(null);
+  const [balanceCents, setBalanceCents] = useState<bigint | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [step, setStep] = useState<DepositStep>("idle");
+  const [isWithdrawing, setIsWithdrawing] = useState(false);
+
+  const { toast } = useToast();
+
+  // Fees deducted since the last look change the handle; reload it on open
+  const loadBalance = async () => {
+    try {
+      const handle = await getMyBalanceHandle();
+      if (handle !== balanceHandle) {
+        setBalanceHandle(handle);
+        setBalanceCents(null);
+      }
+    } catch (error) {
+      console.error("Failed to load prepaid balance:", error);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!balanceHandle || balanceHandle === ZeroHash) return;
+
+    setIsDecrypting(true);
+    try {
+      const signer = await getSigner();
+      setBalanceCents(await userDecryptUint64(balanceHandle, CONTRACT_ADDRESS, signer));
+    } catch (error: any) {
+      console.error("Failed to decrypt balance:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt balance",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleDeposit = async () => {
+    const cents = Math.round(parseFloat(amount) * 100);
+    if (isNaN(cents) || cents <= 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Please enter an amount greater than 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      // Approve the calculator as token operator if needed
+      if (!(await isPaymentOperatorApproved(walletAddress))) {
+        setStep("approving");
+        await approvePaymentOperator();
+      }
+
+      setStep("encrypting");
+      const { handle, inputProof } = await encryptUint64(cents, CONTRACT_ADDRESS, walletAddress);
+
+      setStep("depositing");
+      const { balanceHandle: newHandle } = await callDeposit(handle, inputProof);
+      setBalanceHandle(newHandle);
+      setBalanceCents(null);
+      setAmount("");
+      toast({
+        title: "Deposit Complete",
+        description: "Reveal your balance to confirm the amount credited",
+      });
+    } catch (error: any) {
+      console.error("Failed to deposit:", error);
+      toast({
+        title: "Deposit Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setStep("idle");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    setIsWithdrawing(true);
+    try {
+      await callWithdraw();
+      setBalanceHandle(ZeroHash);
+      setBalanceCents(null);
+      toast({
+        title: "Withdrawal Complete",
+        description: "Your prepaid balance was moved back to your token balance",
+      });
+    } catch (error) {
+      console.error("Failed to withdraw:", error);
+      toast({
+        title: "Withdrawal Failed",
+        description: (error as Error)?.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  const hasBalance = !!balanceHandle && balanceHandle !== ZeroHash;
+
+  return (
+    <Popover onOpenChange={(open) => open && loadBalance()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <PiggyBank className="h-4 w-4 mr-1" />
+          {balanceCents !== null ? formatPrice(balanceCents) : "Balance"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm text-muted-foreground">Prepaid Balance</p>
+            <p className="font-semibold">
+              {!hasBalance
+                ? "No deposits yet"
+                : balanceCents !== null
+                  ? formatPrice(balanceCents)
+                  : "Encrypted"}
+            </p>
+          </div>
+          {hasBalance && balanceCents === null && (
+            <Button variant="outline" size="sm" onClick={handleReveal} disabled={isDecrypting}>
+              {isDecrypting ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : (
+                <>
+                  <Unlock className="mr-1 h-3 w-3" />
+                  Reveal
+                </>
+              )}
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="depositAmount">Top Up (USD)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="depositAmount"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="20.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={step !== "idle" || isWithdrawing}
+              className="bg-background/50"
+            />
+            <Button
+              onClick={handleDeposit}
+              disabled={step !== "idle" || isWithdrawing || !amount}
+              className="bg-gradient-primary hover:opacity-90 shrink-0"
+            >
+              {step !== "idle" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {DEPOSIT_STEP_LABELS[step]}
+            </Button>
+          </div>
+        </div>
+
+        {hasBalance && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleWithdraw}
+            disabled={step !== "idle" || isWithdrawing}
+            className="w-full"
+          >
+            {isWithdrawing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isWithdrawing ? "Withdrawing..." : "Withdraw All"}
+          </Button>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Each new fee is deducted automatically if your balance covers it; otherwise the balance is
+          left untouched and you pay with the token. Withdrawing moves the whole balance back to
+          your token balance. Only you can decrypt your balance.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PrepaidBalance;
@@ -0,0 +1,428 @@
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Building2, Loader2, Pencil, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  addLot,
+  setLotOperator,
+  scheduleLotRateChange,
+  cancelLotRateChange,
+  setLotActive,
+  isRateChangeDue,
+  formatPrice,
+  DEFAULT_LOT_ID,
+  MIN_RATE_CHANGE_DELAY,
+  type ParkingLot,
+} from "@/lib/contract";
+import { toDateTimeInput } from "@/lib/utils";
+
+interface LotManagementCardProps {
+  lots: ParkingLot[];
+  canOperate: boolean;
+  walletAddress: string;
+  onUpdated: () => Promise<void>;
+}
+
+// Editable lot form (string inputs, price in USD)
+interface LotForm {
+  name: string;
+  operator: string;
+  price: string;
+  maxBlocks: string;
+  blockMinutes: string;
+}
+
+const emptyForm: LotForm = {
+  name: "",
+  operator: "",
+  price: "0.50",
+  maxBlocks: "96",
+  blockMinutes: "30",
+};
+
+const DAY_MINUTES = 1440;
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const txDescription = (txHash: string) => (
+  <span>
+    Transaction:{" "}
+    <a
+      href={`https://sepolia.etherscan.io/tx/${txHash}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="underline"
+    >
+      View on Etherscan
+    </a>
+  </span>
+);
+
+// Validate a lot form; returns an error message or null
+const validateForm = (form: LotForm, requireIdentity: boolean): string | null => {
+  if (requireIdentity) {
+    if (!form.name.trim()) return "Please enter a lot name";
+    if (!form.operator.startsWith("0x") || form.operator.length !== 42) {
+      return "Please enter a valid operator address";
+    }
+  }
+  const priceInCents = Math.round(parseFloat(form.price) * 100);
+  const maxBlocks = parseInt(form.maxBlocks);
+  const blockMinutes = parseInt(form.blockMinutes);
+  if (isNaN(priceInCents) || priceInCents <= 0) return "Price must be greater than 0";
+  if (isNaN(maxBlocks) || maxBlocks <= 0 || maxBlocks > 65535) return "Max blocks must be 1-65535";
+  if (isNaN(blockMinutes) || blockMinutes <= 0 || DAY_MINUTES % blockMinutes !== 0) {
+    return "Block size must divide 24 hours (e.g., 5, 15, 30, 60 minutes)";
+  }
+  if (maxBlocks * blockMinutes > 7 * DAY_MINUTES) return "Maximum stay cannot exceed 7 days";
+  return null;
+};
+
+const LotManagementCard = ({ lots, canOperate, walletAddress, onUpdated }: LotManagementCardProps) => {
+  const [newLot, setNewLot] = useState<LotForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<LotForm>(emptyForm);
+  const [effectiveAt, setEffectiveAt] = useState("");
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+
+  const { toast } = useToast();
+
+  const canManage = (lot: ParkingLot) =>
+    lot.id !== DEFAULT_LOT_ID &&
+    (canOperate || lot.operator.toLowerCase() === walletAddress.toLowerCase());
+
+  const runUpdate = async (key: string, title: string, action: () => Promise<string>) => {
+    setIsUpdating(key);
+    try {
+      const txHash = await action();
+      toast({ title, description: txDescription(txHash) });
+      await onUpdated();
+      return true;
+    } catch (error: any) {
+      console.error(`Failed: ${title}`, error);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  const handleAddLot = async () => {
+    const invalid = validateForm(newLot, true);
+    if (invalid) {
+      toast({ title: "Invalid Lot", description: invalid, variant: "destructive" });
+      return;
+    }
+
+    const added = await runUpdate("add", "Lot Added", () =>
+      addLot(
+        newLot.name.trim(),
+        newLot.operator,
+        Math.round(parseFloat(newLot.price) * 100),
+        parseInt(newLot.maxBlocks),
+        parseInt(newLot.blockMinutes)
+      )
+    );
+    if (added) setNewLot(emptyForm);
+  };
+
+  const startEditing = (lot: ParkingLot) => {
+    setEditingId(lot.id);
+    setEditForm({
+      name: lot.name,
+      operator: lot.operator,
+      price: (Number(lot.pricePerBlock) / 100).toString(),
+      maxBlocks: lot.maxBlocks.toString(),
+      blockMinutes: lot.blockMinutes.toString(),
+    });
+    setEffectiveAt(toDateTimeInput(Date.now() + (MIN_RATE_CHANGE_DELAY + 3600) * 1000));
+  };
+
+  const handleScheduleRates = async (lot: ParkingLot) => {
+    const invalid = validateForm(editForm, false);
+    if (invalid) {
+      toast({ title: "Invalid Rates", description: invalid, variant: "destructive" });
+      return;
+    }
+    const effectiveAtSeconds = Math.floor(new Date(effectiveAt).getTime() / 1000);
+    if (isNaN(effectiveAtSeconds) || effectiveAtSeconds < Date.now() / 1000 + MIN_RATE_CHANGE_DELAY) {
+      toast({
+        title: "Invalid Date",
+        description: `Changes must be scheduled at least ${MIN_RATE_CHANGE_DELAY / 3600} hours ahead`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = await runUpdate(`rates-${lot.id}`, "Lot Rate Change Scheduled", () =>
+      scheduleLotRateChange(
+        lot.id,
+        Math.round(parseFloat(editForm.price) * 100),
+        parseInt(editForm.maxBlocks),
+        parseInt(editForm.blockMinutes),
+        effectiveAtSeconds
+      )
+    );
+    if (saved) setEditingId(null);
+  };
+
+  const handleCancelRates = async (lot: ParkingLot) => {
+    await runUpdate(`cancel-${lot.id}`, "Lot Rate Change Cancelled", () =>
+      cancelLotRateChange(lot.id)
+    );
+  };
+
+  const handleChangeOperator = async (lot: ParkingLot) => {
+    if (!editForm.operator.startsWith("0x") || editForm.operator.length !== 42) {
+      toast({
+        title: "Invalid Address",
+        description: "Please enter a valid Ethereum address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runUpdate(`operator-${lot.id}`, "Lot Operator Changed", () =>
+      setLotOperator(lot.id, editForm.operator)
+    );
+  };
+
+  const handleToggleActive = async (lot: ParkingLot, active: boolean) => {
+    await runUpdate(`active-${lot.id}`, active ? "Lot Opened" : "Lot Closed", () =>
+      setLotActive(lot.id, active)
+    );
+  };
+
+  const renderFormFields = (
+    form: LotForm,
+    setForm: (form: LotForm) => void,
+    disabled: boolean
+  ) => (
+    <div className="grid md:grid-cols-3 gap-4">
+      <div className="space-y-2">
+        <Label>Price per Block (USD)</Label>
+        <Input
+          type="number"
+          step="0.01"
+          min="0.01"
+          value={form.price}
+          onChange={(e) => setForm({ ...form, price: e.target.value })}
+          disabled={disabled}
+          className="bg-background/50"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Max Blocks</Label>
+        <Input
+          type="number"
+          min="1"
+          value={form.maxBlocks}
+          onChange={(e) => setForm({ ...form, maxBlocks: e.target.value })}
+          disabled={disabled}
+          className="bg-background/50"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Block Size (minutes)</Label>
+        <Input
+          type="number"
+          min="1"
+          value={form.blockMinutes}
+          onChange={(e) => setForm({ ...form, blockMinutes: e.target.value })}
+          disabled={disabled}
+          className="bg-background/50"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="glass-card p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Building2 className="h-5 w-5 text-primary" />
+        Parking Lots
+      </h3>
+      <div className="space-y-4">
+        {lots.map((lot) => (
+          <div key={lot.id} className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{lot.name}</span>
+                <span className="text-xs text-muted-foreground">#{lot.id}</span>
+                <Badge variant={lot.active ? "secondary" : "outline"}>
+                  {lot.active ? "Open" : "Closed"}
+                </Badge>
+              </div>
+              {canManage(lot) && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={lot.active}
+                    onCheckedChange={(checked) => handleToggleActive(lot, checked)}
+                    disabled={isUpdating !== null}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => (editingId === lot.id ? setEditingId(null) : startEditing(lot))}
+                    disabled={isUpdating !== null}
+                  >
+                    {editingId === lot.id ? <X className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+                  </Button>
+                </div>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatPrice(lot.pricePerBlock)} per {lot.blockMinutes}-minute block · max{" "}
+              {lot.maxBlocks} blocks · operator{" "}
+              <span className="font-mono">{formatAddress(lot.operator)}</span>
+              {lot.id === DEFAULT_LOT_ID && " (managed with the contract-level settings below)"}
+            </p>
+            {lot.id !== DEFAULT_LOT_ID && lot.pendingRateChange && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <p>
+                  Scheduled: {formatPrice(lot.pendingRateChange.pricePerBlock)} per{" "}
+                  {lot.pendingRateChange.blockMinutes}-minute block · max{" "}
+                  {lot.pendingRateChange.maxBlocks} blocks from{" "}
+                  <span className="font-medium">
+                    {new Date(lot.pendingRateChange.effectiveAt * 1000).toLocaleString()}
+                  </span>
+                  {isRateChangeDue(lot.pendingRateChange) && " (in effect)"}
+                </p>
+                {canManage(lot) && !isRateChangeDue(lot.pendingRateChange) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCancelRates(lot)}
+                    disabled={isUpdating !== null}
+                  >
+                    {isUpdating === `cancel-${lot.id}` ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Cancel"
+                    )}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            {editingId === lot.id && (
+              <div className="space-y-4 pt-2">
+                {renderFormFields(editForm, setEditForm, isUpdating !== null)}
+                <div className="flex flex-wrap items-end gap-4">
+                  <div className="space-y-2">
+                    <Label>Effective From</Label>
+                    <Input
+                      type="datetime-local"
+                      value={effectiveAt}
+                      onChange={(e) => setEffectiveAt(e.target.value)}
+                      disabled={isUpdating !== null}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => handleScheduleRates(lot)}
+                    disabled={isUpdating !== null}
+                    className="bg-gradient-primary hover:opacity-90"
+                  >
+                    {isUpdating === `rates-${lot.id}` ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Schedule Rates"
+                    )}
+                  </Button>
+                </div>
+                {canOperate && (
+                  <div className="space-y-2">
+                    <Label>Operator Address</Label>
+                    <div className="flex gap-4">
+                      <Input
+                        type="text"
+                        placeholder="0x..."
+                        value={editForm.operator}
+                        onChange={(e) => setEditForm({ ...editForm, operator: e.target.value })}
+                        disabled={isUpdating !== null}
+                        className="bg-background/50 font-mono"
+                      />
+                      <Button
+                        variant="outline"
+                        onClick={() => handleChangeOperator(lot)}
+                        disabled={isUpdating !== null}
+                      >
+                        {isUpdating === `operator-${lot.id}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          "Change"
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {canOperate && (
+          <div className="pt-4 border-t border-border/40 space-y-4">
+            <p className="font-medium">Add Lot</p>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="lotName">Name</Label>
+                <Input
+                  id="lotName"
+                  placeholder="Downtown Garage"
+                  value={newLot.name}
+                  onChange={(e) => setNewLot({ ...newLot, name: e.target.value })}
+                  disabled={isUpdating !== null}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lotOperator">Operator Address</Label>
+                <Input
+                  id="lotOperator"
+                  placeholder="0x..."
+                  value={newLot.operator}
+                  onChange={(e) => setNewLot({ ...newLot, operator: e.target.value })}
+                  disabled={isUpdating !== null}
+                  className="bg-background/50 font-mono"
+                />
+              </div>
+            </div>
+            {renderFormFields(newLot, setNewLot, isUpdating !== null)}
+            <Button
+              onClick={handleAddLot}
+              disabled={isUpdating !== null}
+              className="bg-gradient-primary hover:opacity-90"
+            >
+              {isUpdating === "add" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Add Lot
+            </Button>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          Lot operators manage their own rate cards and receive their lots' fees. Rate changes are
+          announced at least {MIN_RATE_CHANGE_DELAY / 3600} hours ahead, like the default lot's;
+          scheduling again replaces a change that is not yet in effect. Tiers apply to the default
+          lot; the daily maximum and minimum charge apply to every lot.
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+export default LotManagementCard;
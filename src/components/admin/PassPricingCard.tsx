@@ -0,0 +1,129 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Ticket, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getPassPrice,
+  setPassPrice,
+  PASS_DURATION,
+  type ParkingLot,
+} from "@/lib/contract";
+
+interface PassPricingCardProps {
+  lots: ParkingLot[];
+  canManageRates: boolean;
+}
+
+const PASS_DAYS = PASS_DURATION / (24 * 60 * 60);
+
+const PassPricingCard = ({ lots, canManageRates }: PassPricingCardProps) => {
+  const [prices, setPrices] = useState<Record<number, string>>({}); // USD by lot
+  const [isUpdating, setIsUpdating] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPrices();
+  }, [lots]);
+
+  const loadPrices = async () => {
+    try {
+      const cents = await Promise.all(lots.map((lot) => getPassPrice(lot.id)));
+      setPrices(
+        Object.fromEntries(lots.map((lot, i) => [lot.id, (Number(cents[i]) / 100).toString()]))
+      );
+    } catch (error) {
+      console.error("Failed to load pass prices:", error);
+    }
+  };
+
+  const handleUpdate = async (lotId: number) => {
+    const cents = Math.round(parseFloat(prices[lotId]) * 100);
+    if (isNaN(cents) || cents < 0) {
+      toast({
+        title: "Invalid Price",
+        description: "Please enter a valid price (0 stops selling passes)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUpdating(lotId);
+    try {
+      const txHash = await setPassPrice(lotId, cents);
+      toast({
+        title: "Pass Price Updated",
+        description: (
+          <span>
+            Transaction:{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadPrices();
+    } catch (error: any) {
+      console.error("Failed to update pass price:", error);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Ticket className="h-5 w-5 text-primary" />
+        Monthly Passes
+      </h3>
+      <div className="space-y-4">
+        {lots.map((lot) => (
+          <div key={lot.id} className="space-y-2">
+            <Label htmlFor={`passPrice-${lot.id}`}>
+              {lot.name} (USD per {PASS_DAYS} days, 0 = not sold)
+            </Label>
+            <div className="flex gap-4">
+              <Input
+                id={`passPrice-${lot.id}`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={prices[lot.id] ?? ""}
+                onChange={(e) => setPrices((prev) => ({ ...prev, [lot.id]: e.target.value }))}
+                disabled={!canManageRates || isUpdating !== null || prices[lot.id] === undefined}
+                className="bg-background/50"
+              />
+              <Button
+                onClick={() => handleUpdate(lot.id)}
+                disabled={!canManageRates || isUpdating !== null || prices[lot.id] === undefined}
+                className="bg-gradient-primary hover:opacity-90"
+              >
+                {isUpdating === lot.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Update"}
+              </Button>
+            </div>
+          </div>
+        ))}
+        <p className="text-sm text-muted-foreground">
+          Passes are paid to the lot's fee recipient in the confidential payment token. While a
+          driver's pass is active, their quotes at that lot are an encrypted zero. Price changes
+          do not affect passes already sold, and a purchase at a stale price reverts.
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+export default PassPricingCard;
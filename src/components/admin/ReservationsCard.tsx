@@ -0,0 +1,263 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { publicDecryptBool } from "@/lib/fhe";
+import {
+  getLotCapacity,
+  setLotCapacity,
+  getPenaltyPerBlock,
+  setPenaltyPerBlock,
+  formatPrice,
+  getActiveReservationIds,
+  requestReservationRelease,
+  releaseReservation,
+  RESERVATIONS_ADDRESS,
+  type ParkingLot,
+} from "@/lib/contract";
+
+interface ReservationsCardProps {
+  lots: ParkingLot[];
+  canOperate: boolean;
+  isOwner: boolean;
+  walletAddress: string;
+}
+
+// Mirrors the uint16 capacity in ParkingReservations
+const MAX_CAPACITY = 65535;
+
+// Mirrors the penalty bound in ParkingReservations: price × uint16 max must fit a uint64
+const MAX_PENALTY_CENTS = Number((2n ** 64n - 1n) / 65535n);
+
+// Update key of the penalty field (lot ids key the capacity fields)
+const PENALTY = "penalty";
+
+const ReservationsCard = ({ lots, canOperate, isOwner, walletAddress }: ReservationsCardProps) => {
+  const [capacities, setCapacities] = useState<Record<number, string>>({}); // spots by lot
+  const [penalty, setPenalty] = useState<string | undefined>(); // USD per block
+  const [isUpdating, setIsUpdating] = useState<number | typeof PENALTY | null>(null);
+  const [releasingLot, setReleasingLot] = useState<number | null>(null);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (RESERVATIONS_ADDRESS) {
+      loadSettings();
+    }
+  }, [lots]);
+
+  const loadSettings = async () => {
+    try {
+      const [spots, penaltyCents] = await Promise.all([
+        Promise.all(lots.map((lot) => getLotCapacity(lot.id))),
+        getPenaltyPerBlock(),
+      ]);
+      setCapacities(Object.fromEntries(lots.map((lot, i) => [lot.id, spots[i].toString()])));
+      setPenalty((Number(penaltyCents) / 100).toString());
+    } catch (error) {
+      console.error("Failed to load reservation settings:", error);
+    }
+  };
+
+  // Capacity is set by the lot's operator or anyone with the operator role
+  const canEdit = (lot: ParkingLot) =>
+    canOperate || lot.operator.toLowerCase() === walletAddress.toLowerCase();
+
+  const handleUpdate = async (lotId: number) => {
+    const capacity = Number(capacities[lotId]);
+    if (!Number.isInteger(capacity) || capacity < 0 || capacity > MAX_CAPACITY) {
+      toast({
+        title: "Invalid Capacity",
+        description: `Please enter a whole number of spots up to ${MAX_CAPACITY} (0 = no reservations)`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runUpdate(lotId, "Capacity Updated", () => setLotCapacity(lotId, capacity));
+  };
+
+  const handlePenaltyUpdate = async () => {
+    const cents = Math.round(parseFloat(penalty ?? "") * 100);
+    if (isNaN(cents) || cents < 0 || cents > MAX_PENALTY_CENTS) {
+      toast({
+        title: "Invalid Penalty",
+        description: `Enter a price per block from 0 (none) to ${formatPrice(MAX_PENALTY_CENTS)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await runUpdate(PENALTY, "Overstay Penalty Updated", () => setPenaltyPerBlock(cents));
+  };
+
+  // Frees the slots of bookings that were never confirmed or whose window ended.
+  // Each needs a transaction to publish the encrypted check and one to release;
+  // anyone may do it, so the button is open to every connected wallet
+  const handleRelease = async (lotId: number) => {
+    setReleasingLot(lotId);
+    let released = 0;
+    try {
+      const ids = await getActiveReservationIds(lotId);
+      for (const id of ids) {
+        const handle = await requestReservationRelease(id);
+        const { value, cleartexts, decryptionProof } = await publicDecryptBool(handle);
+        if (value) {
+          await releaseReservation(id, cleartexts, decryptionProof);
+          released++;
+        }
+      }
+      toast({
+        title: "Bookings Released",
+        description: `Released ${released} of ${ids.length} open bookings`,
+      });
+    } catch (error) {
+      console.error("Failed to release bookings:", error);
+      toast({
+        title: "Release Failed",
+        description: `${(error as Error)?.message || "Transaction failed"} (${released} released)`,
+        variant: "destructive",
+      });
+    } finally {
+      setReleasingLot(null);
+    }
+  };
+
+  const runUpdate = async (
+    key: number | typeof PENALTY,
+    title: string,
+    send: () => Promise<string>
+  ) => {
+    setIsUpdating(key);
+    try {
+      const txHash = await send();
+      toast({
+        title,
+        description: (
+          <span>
+            Transaction:{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadSettings();
+    } catch (error: any) {
+      console.error("Failed to update reservation settings:", error);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  return (
+    <Card className="glass-card p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <CalendarCheck className="h-5 w-5 text-primary" />
+        Reservations
+      </h3>
+      {!RESERVATIONS_ADDRESS ? (
+        <p className="text-sm text-muted-foreground">
+          Set VITE_RESERVATIONS_ADDRESS to the deployed ParkingReservations contract to manage
+          reservations.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {lots.map((lot) => (
+            <div key={lot.id} className="space-y-2">
+              <Label htmlFor={`capacity-${lot.id}`}>
+                {lot.name} (reservable spots, 0 = no reservations)
+              </Label>
+              <div className="flex gap-4">
+                <Input
+                  id={`capacity-${lot.id}`}
+                  type="number"
+                  step="1"
+                  min="0"
+                  max={MAX_CAPACITY}
+                  value={capacities[lot.id] ?? ""}
+                  onChange={(e) =>
+                    setCapacities((prev) => ({ ...prev, [lot.id]: e.target.value }))
+                  }
+                  disabled={
+                    !canEdit(lot) || isUpdating !== null || capacities[lot.id] === undefined
+                  }
+                  className="bg-background/50"
+                />
+                <Button
+                  onClick={() => handleUpdate(lot.id)}
+                  disabled={
+                    !canEdit(lot) || isUpdating !== null || capacities[lot.id] === undefined
+                  }
+                  className="bg-gradient-primary hover:opacity-90"
+                >
+                  {isUpdating === lot.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Update"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleRelease(lot.id)}
+                  disabled={releasingLot !== null}
+                >
+                  {releasingLot === lot.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Release Unused"
+                  )}
+                </Button>
+              </div>
+            </div>
+          ))}
+          <p className="text-sm text-muted-foreground">
+            Drivers book a start time and duration in advance, both encrypted. A booking is
+            confirmed only while fewer confirmed bookings than the capacity overlap it, and it is
+            priced with the lot's current rates and paid in the payment token when booked. Lowering
+            the capacity does not cancel bookings already confirmed. Release Unused frees the slots
+            of bookings that were unavailable, unpaid or whose window ended.
+          </p>
+          <div className="space-y-2 pt-4 border-t border-border/40">
+            <Label htmlFor="overstayPenalty">Overstay penalty (USD per block, 0 = none)</Label>
+            <div className="flex gap-4">
+              <Input
+                id="overstayPenalty"
+                type="number"
+                step="0.01"
+                min="0"
+                value={penalty ?? ""}
+                onChange={(e) => setPenalty(e.target.value)}
+                disabled={!isOwner || isUpdating !== null || penalty === undefined}
+                className="bg-background/50"
+              />
+              <Button
+                onClick={handlePenaltyUpdate}
+                disabled={!isOwner || isUpdating !== null || penalty === undefined}
+                className="bg-gradient-primary hover:opacity-90"
+              >
+                {isUpdating === PENALTY ? <Loader2 className="h-4 w-4 animate-spin" /> : "Update"}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Drivers who check out after their reserved end pay this price for every started
+              block (of the lot's block size) beyond it, computed on the encrypted times. Only the
+              owner can change it.
+            </p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default ReservationsCard;
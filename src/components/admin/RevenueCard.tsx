@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { ZeroHash } from "ethers";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Coins, Loader2, RefreshCw, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { userDecryptUint64 } from "@/lib/fhe";
+import {
+  getRevenue,
+  getLotRevenue,
+  getLotPeriodRevenue,
+  getCurrentRevenuePeriod,
+  getSigner,
+  formatPrice,
+  CONTRACT_ADDRESS,
+  type ParkingLot,
+  type RevenueTotal,
+} from "@/lib/contract";
+
+interface RevenueCardProps {
+  lots: ParkingLot[];
+  isOwner: boolean;
+  walletAddress: string;
+}
+
+// One table row: lifetime and current-day totals of a scope
+interface RevenueRow {
+  key: string;
+  label: string;
+  lifetime: RevenueTotal;
+  today: RevenueTotal | null; // Not tracked across all lots
+}
+
+const RevenueCard = ({ lots, isOwner, walletAddress }: RevenueCardProps) => {
+  const [rows, setRows] = useState<RevenueRow[]>([]);
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [decryptingHandle, setDecryptingHandle] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { toast } = useToast();
+
+  // Lots whose revenue this wallet can decrypt
+  // (the default lot's payee is the fee recipient, reported as its operator)
+  const readableLots = lots.filter(
+    (lot) => isOwner || lot.operator.toLowerCase() === walletAddress.toLowerCase()
+  );
+
+  useEffect(() => {
+    loadRevenue();
+  }, [lots, isOwner, walletAddress]);
+
+  const loadRevenue = async () => {
+    setIsLoading(true);
+    try {
+      const period = await getCurrentRevenuePeriod();
+      const lotRows = await Promise.all(
+        readableLots.map(async (lot) => {
+          const [lifetime, today] = await Promise.all([
+            getLotRevenue(lot.id),
+            getLotPeriodRevenue(lot.id, period),
+          ]);
+          return { key: `lot-${lot.id}`, label: lot.name, lifetime, today };
+        })
+      );
+      const totalRow = isOwner
+        ? [{ key: "total", label: "All lots", lifetime: await getRevenue(), today: null }]
+        : [];
+      setRows([...totalRow, ...lotRows]);
+    } catch (error) {
+      console.error("Failed to load revenue:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load revenue totals",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDecrypt = async (handle: string) => {
+    setDecryptingHandle(handle);
+    try {
+      const signer = await getSigner();
+      const cents = await userDecryptUint64(handle, CONTRACT_ADDRESS, signer);
+      setDecrypted((prev) => ({ ...prev, [handle]: cents }));
+    } catch (error: any) {
+      console.error("Failed to decrypt revenue:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt revenue",
+        variant: "destructive",
+      });
+    } finally {
+      setDecryptingHandle(null);
+    }
+  };
+
+  const renderAmount = (total: RevenueTotal) => {
+    if (total.amountHandle === ZeroHash) {
+      return <span className="text-muted-foreground">{formatPrice(0)}</span>;
+    }
+    const cents = decrypted[total.amountHandle];
+    if (cents !== undefined) {
+      return <span className="font-semibold">{formatPrice(cents)}</span>;
+    }
+    return (
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => handleDecrypt(total.amountHandle)}
+        disabled={decryptingHandle !== null}
+      >
+        {decryptingHandle === total.amountHandle ? (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        ) : (
+          <>
+            <Unlock className="mr-1 h-3 w-3" />
+            Decrypt
+          </>
+        )}
+      </Button>
+    );
+  };
+
+  if (!isOwner && readableLots.length === 0) return null;
+
+  return (
+    <Card className="glass-card p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Coins className="h-5 w-5 text-primary" />
+          Revenue
+        </h3>
+        <Button variant="ghost" size="sm" onClick={loadRevenue} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {isLoading && rows.length === 0 ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Scope</TableHead>
+              <TableHead className="text-right">Quotes</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">Today</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.lifetime.quotes}</TableCell>
+                <TableCell className="text-right">{renderAmount(row.lifetime)}</TableCell>
+                <TableCell className="text-right">
+                  {row.today ? (
+                    <span className="inline-flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{row.today.quotes} ×</span>
+                      {renderAmount(row.today)}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">--</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <p className="text-sm text-muted-foreground mt-4">
+        Totals of quoted fees (quotes and check-outs), summed under encryption. Only aggregates
+        are decryptable here; individual fees stay private to each driver. "Today" is the current
+        UTC day.
+      </p>
+    </Card>
+  );
+};
+
+export default RevenueCard;
@@ -0,0 +1,237 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { KeyRound, Loader2, RefreshCw, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getRoleHolders,
+  grantRole,
+  revokeRole,
+  type RoleName,
+} from "@/lib/contract";
+
+interface RolesCardProps {
+  isOwner: boolean;
+}
+
+const ROLE_LABELS: Record<RoleName, { title: string; description: string }> = {
+  rateManager: {
+    title: "Rate Manager",
+    description: "Price, block size, tiers, fee limits, vehicle classes and pass prices",
+  },
+  pauser: {
+    title: "Pauser",
+    description: "Emergency pause of quoting and payments",
+  },
+  operator: {
+    title: "Operator",
+    description: "Lot registry and every lot's rate card",
+  },
+  merchant: {
+    title: "Merchant",
+    description: "Validations (free minutes, discounts) for drivers' next quote",
+  },
+};
+
+const ROLE_NAMES = Object.keys(ROLE_LABELS) as RoleName[];
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const txDescription = (txHash: string) => (
+  <span>
+    Transaction:{" "}
+    <a
+      href={`https://sepolia.etherscan.io/tx/${txHash}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="underline"
+    >
+      View on Etherscan
+    </a>
+  </span>
+);
+
+const RolesCard = ({ isOwner }: RolesCardProps) => {
+  const [holders, setHolders] = useState<Record<RoleName, string[]> | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUpdating, setIsUpdating] = useState<string | null>(null);
+  const [newRole, setNewRole] = useState<RoleName>("rateManager");
+  const [newAccount, setNewAccount] = useState("");
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadHolders();
+  }, []);
+
+  const loadHolders = async () => {
+    setIsLoading(true);
+    try {
+      setHolders(await getRoleHolders());
+    } catch (error) {
+      console.error("Failed to load role holders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load role holders",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runUpdate = async (key: string, title: string, action: () => Promise<string>) => {
+    setIsUpdating(key);
+    try {
+      const txHash = await action();
+      toast({ title, description: txDescription(txHash) });
+      await loadHolders();
+      return true;
+    } catch (error: any) {
+      console.error(`Failed: ${title}`, error);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  const handleGrant = async () => {
+    if (!newAccount.startsWith("0x") || newAccount.length !== 42) {
+      toast({
+        title: "Invalid Address",
+        description: "Please enter a valid Ethereum address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const granted = await runUpdate("grant", `${ROLE_LABELS[newRole].title} Granted`, () =>
+      grantRole(newRole, newAccount)
+    );
+    if (granted) setNewAccount("");
+  };
+
+  const handleRevoke = async (role: RoleName, account: string) => {
+    await runUpdate(`revoke-${role}-${account}`, `${ROLE_LABELS[role].title} Revoked`, () =>
+      revokeRole(role, account)
+    );
+  };
+
+  return (
+    <Card className="glass-card p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <KeyRound className="h-5 w-5 text-primary" />
+          Roles
+        </h3>
+        <Button variant="ghost" size="sm" onClick={loadHolders} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      <div className="space-y-4">
+        {ROLE_NAMES.map((role) => (
+          <div key={role} className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-2">
+            <div>
+              <p className="font-semibold">{ROLE_LABELS[role].title}</p>
+              <p className="text-sm text-muted-foreground">{ROLE_LABELS[role].description}</p>
+            </div>
+            {holders === null ? (
+              <p className="text-sm text-muted-foreground">--</p>
+            ) : holders[role].length === 0 ? (
+              <p className="text-sm text-muted-foreground">No holders besides the owner</p>
+            ) : (
+              <ul className="space-y-1">
+                {holders[role].map((account) => (
+                  <li key={account} className="flex items-center justify-between text-sm">
+                    <a
+                      href={`https://sepolia.etherscan.io/address/${account}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-primary hover:underline"
+                    >
+                      {formatAddress(account)}
+                    </a>
+                    {isOwner && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRevoke(role, account)}
+                        disabled={isUpdating !== null}
+                      >
+                        {isUpdating === `revoke-${role}-${account}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <X className="h-4 w-4" />
+                        )}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        {isOwner && (
+          <div className="pt-4 border-t border-border/40 space-y-2">
+            <Label htmlFor="roleAccount">Grant Role</Label>
+            <div className="flex gap-4">
+              <Select
+                value={newRole}
+                onValueChange={(value) => setNewRole(value as RoleName)}
+                disabled={isUpdating !== null}
+              >
+                <SelectTrigger className="w-44 bg-background/50">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLE_NAMES.map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {ROLE_LABELS[role].title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id="roleAccount"
+                type="text"
+                placeholder="0x..."
+                value={newAccount}
+                onChange={(e) => setNewAccount(e.target.value)}
+                disabled={isUpdating !== null}
+                className="bg-background/50 font-mono"
+              />
+              <Button
+                onClick={handleGrant}
+                disabled={isUpdating !== null}
+                className="bg-gradient-primary hover:opacity-90"
+              >
+                {isUpdating === "grant" ? <Loader2 className="h-4 w-4 animate-spin" /> : "Grant"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          The owner holds every role. Only the owner can grant or revoke roles.
+        </p>
+      </div>
+    </Card>
+  );
+};
+
+export default RolesCard;
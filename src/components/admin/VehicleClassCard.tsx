@@ -0,0 +1,51 @@
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Car } from "lucide-react";
+import { MAX_CLASS_MULTIPLIER, VEHICLE_CLASSES } from "@/lib/contract";
+import { MULTIPLIER_BASE } from "@/lib/pricing";
+
+interface VehicleClassCardProps {
+  factors: string[]; // Draft multipliers, scheduled with the rate change
+  onChange: (factors: string[]) => void;
+  disabled: boolean;
+}
+
+// Multipliers are edited as factors ("1.5") and stored in basis points
+const toFactor = (bps: number) => (bps / MULTIPLIER_BASE).toString();
+
+const VehicleClassCard = ({ factors, onChange, disabled }: VehicleClassCardProps) => (
+  <Card className="glass-card p-6 mb-6">
+    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+      <Car className="h-5 w-5 text-primary" />
+      Vehicle Classes
+    </h3>
+    <div className="space-y-4">
+      {VEHICLE_CLASSES.map((vc) => (
+        <div key={vc.id} className="space-y-2">
+          <Label htmlFor={`classMultiplier-${vc.id}`}>{vc.label} (fee multiplier)</Label>
+          <Input
+            id={`classMultiplier-${vc.id}`}
+            type="number"
+            step="0.05"
+            min="0"
+            max={toFactor(MAX_CLASS_MULTIPLIER)}
+            value={factors[vc.id] ?? ""}
+            onChange={(e) => onChange(factors.map((f, i) => (i === vc.id ? e.target.value : f)))}
+            disabled={disabled || factors.length === 0}
+            className="bg-background/50"
+          />
+        </div>
+      ))}
+      <p className="text-sm text-muted-foreground">
+        Drivers submit their vehicle class encrypted with the duration; the contract selects the
+        multiplier homomorphically, so the class is never revealed. The multiplier applies to
+        the final fee (after the daily maximum and minimum charge). Quotes without a class,
+        check-outs and batch quotes are billed at 1x. New multipliers are scheduled with the
+        rate change below.
+      </p>
+    </div>
+  </Card>
+);
+
+export default VehicleClassCard;
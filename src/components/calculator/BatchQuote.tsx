@@ -0,0 +1,425 @@
+import { useRef, useState, type ChangeEvent, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, ExternalLink, FileUp, Layers, Loader2, Lock, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCalculateBatchFee } from "@/hooks/useFHE";
+import { userDecryptUint64Batch } from "@/lib/fhe";
+import { getSigner, formatPrice, CONTRACT_ADDRESS } from "@/lib/contract";
+import { maxBatchSize, simulateQuote, type FeeRules } from "@/lib/pricing";
+
+interface BatchQuoteProps {
+  walletAddress: string; // Empty unless connected to Sepolia
+  lotId: number;
+  rules: FeeRules | null;
+  rateVersion: number | null; // Version of the displayed rules, see quoteRateVersion
+  isPaused: boolean;
+  onQuoted: () => void; // The part's total replaced the last fee
+  children?: ReactNode; // Payment controls for the latest part's total
+}
+
+interface ParsedStays {
+  stays: number[];
+  errors: string[];
+}
+
+interface DecryptedBatch {
+  fees: bigint[];
+  total: bigint;
+}
+
+// One transaction of a batch split to fit the per-transaction HCU limit
+interface QuotedPart {
+  stays: number[];
+  feeHandles: string[];
+  totalHandle: string;
+  txHash: string;
+  decrypted: DecryptedBatch | null;
+}
+
+// A stay written as "90" (minutes), "1:30" (h:mm) or "1h 30m"
+const parseDuration = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+  if (/^\d+$/.test(value)) return parseInt(value);
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return parseInt(clock[1]) * 60 + parseInt(clock[2]);
+
+  const units = value.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/);
+  if (units && (units[1] || units[2])) {
+    return parseInt(units[1] ?? "0") * 60 + parseInt(units[2] ?? "0");
+  }
+  return null;
+};
+
+// Consecutive parts of at most `size` stays
+const splitStays = (stays: number[], size: number): number[][] =>
+  Array.from({ length: Math.ceil(stays.length / size) }, (_, i) =>
+    stays.slice(i * size, (i + 1) * size)
+  );
+
+// One stay per line. CSV rows use their "minutes"/"duration" column if the
+// header names one, otherwise the first cell that reads as a duration.
+const parseStays = (text: string): ParsedStays => {
+  const stays: number[] = [];
+  const errors: string[] = [];
+  let column: number | null = null;
+  let isFirstRow = true;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1"));
+    const minutes =
+      column !== null
+        ? parseDuration(cells[column] ?? "")
+        : cells.map(parseDuration).find((value) => value !== null) ?? null;
+
+    if (minutes === null) {
+      if (isFirstRow) {
+        // Header row
+        const named = cells.findIndex((cell) => /minute|duration/i.test(cell));
+        column = named >= 0 ? named : null;
+      } else {
+        errors.push(`Line ${i + 1}: no duration found`);
+      }
+    } else if (minutes <= 0) {
+      errors.push(`Line ${i + 1}: duration must be greater than 0`);
+    } else {
+      stays.push(minutes);
+    }
+    isFirstRow = false;
+  });
+
+  return { stays, errors };
+};
+
+const BatchQuote = ({
+  walletAddress,
+  lotId,
+  rules,
+  rateVersion,
+  isPaused,
+  onQuoted,
+  children,
+}: BatchQuoteProps) => {
+  const [text, setText] = useState("");
+  const [plan, setPlan] = useState<number[][] | null>(null); // Parts, fixed by the first quote
+  const [quotedParts, setQuotedParts] = useState<QuotedPart[]>([]);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+  const { isCalculating, error, calculateBatchFee, reset } = useCalculateBatchFee();
+
+  const { stays, errors } = parseStays(text);
+  // Stays per transaction at the displayed rules; larger batches revert
+  const batchSize = rules ? maxBatchSize(rules) : 0;
+  const parts = plan ?? (batchSize > 0 ? splitStays(stays, batchSize) : []);
+  const nextPart = plan ? plan[quotedParts.length] : parts[0];
+  const isDone = plan !== null && quotedParts.length === plan.length;
+
+  const handleLoadFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setText(await file.text());
+    }
+    e.target.value = "";
+  };
+
+  // Decrypt every part not revealed yet with one signature
+  const handleReveal = async (quoted: QuotedPart[]) => {
+    const hidden = quoted.filter((part) => !part.decrypted);
+    if (hidden.length === 0) return;
+    setIsDecrypting(true);
+    try {
+      const signer = await getSigner();
+      const values = await userDecryptUint64Batch(
+        hidden.flatMap((part) => [...part.feeHandles, part.totalHandle]),
+        CONTRACT_ADDRESS,
+        signer
+      );
+      let offset = 0;
+      const revealed = new Map<QuotedPart, DecryptedBatch>();
+      for (const part of hidden) {
+        const count = part.feeHandles.length;
+        revealed.set(part, {
+          fees: values.slice(offset, offset + count),
+          total: values[offset + count],
+        });
+        offset += count + 1;
+      }
+      setQuotedParts((current) =>
+        current.map((part) => ({
+          ...part,
+          decrypted: part.decrypted ?? revealed.get(part) ?? null,
+        }))
+      );
+    } catch (error: any) {
+      console.error("Failed to decrypt batch:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt fees",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleQuote = async () => {
+    if (!plan && (stays.length === 0 || errors.length > 0)) {
+      toast({
+        title: "Invalid Input",
+        description: "Please enter at least one valid parking duration per line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!nextPart || rateVersion === null) {
+      toast({
+        title: "Rates Not Loaded",
+        description: rules
+          ? "The current rates are too costly to quote in a batch"
+          : "Please wait for the current rates to load",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!walletAddress) {
+      toast({
+        title: "Wallet Not Connected",
+        description: "Please connect your wallet to Sepolia first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const batch = await calculateBatchFee(nextPart, walletAddress, lotId, rateVersion);
+    if (batch) {
+      const quoted = [...quotedParts, { stays: nextPart, ...batch, decrypted: null }];
+      setPlan(parts);
+      setQuotedParts(quoted);
+      onQuoted();
+      toast({
+        title: "Encrypted Fees Ready",
+        description:
+          parts.length > 1
+            ? `Part ${quoted.length} of ${parts.length} quoted (${nextPart.length} stays)`
+            : `${nextPart.length} stays quoted in one transaction`,
+      });
+
+      await handleReveal(quoted);
+    }
+  };
+
+  const handleReset = () => {
+    setText("");
+    setPlan(null);
+    setQuotedParts([]);
+    reset();
+  };
+
+  const estimateOf = (minutes: number) =>
+    rules ? simulateQuote(BigInt(minutes), rules).fee : null;
+
+  const quotedStays = quotedParts.flatMap((part) => part.stays);
+  const estimatedTotal = rules
+    ? quotedStays.reduce((sum, minutes) => sum + (estimateOf(minutes) ?? 0n), 0n)
+    : null;
+  const decryptedFees = quotedParts.flatMap((part) => part.decrypted?.fees ?? []);
+  const isRevealed = quotedParts.every((part) => part.decrypted);
+  const decryptedTotal = quotedParts.reduce((sum, part) => sum + (part.decrypted?.total ?? 0n), 0n);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label htmlFor="batchStays">Stays</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            disabled={isCalculating || plan !== null}
+          >
+            <FileUp className="mr-2 h-4 w-4" />
+            Load CSV
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleLoadFile}
+          />
+        </div>
+        <Textarea
+          id="batchStays"
+          rows={8}
+          placeholder={"90\n1:45\n2h 30m\n\nor paste a CSV with a minutes / duration column"}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="bg-background/50 font-mono"
+          disabled={isCalculating || plan !== null}
+        />
+        <p className="text-sm text-muted-foreground">
+          {stays.length} {stays.length === 1 ? "stay" : "stays"}
+          {batchSize > 0 &&
+            ` (up to ${batchSize} per transaction at these rates` +
+              (parts.length > 1 ? `, quoted in ${parts.length} parts)` : ")")}
+          . A merchant validation applies to the first stay only.
+        </p>
+        {rules && batchSize === 0 && (
+          <p className="text-sm text-red-400">
+            A quote at these rates is too costly to batch; use single quotes.
+          </p>
+        )}
+        {errors.length > 0 && (
+          <ul className="text-sm text-red-400 space-y-1">
+            {errors.slice(0, 5).map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+            {errors.length > 5 && <li>…and {errors.length - 5} more</li>}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <Alert className="border-red-500/50 bg-red-500/10">
+          <AlertCircle className="h-4 w-4 text-red-500" />
+          <AlertDescription className="text-red-400">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-4">
+        <Button
+          onClick={handleQuote}
+          disabled={
+            isCalculating || isPaused || !walletAddress || !CONTRACT_ADDRESS || !nextPart || isDone
+          }
+          className="flex-1 bg-gradient-primary hover:opacity-90"
+        >
+          {isCalculating ? (
+            <>
+              <Lock className="mr-2 h-4 w-4 animate-pulse" />
+              Encrypting & Computing...
+            </>
+          ) : (
+            <>
+              <Layers className="mr-2 h-4 w-4" />
+              {parts.length > 1
+                ? `Quote Part ${Math.min(quotedParts.length + 1, parts.length)} of ${parts.length}`
+                : `Quote ${stays.length > 0 ? stays.length : ""} Stays`}
+            </>
+          )}
+        </Button>
+        <Button
+          onClick={handleReset}
+          variant="outline"
+          disabled={isCalculating || isDecrypting}
+        >
+          Reset
+        </Button>
+      </div>
+
+      {quotedParts.length > 0 && (
+        <div className="p-6 rounded-xl bg-gradient-primary/10 border border-primary/20 space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead className="text-right">Estimate</TableHead>
+                <TableHead className="text-right">Fee</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quotedStays.map((minutes, i) => {
+                const estimate = estimateOf(minutes);
+                return (
+                  <TableRow key={i}>
+                    <TableCell className="text-muted-foreground">{i + 1}</TableCell>
+                    <TableCell>{minutes} min</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {estimate !== null ? formatPrice(estimate) : "--"}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {i < decryptedFees.length ? formatPrice(decryptedFees[i]) : "Encrypted"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {estimatedTotal !== null ? formatPrice(estimatedTotal) : "--"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {isRevealed ? (
+                    <span className="text-lg font-bold gradient-text">
+                      {formatPrice(decryptedTotal)}
+                    </span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleReveal(quotedParts)}
+                      disabled={isDecrypting}
+                    >
+                      {isDecrypting ? (
+                        <Loader2 className="h-3 w-3 animate-spin" />
+                      ) : (
+                        <>
+                          <Unlock className="mr-1 h-3 w-3" />
+                          Reveal Fees
+                        </>
+                      )}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+
+          {quotedParts.map((part, i) => (
+            <p key={part.txHash} className="text-sm text-muted-foreground">
+              {quotedParts.length > 1 ? `Part ${i + 1}` : "Transaction"}:{" "}
+              <a
+                href={`https://sepolia.etherscan.io/tx/${part.txHash}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary hover:underline inline-flex items-center gap-1"
+              >
+                {part.txHash.slice(0, 10)}...{part.txHash.slice(-8)}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+              {part.decrypted && ` (${formatPrice(part.decrypted.total)})`}
+            </p>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Each fee is added to your quote history. The encrypted total of each transaction is your
+            last fee and is settled with a single payment
+            {parts.length > 1 && "; pay it before quoting the next part, which replaces it"}.
+          </p>
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQuote;
@@ -0,0 +1,110 @@
+import { useState, useEffect } from "react";
+import { ZeroHash } from "ethers";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { BadgePercent, Loader2, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { userDecryptUint64Batch } from "@/lib/fhe";
+import { getMyValidationHandles, getSigner, CONTRACT_ADDRESS } from "@/lib/contract";
+
+interface PendingValidationsProps {
+  walletAddress: string;
+  refreshKey?: number; // Changes whenever a new fee may have used the validation
+}
+
+const PendingValidations = ({ walletAddress, refreshKey }: PendingValidationsProps) => {
+  const [minutesHandle, setMinutesHandle] = useState<string | null>(null);
+  const [percentHandle, setPercentHandle] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<{ minutes: bigint; percent: bigint } | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadValidation();
+  }, [walletAddress, refreshKey]);
+
+  const loadValidation = async () => {
+    try {
+      const handles = await getMyValidationHandles();
+      if (handles.minutesHandle !== minutesHandle) {
+        setMinutesHandle(handles.minutesHandle);
+        setPercentHandle(handles.percentHandle);
+        setRevealed(null);
+      }
+    } catch (error) {
+      console.error("Failed to load pending validation:", error);
+    }
+  };
+
+  const handleReveal = async () => {
+    if (!minutesHandle || !percentHandle) return;
+
+    setIsDecrypting(true);
+    try {
+      const signer = await getSigner();
+      const [minutes, percent] = await userDecryptUint64Batch(
+        [minutesHandle, percentHandle],
+        CONTRACT_ADDRESS,
+        signer
+      );
+      setRevealed({ minutes, percent });
+    } catch (error: any) {
+      console.error("Failed to decrypt validation:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt validation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  // Nothing pending (never validated, or used by the last quote)
+  if (!minutesHandle || minutesHandle === ZeroHash) {
+    return null;
+  }
+
+  return (
+    <Card className="glass-card p-6 mb-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <BadgePercent className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold">Pending Validation</h3>
+            {revealed ? (
+              <p className="font-semibold">
+                {revealed.minutes > 0n && `${revealed.minutes.toString()} free minutes`}
+                {revealed.minutes > 0n && revealed.percent > 0n && " + "}
+                {revealed.percent > 0n && `${revealed.percent.toString()}% off`}
+                {revealed.minutes === 0n && revealed.percent === 0n && "No credit"}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                A merchant validated your parking. The amount is encrypted.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Applied to your next quote or check-out; the estimate does not include it.
+            </p>
+          </div>
+        </div>
+        {!revealed && (
+          <Button variant="outline" onClick={handleReveal} disabled={isDecrypting}>
+            {isDecrypting ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Unlock className="mr-2 h-4 w-4" />
+            )}
+            Reveal
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default PendingValidations;
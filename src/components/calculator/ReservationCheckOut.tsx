@@ -0,0 +1,172 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarCheck, Loader2, LogOut } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getMyReservations,
+  getPenaltyPerBlock,
+  checkOutReservation,
+  isPaymentOperatorApproved,
+  approvePaymentOperator,
+  formatPrice,
+  RESERVATIONS_ADDRESS,
+  RESERVATION_OPERATOR_DURATION,
+  type ParkingLot,
+  type Reservation,
+} from "@/lib/contract";
+
+// A finished reservation check-out, shown in the Calculator's result panel
+export interface ReservationCheckout {
+  id: number;
+  lotId: number;
+  txHash: string;
+  feeHandle: string; // Reserved fee, cents
+  penaltyHandle: string; // Overstay penalty, cents
+  penaltyPaidHandle: string; // Penalty charged in the payment token, cents (empty if none)
+  penaltyPerBlock: bigint; // Price the penalty was billed at, cents
+}
+
+interface ReservationCheckOutProps {
+  walletAddress: string;
+  lots: ParkingLot[];
+  isPaused: boolean;
+  onCheckedOut: (checkout: ReservationCheckout) => void;
+}
+
+const ReservationCheckOut = ({ walletAddress, lots, isPaused, onCheckedOut }: ReservationCheckOutProps) => {
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [penaltyPerBlock, setPenaltyPerBlock] = useState(0n);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadReservations();
+  }, [walletAddress]);
+
+  const loadReservations = async () => {
+    try {
+      const [mine, penalty] = await Promise.all([getMyReservations(), getPenaltyPerBlock()]);
+      const active = mine.filter((r) => r.active);
+      setReservations(active);
+      setPenaltyPerBlock(penalty);
+      setSelectedId((prev) =>
+        prev !== null && active.some((r) => r.id === prev) ? prev : active[0]?.id ?? null
+      );
+    } catch (error) {
+      console.error("Failed to load reservations:", error);
+    }
+  };
+
+  const handleCheckOut = async () => {
+    const reservation = reservations.find((r) => r.id === selectedId);
+    if (!reservation) return;
+
+    setIsCheckingOut(true);
+    try {
+      // The penalty is charged from the token balance; renew a lapsed approval
+      if (
+        penaltyPerBlock > 0n &&
+        !(await isPaymentOperatorApproved(walletAddress, RESERVATIONS_ADDRESS))
+      ) {
+        await approvePaymentOperator(RESERVATION_OPERATOR_DURATION, RESERVATIONS_ADDRESS);
+      }
+      const { txHash, penaltyHandle, penaltyPaidHandle } = await checkOutReservation(
+        reservation.id
+      );
+      toast({
+        title: "Checked Out",
+        description: `Penalty handle: ${penaltyHandle.slice(0, 10)}...`,
+      });
+      onCheckedOut({
+        id: reservation.id,
+        lotId: reservation.lotId,
+        txHash,
+        feeHandle: reservation.feeHandle,
+        penaltyHandle,
+        penaltyPaidHandle,
+        penaltyPerBlock,
+      });
+      await loadReservations();
+    } catch (error: any) {
+      console.error("Failed to check out of reservation:", error);
+      toast({
+        title: "Check-Out Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  const lotName = (id: number) => lots.find((lot) => lot.id === id)?.name ?? `Lot #${id}`;
+
+  if (reservations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="glass-card p-6 mb-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <CalendarCheck className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold">Reserved Spot</h3>
+            <p className="text-sm text-muted-foreground">
+              Check out when leaving a reserved spot.
+              {penaltyPerBlock > 0n &&
+                ` Each started block past your reserved end costs ${formatPrice(penaltyPerBlock)}` +
+                  ", charged in the payment token."}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {reservations.length > 1 && (
+            <Select
+              value={selectedId?.toString() ?? ""}
+              onValueChange={(value) => setSelectedId(Number(value))}
+              disabled={isCheckingOut}
+            >
+              <SelectTrigger className="w-48 bg-background/50">
+                <SelectValue placeholder="Select a reservation" />
+              </SelectTrigger>
+              <SelectContent>
+                {reservations.map((r) => (
+                  <SelectItem key={r.id} value={r.id.toString()}>
+                    #{r.id} · {lotName(r.lotId)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            onClick={handleCheckOut}
+            disabled={isCheckingOut || isPaused || selectedId === null}
+            variant="outline"
+          >
+            {isCheckingOut ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <LogOut className="mr-2 h-4 w-4" />
+            )}
+            Check Out
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ReservationCheckOut;
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { isAddress } from "ethers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Loader2, Share2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getMyQuotes, shareQuote, CONTRACT_ADDRESS } from "@/lib/contract";
+
+interface ShareQuoteProps {
+  feeHandle: string;
+  walletAddress: string;
+}
+
+// Remember the last viewer so recurring expense reports need no retyping
+function storageKey(userAddress: string): string {
+  return `cipherpark:shareViewer:${CONTRACT_ADDRESS.toLowerCase()}:${userAddress.toLowerCase()}`;
+}
+
+const ShareQuote = ({ feeHandle, walletAddress }: ShareQuoteProps) => {
+  const [open, setOpen] = useState(false);
+  const [viewer, setViewer] = useState(
+    () => window.localStorage.getItem(storageKey(walletAddress)) ?? ""
+  );
+  const [isSharing, setIsSharing] = useState(false);
+
+  const { toast } = useToast();
+
+  const handleShare = async () => {
+    if (!isAddress(viewer) || viewer.toLowerCase() === walletAddress.toLowerCase()) {
+      toast({
+        title: "Invalid Address",
+        description: "Please enter your employer's wallet address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSharing(true);
+    try {
+      // Locate the fee in the on-chain history
+      const quotes = await getMyQuotes();
+      const quote = quotes.find((q) => q.feeHandle.toLowerCase() === feeHandle.toLowerCase());
+      if (!quote) {
+        throw new Error("Fee not found in your quote history");
+      }
+
+      const txHash = await shareQuote(quote.index, viewer);
+      window.localStorage.setItem(storageKey(walletAddress), viewer);
+      setOpen(false);
+      toast({
+        title: "Fee Shared",
+        description: (
+          <span>
+            {viewer.slice(0, 6)}...{viewer.slice(-4)} can now decrypt this fee.{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+    } catch (error: any) {
+      console.error("Failed to share fee:", error);
+      toast({
+        title: "Sharing Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="mr-2 h-4 w-4" />
+          Share with employer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share Fee for Reimbursement</DialogTitle>
+          <DialogDescription>
+            Grants one address permission to decrypt this fee. It stays encrypted for everyone
+            else, and the grant cannot be revoked.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="shareViewer">Employer address</Label>
+          <Input
+            id="shareViewer"
+            placeholder="0x..."
+            value={viewer}
+            onChange={(e) => setViewer(e.target.value.trim())}
+            disabled={isSharing}
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            They can review every fee shared with them on the Shared Fees page.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleShare}
+            disabled={isSharing || !viewer}
+            className="bg-gradient-primary hover:opacity-90"
+          >
+            {isSharing ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sharing...
+              </>
+            ) : (
+              "Share Fee"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareQuote;
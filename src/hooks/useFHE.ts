@@ -7,9 +7,18 @@ import {
   initializeFHE,
   isFHEInitialized,
   encryptParkingMinutes,
+  encryptParkingMinutesWithClass,
+  encryptParkingMinutesBatch,
+  decryptFee as decryptFeeHandle,
   type FheInstance,
 } from '@/lib/fhe';
-import { CONTRACT_ADDRESS, callQuote } from '@/lib/contract';
+import {
+  CONTRACT_ADDRESS,
+  callQuote,
+  callQuoteBatch,
+  getMyFeeHandle,
+  getSigner,
+} from '@/lib/contract';
 
 interface FHEState {
   isInitialized: boolean;
@@ -76,7 +85,10 @@ export function useCalculateFee() {
 
   const calculateFee = useCallback(async (
     minutes: number,
-    userAddress: string
+    userAddress: string,
+    lotId: number,
+    expectedRateVersion: number,
+    vehicleClass?: number
   ): Promise<CalculateFeeResult | null> => {
     if (!CONTRACT_ADDRESS) {
       setState(prev => ({
@@ -97,17 +109,35 @@ export function useCalculateFee() {
       // Step 1: Initialize FHE if needed
       await initializeFHE();
 
-      // Step 2: Encrypt parking minutes
+      // Step 2: Encrypt parking minutes (and the vehicle class, in the same input)
       console.log('[useCalculateFee] Encrypting minutes:', minutes);
-      const { handle, inputProof } = await encryptParkingMinutes(
-        minutes,
-        CONTRACT_ADDRESS,
-        userAddress
-      );
+      let handle: string;
+      let classHandle: string | undefined;
+      let inputProof: string;
+      if (vehicleClass === undefined) {
+        ({ handle, inputProof } = await encryptParkingMinutes(
+          minutes,
+          CONTRACT_ADDRESS,
+          userAddress
+        ));
+      } else {
+        ({ minutesHandle: handle, classHandle, inputProof } = await encryptParkingMinutesWithClass(
+          minutes,
+          vehicleClass,
+          CONTRACT_ADDRESS,
+          userAddress
+        ));
+      }
 
       // Step 3: Call smart contract
       console.log('[useCalculateFee] Calling contract...');
-      const { txHash, feeHandle } = await callQuote(handle, inputProof);
+      const { txHash, feeHandle } = await callQuote(
+        handle,
+        inputProof,
+        lotId,
+        expectedRateVersion,
+        classHandle
+      );
 
       const result: CalculateFeeResult = {
         feeHandle,
@@ -146,3 +176,174 @@ export function useCalculateFee() {
     reset,
   };
 }
+
+interface CalculateBatchFeeResult {
+  feeHandles: string[];
+  totalHandle: string;
+  txHash: string;
+}
+
+interface UseCalculateBatchFeeState {
+  isCalculating: boolean;
+  error: string | null;
+  result: CalculateBatchFeeResult | null;
+}
+
+/**
+ * Hook for quoting several stays in one transaction
+ */
+export function useCalculateBatchFee() {
+  const [state, setState] = useState<UseCalculateBatchFeeState>({
+    isCalculating: false,
+    error: null,
+    result: null,
+  });
+
+  const calculateBatchFee = useCallback(async (
+    minutesList: number[],
+    userAddress: string,
+    lotId: number,
+    expectedRateVersion: number
+  ): Promise<CalculateBatchFeeResult | null> => {
+    if (!CONTRACT_ADDRESS) {
+      setState(prev => ({
+        ...prev,
+        error: 'Contract address not configured',
+      }));
+      return null;
+    }
+
+    setState({
+      isCalculating: true,
+      error: null,
+      result: null,
+    });
+
+    try {
+      // Step 1: Initialize FHE if needed
+      await initializeFHE();
+
+      // Step 2: Encrypt all stays in one input (one proof)
+      console.log('[useCalculateBatchFee] Encrypting stays:', minutesList.length);
+      const { handles, inputProof } = await encryptParkingMinutesBatch(
+        minutesList,
+        CONTRACT_ADDRESS,
+        userAddress
+      );
+
+      // Step 3: Call smart contract
+      console.log('[useCalculateBatchFee] Calling contract...');
+      const result = await callQuoteBatch(handles, inputProof, lotId, expectedRateVersion);
+
+      setState({
+        isCalculating: false,
+        error: null,
+        result,
+      });
+
+      return result;
+    } catch (error: any) {
+      console.error('[useCalculateBatchFee] Error:', error);
+      setState({
+        isCalculating: false,
+        error: error.message || 'Failed to calculate fees',
+        result: null,
+      });
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setState({
+      isCalculating: false,
+      error: null,
+      result: null,
+    });
+  }, []);
+
+  return {
+    ...state,
+    calculateBatchFee,
+    reset,
+  };
+}
+
+interface UseDecryptFeeState {
+  isDecrypting: boolean;
+  error: string | null;
+  feeCents: bigint | null;
+  feeHandle: string | null;
+}
+
+/**
+ * Hook for decrypting the user's encrypted parking fee
+ * Pass a handle to decrypt it directly, or omit it to use getMyFeeHandle()
+ */
+export function useDecryptFee() {
+  const [state, setState] = useState<UseDecryptFeeState>({
+    isDecrypting: false,
+    error: null,
+    feeCents: null,
+    feeHandle: null,
+  });
+
+  const decryptFee = useCallback(async (
+    feeHandle?: string
+  ): Promise<bigint | null> => {
+    if (!CONTRACT_ADDRESS) {
+      setState(prev => ({
+        ...prev,
+        error: 'Contract address not configured',
+      }));
+      return null;
+    }
+
+    setState(prev => ({
+      ...prev,
+      isDecrypting: true,
+      error: null,
+    }));
+
+    try {
+      // Step 1: Resolve the handle (latest on-chain fee if not provided)
+      const handle = feeHandle || await getMyFeeHandle();
+
+      // Step 2: Sign the decryption request and decrypt via the relayer
+      console.log('[useDecryptFee] Decrypting handle:', handle);
+      const signer = await getSigner();
+      const feeCents = await decryptFeeHandle(handle, CONTRACT_ADDRESS, signer);
+
+      setState({
+        isDecrypting: false,
+        error: null,
+        feeCents,
+        feeHandle: handle,
+      });
+
+      return feeCents;
+    } catch (error: any) {
+      console.error('[useDecryptFee] Error:', error);
+      setState(prev => ({
+        ...prev,
+        isDecrypting: false,
+        error: error.message || 'Failed to decrypt fee',
+      }));
+      return null;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setState({
+      isDecrypting: false,
+      error: null,
+      feeCents: null,
+      feeHandle: null,
+    });
+  }, []);
+
+  return {
+    ...state,
+    decryptFee,
+    reset,
+  };
+}
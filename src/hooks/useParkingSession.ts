@@ -0,0 +1,182 @@
+/**
+ * Parking Session Hook
+ * Handles on-chain check-in / check-out and the active-session timer
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { userDecryptUint64 } from '@/lib/fhe';
+import {
+  CONTRACT_ADDRESS,
+  DEFAULT_LOT_ID,
+  hasActiveSession,
+  getMySessionEntryHandle,
+  getSigner,
+  startSession as contractStartSession,
+  endSession as contractEndSession,
+} from '@/lib/contract';
+
+interface SessionState {
+  isActive: boolean;
+  startedAt: number | null; // Entry time (unix seconds), if known locally
+  isLoading: boolean;
+  isStarting: boolean;
+  isEnding: boolean;
+  error: string | null;
+}
+
+interface EndSessionResult {
+  feeHandle: string;
+  txHash: string;
+}
+
+// The entry time is held as a euint64 on-chain (its value is the public block
+// timestamp); cache it locally so the timer survives reloads without a
+// decryption request.
+function storageKey(userAddress: string, lotId: number): string {
+  return `cipherpark:session:${CONTRACT_ADDRESS.toLowerCase()}:${userAddress.toLowerCase()}:${lotId}`;
+}
+
+function readStartedAt(userAddress: string, lotId: number): number | null {
+  const value = window.localStorage.getItem(storageKey(userAddress, lotId));
+  return value ? Number(value) : null;
+}
+
+export function useParkingSession(userAddress: string, lotId: number = DEFAULT_LOT_ID) {
+  const [state, setState] = useState<SessionState>({
+    isActive: false,
+    startedAt: null,
+    isLoading: false,
+    isStarting: false,
+    isEnding: false,
+    error: null,
+  });
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Load session status from the contract
+  const refresh = useCallback(async () => {
+    if (!userAddress || !CONTRACT_ADDRESS) return;
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const isActive = await hasActiveSession(userAddress, lotId);
+      if (!isActive) {
+        window.localStorage.removeItem(storageKey(userAddress, lotId));
+      }
+
+      setState(prev => ({
+        ...prev,
+        isActive,
+        startedAt: isActive ? readStartedAt(userAddress, lotId) : null,
+        isLoading: false,
+      }));
+    } catch (error: any) {
+      console.error('[useParkingSession] Failed to load session:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error.message || 'Failed to load session',
+      }));
+    }
+  }, [userAddress, lotId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Tick the timer while a session is active
+  useEffect(() => {
+    if (!state.isActive) return;
+
+    const interval = window.setInterval(() => {
+      setNow(Math.floor(Date.now() / 1000));
+    }, 1000);
+
+    return () => window.clearInterval(interval);
+  }, [state.isActive]);
+
+  const startSession = useCallback(async (): Promise<boolean> => {
+    setState(prev => ({ ...prev, isStarting: true, error: null }));
+
+    try {
+      const { startedAt } = await contractStartSession(lotId);
+      window.localStorage.setItem(storageKey(userAddress, lotId), startedAt.toString());
+
+      setState(prev => ({
+        ...prev,
+        isActive: true,
+        startedAt,
+        isStarting: false,
+      }));
+      setNow(Math.floor(Date.now() / 1000));
+
+      return true;
+    } catch (error: any) {
+      console.error('[useParkingSession] Failed to start session:', error);
+      setState(prev => ({
+        ...prev,
+        isStarting: false,
+        error: error.message || 'Failed to start session',
+      }));
+      return false;
+    }
+  }, [userAddress, lotId]);
+
+  const endSession = useCallback(async (): Promise<EndSessionResult | null> => {
+    setState(prev => ({ ...prev, isEnding: true, error: null }));
+
+    try {
+      const result = await contractEndSession(lotId);
+      window.localStorage.removeItem(storageKey(userAddress, lotId));
+
+      setState(prev => ({
+        ...prev,
+        isActive: false,
+        startedAt: null,
+        isEnding: false,
+      }));
+
+      return result;
+    } catch (error: any) {
+      console.error('[useParkingSession] Failed to end session:', error);
+      setState(prev => ({
+        ...prev,
+        isEnding: false,
+        error: error.message || 'Failed to end session',
+      }));
+      return null;
+    }
+  }, [userAddress, lotId]);
+
+  // Recover the entry time by user-decrypting it (e.g. on another device)
+  const revealStartTime = useCallback(async () => {
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const handle = await getMySessionEntryHandle(lotId);
+      const signer = await getSigner();
+      const startedAt = Number(await userDecryptUint64(handle, CONTRACT_ADDRESS, signer));
+      window.localStorage.setItem(storageKey(userAddress, lotId), startedAt.toString());
+
+      setState(prev => ({ ...prev, startedAt, isLoading: false }));
+    } catch (error: any) {
+      console.error('[useParkingSession] Failed to reveal start time:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: error.message || 'Failed to decrypt entry time',
+      }));
+    }
+  }, [userAddress, lotId]);
+
+  const elapsedSeconds =
+    state.isActive && state.startedAt !== null ? Math.max(0, now - state.startedAt) : 0;
+
+  return {
+    ...state,
+    elapsedSeconds,
+    refresh,
+    startSession,
+    endSession,
+    revealStartTime,
+  };
+}
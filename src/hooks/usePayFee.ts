@@ -0,0 +1,163 @@
+/**
+ * Fee Payment Hook
+ * Handles settlement of the last quoted fee with the confidential payment token
+ * or the prepaid balance
+ */
+import { useState, useCallback, useEffect } from 'react';
+import { ZeroHash } from 'ethers';
+import { userDecryptUint64 } from '@/lib/fhe';
+import {
+  CONTRACT_ADDRESS,
+  isFeeSettled,
+  getMyChargedHandle,
+  isPaymentOperatorApproved,
+  approvePaymentOperator,
+  callPay,
+  getSigner,
+} from '@/lib/contract';
+
+export type PaymentStep = 'idle' | 'approving' | 'paying';
+
+interface PayFeeState {
+  isSettled: boolean;
+  step: PaymentStep;
+  txHash: string | null;
+  paidHandle: string | null;
+  paidCents: bigint | null;
+  isDecrypting: boolean;
+  chargedHandle: string | null; // Set if the user had a prepaid balance when the fee was stored
+  prepaidCharged: boolean | null; // Decrypted: fee was deducted from the prepaid balance
+  isDecryptingCharge: boolean;
+  error: string | null;
+}
+
+const initialState: PayFeeState = {
+  isSettled: false,
+  step: 'idle',
+  txHash: null,
+  paidHandle: null,
+  paidCents: null,
+  isDecrypting: false,
+  chargedHandle: null,
+  prepaidCharged: null,
+  isDecryptingCharge: false,
+  error: null,
+};
+
+export function usePayFee(userAddress: string) {
+  const [state, setState] = useState<PayFeeState>(initialState);
+
+  // Load settlement status of the last fee
+  const refresh = useCallback(async () => {
+    if (!userAddress || !CONTRACT_ADDRESS) return;
+
+    try {
+      const [isSettled, chargedHandle] = await Promise.all([
+        isFeeSettled(userAddress),
+        getMyChargedHandle(),
+      ]);
+      setState(prev => ({
+        ...prev,
+        isSettled,
+        chargedHandle: chargedHandle === ZeroHash ? null : chargedHandle,
+      }));
+    } catch (error) {
+      console.error('[usePayFee] Failed to load payment status:', error);
+    }
+  }, [userAddress]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const pay = useCallback(async (): Promise<boolean> => {
+    setState(prev => ({ ...prev, error: null }));
+
+    try {
+      // Step 1: Approve the calculator as token operator if needed
+      if (!(await isPaymentOperatorApproved(userAddress))) {
+        setState(prev => ({ ...prev, step: 'approving' }));
+        await approvePaymentOperator();
+      }
+
+      // Step 2: Transfer the encrypted fee
+      setState(prev => ({ ...prev, step: 'paying' }));
+      const { txHash, paidHandle } = await callPay();
+
+      setState(prev => ({
+        ...prev,
+        isSettled: true,
+        step: 'idle',
+        txHash,
+        paidHandle,
+        paidCents: null,
+      }));
+
+      return true;
+    } catch (error: any) {
+      console.error('[usePayFee] Error:', error);
+      setState(prev => ({
+        ...prev,
+        step: 'idle',
+        error: error.message || 'Failed to pay fee',
+      }));
+      return false;
+    }
+  }, [userAddress]);
+
+  // Decrypt the amount actually transferred (0 if the balance was insufficient)
+  const decryptPaid = useCallback(async () => {
+    if (!state.paidHandle) return;
+
+    setState(prev => ({ ...prev, isDecrypting: true, error: null }));
+
+    try {
+      const signer = await getSigner();
+      const paidCents = await userDecryptUint64(state.paidHandle, CONTRACT_ADDRESS, signer);
+      setState(prev => ({ ...prev, paidCents, isDecrypting: false }));
+    } catch (error: any) {
+      console.error('[usePayFee] Decryption error:', error);
+      setState(prev => ({
+        ...prev,
+        isDecrypting: false,
+        error: error.message || 'Failed to decrypt payment',
+      }));
+    }
+  }, [state.paidHandle]);
+
+  // Decrypt whether the fee was deducted from the prepaid balance
+  const decryptCharged = useCallback(async () => {
+    if (!state.chargedHandle) return;
+
+    setState(prev => ({ ...prev, isDecryptingCharge: true, error: null }));
+
+    try {
+      const signer = await getSigner();
+      const charged = await userDecryptUint64(state.chargedHandle, CONTRACT_ADDRESS, signer);
+      setState(prev => ({ ...prev, prepaidCharged: charged !== 0n, isDecryptingCharge: false }));
+    } catch (error: any) {
+      console.error('[usePayFee] Decryption error:', error);
+      setState(prev => ({
+        ...prev,
+        isDecryptingCharge: false,
+        error: error.message || 'Failed to decrypt prepaid deduction',
+      }));
+    }
+  }, [state.chargedHandle]);
+
+  // A new fee replaces the previous one and is unpaid; reload its prepaid deduction
+  const reset = useCallback(() => {
+    setState(initialState);
+    refresh();
+  }, [refresh]);
+
+  return {
+    ...state,
+    isPaying: state.step !== 'idle',
+    refresh,
+    pay,
+    decryptPaid,
+    decryptCharged,
+    reset,
+  };
+}
@@ -2,7 +2,19 @@
  * Smart Contract Configuration and ABI
  * ParkingFeeCalculator on Sepolia Testnet
  */
-import { Contract, BrowserProvider, Signer, formatUnits } from 'ethers';
+import {
+  Contract,
+  BrowserProvider,
+  Signer,
+  ZeroAddress,
+  EventLog,
+  formatUnits,
+  id,
+  type ContractTransactionReceipt,
+} from 'ethers';
+import { MULTIPLIER_BASE, type PricingTier } from '@/lib/pricing';
+
+export type { PricingTier };
 
 // Contract ABI - ParkingFeeCalculator
 export const PARKING_FEE_CALCULATOR_ABI = [
@@ -12,29 +24,323 @@ export const PARKING_FEE_CALCULATOR_ABI = [
   // View functions
   "function version() external view returns (string memory)",
   "function owner() external view returns (address)",
+  "function pendingOwner() external view returns (address)",
+  "function hasRole(bytes32 role, address account) external view returns (bool)",
+  "function paused() external view returns (bool)",
+  "function pauseReason() external view returns (string)",
   "function pricePerBlock() external view returns (uint64)",
   "function maxBlocks() external view returns (uint16)",
-  "function BLOCK_MINUTES() external view returns (uint64)",
+  "function blockMinutes() external view returns (uint64)",
   "function getMyFeeHandle() external view returns (bytes32)",
+  "function rateVersion() external view returns (uint256)",
+  "function pendingRateChange() external view returns (tuple(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes, uint64 effectiveAt) rates, uint64 newDailyMaxFee, uint64 newMinimumFee, uint64 newGraceMinutes, bool newGraceDeducted, uint16[4] newClassMultipliers)",
+  "function getPendingTierCount() external view returns (uint256)",
+  "function getPendingTier(uint256 index) external view returns (uint16 fromBlock, uint64 price)",
+  "function getMyQuoteCount() external view returns (uint256)",
+  "function getMyQuote(uint256 index) external view returns (bytes32 feeHandle, uint64 timestamp, uint256 lotId, uint256 quoteRateVersion)",
+  "function hasActiveSession(address user, uint256 lotId) external view returns (bool)",
+  "function getMySessionEntryHandle(uint256 lotId) external view returns (bytes32)",
+  "function currentRevenuePeriod() external view returns (uint256)",
+  "function getRevenue() external view returns (bytes32 amountHandle, uint256 quotes)",
+  "function getLotRevenue(uint256 lotId) external view returns (bytes32 amountHandle, uint256 quotes)",
+  "function getLotPeriodRevenue(uint256 lotId, uint256 period) external view returns (bytes32 amountHandle, uint256 quotes)",
+  "function paymentToken() external view returns (address)",
+  "function feeRecipient() external view returns (address)",
+  "function isFeeSettled(address user) external view returns (bool)",
+  "function getMyPaymentHandle() external view returns (bytes32)",
+  "function MAX_TIERS() external view returns (uint256)",
+  "function maxBatchSize(uint256 lotId) external view returns (uint256)",
+  "function DAY_MINUTES() external view returns (uint64)",
+  "function dailyMaxFee() external view returns (uint64)",
+  "function minimumFee() external view returns (uint64)",
+  "function graceMinutes() external view returns (uint64)",
+  "function graceDeducted() external view returns (bool)",
+  "function DEFAULT_LOT() external view returns (uint256)",
+  "function lotCount() external view returns (uint256)",
+  "function getLot(uint256 lotId) external view returns (string name, address operator, uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes, bool active)",
+  "function getTierCount() external view returns (uint256)",
+  "function getTier(uint256 index) external view returns (uint16 fromBlock, uint64 price)",
+  "function getClassMultipliers() external view returns (uint16[4])",
+  "function passPrice(uint256 lotId) external view returns (uint64)",
+  "function getMyPassHandle(uint256 lotId) external view returns (bytes32)",
+  "function getMyBalanceHandle() external view returns (bytes32)",
+  "function getMyChargedHandle() external view returns (bytes32)",
+  "function getMyValidationHandles() external view returns (bytes32 minutesHandle, bytes32 percentHandle)",
 
   // Owner functions
-  "function setPricePerBlock(uint64 newPrice) external",
-  "function setMaxBlocks(uint16 newMax) external",
+  "function scheduleRateChange(tuple(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes, uint64 effectiveAt) rates, tuple(tuple(uint16 fromBlock, uint64 pricePerBlock)[] tiers, uint64 dailyMaxFee, uint64 minimumFee, uint64 graceMinutes, bool graceDeducted, uint16[4] classMultipliers) rules) external",
+  "function cancelRateChange() external",
+  "function applyRateChange(uint256 lotId) external",
   "function transferOwnership(address n) external",
+  "function acceptOwnership() external",
+  "function grantRole(bytes32 role, address account) external",
+  "function revokeRole(bytes32 role, address account) external",
+  "function pause(string reason) external",
+  "function unpause() external",
+  "function setPaymentToken(address token) external",
+  "function setFeeRecipient(address recipient) external",
+  "function setPassPrice(uint256 lotId, uint64 price) external",
+
+  // Lot registry (owner adds lots, lot operators manage their rate cards)
+  "function addLot(string name, address operator, uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes) external returns (uint256 lotId)",
+  "function setLotOperator(uint256 lotId, address operator) external",
+  "function scheduleLotRateChange(uint256 lotId, uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes, uint64 effectiveAt) external",
+  "function cancelLotRateChange(uint256 lotId) external",
+  "function pendingLotRateChange(uint256 lotId) external view returns (uint64 price, uint16 lotMaxBlocks, uint64 lotBlockMinutes, uint64 effectiveAt)",
+  "function setLotActive(uint256 lotId, bool active) external",
 
-  // Main quote function
+  // Main quote functions (default lot / specific lot)
   "function quote(bytes32 minutesExt, bytes calldata proof) external returns (bytes32 feeHandle)",
+  "function quote(uint256 lotId, bytes32 minutesExt, bytes calldata proof) external returns (bytes32 feeHandle)",
+  "function quote(uint256 lotId, bytes32 minutesExt, bytes calldata proof, uint256 expectedRateVersion) external returns (bytes32 feeHandle)",
+  "function quote(uint256 lotId, bytes32 minutesExt, bytes32 classExt, bytes calldata proof, uint256 expectedRateVersion) external returns (bytes32 feeHandle)",
+
+  // Batch quote functions (default lot / specific lot / specific lot at a rate version)
+  "function quoteBatch(bytes32[] minutesExts, bytes calldata proof) external returns (bytes32[] feeHandles, bytes32 totalHandle)",
+  "function quoteBatch(uint256 lotId, bytes32[] minutesExts, bytes calldata proof) external returns (bytes32[] feeHandles, bytes32 totalHandle)",
+  "function quoteBatch(uint256 lotId, bytes32[] minutesExts, bytes calldata proof, uint256 expectedRateVersion) external returns (bytes32[] feeHandles, bytes32 totalHandle)",
+
+  // Session functions
+  "function startSession(uint256 lotId) external returns (bytes32 entryHandle)",
+  "function endSession(uint256 lotId) external returns (bytes32 feeHandle)",
+
+  // Settlement
+  "function pay() external returns (bytes32 paidHandle)",
+
+  // Sharing
+  "function shareQuote(uint256 index, address viewer) external",
+
+  // Prepaid balance
+  "function deposit(bytes32 amountExt, bytes calldata proof) external returns (bytes32 balanceHandle)",
+  "function withdraw() external",
+
+  // Merchant validations
+  "function validate(address driver, bytes32 minutesExt, bytes32 percentExt, bytes calldata proof) external",
+
+  // Monthly passes
+  "function buyPass(uint256 lotId, uint64 expectedPrice) external returns (bytes32 expiryHandle)",
 
   // Events
-  "event Quoted(address indexed user, bytes32 feeHandle)"
+  "event Quoted(address indexed user, uint256 indexed lotId, bytes32 feeHandle)",
+  "event BatchQuoted(address indexed user, uint256 indexed lotId, uint256 count, bytes32 totalHandle)",
+  "event SessionStarted(address indexed user, uint256 indexed lotId, bytes32 entryHandle)",
+  "event SessionEnded(address indexed user, uint256 indexed lotId, bytes32 feeHandle)",
+  "event Paid(address indexed user, address indexed recipient, bytes32 paidHandle)",
+  "event QuoteShared(address indexed user, address indexed viewer, uint256 index, uint256 lotId, uint64 timestamp, bytes32 feeHandle)",
+  "event Deposited(address indexed user, bytes32 balanceHandle)",
+  "event Withdrawn(address indexed user)",
+  "event ValidationIssued(address indexed merchant, address indexed driver)",
+  "event ValidationApplied(address indexed driver)",
+  "event PassPriceUpdated(uint256 indexed lotId, uint64 price)",
+  "event PassPurchased(address indexed user, uint256 indexed lotId, bytes32 expiryHandle)",
+  "event LotAdded(uint256 indexed lotId, string name, address indexed operator)",
+  "event LotOperatorChanged(uint256 indexed lotId, address indexed operator)",
+  "event LotRatesUpdated(uint256 indexed lotId, uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes)",
+  "event LotActiveChanged(uint256 indexed lotId, bool active)",
+  "event RatesChanged(uint256 rateVersion)",
+  "event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event Paused(address indexed account, string reason)",
+  "event Unpaused(address indexed account)",
+  "event RateChangeScheduled(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes, uint64 effectiveAt)",
+  "event RateChangeCancelled()",
+  "event RateChangeApplied(uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes)",
+  "event LotRateChangeScheduled(uint256 indexed lotId, uint64 pricePerBlock, uint16 maxBlocks, uint64 blockMinutes, uint64 effectiveAt)",
+  "event LotRateChangeCancelled(uint256 indexed lotId)"
+] as const;
+
+// Confidential payment token ABI (ERC-7984 subset)
+export const CONFIDENTIAL_TOKEN_ABI = [
+  "function name() external view returns (string)",
+  "function symbol() external view returns (string)",
+  "function decimals() external view returns (uint8)",
+  "function confidentialBalanceOf(address account) external view returns (bytes32)",
+  "function isOperator(address holder, address spender) external view returns (bool)",
+  "function setOperator(address operator, uint48 until) external",
+  "function mint(address to, uint64 amount) external",
+  "event OperatorSet(address indexed holder, address indexed operator, uint48 until)"
+] as const;
+
+// ParkingReservations ABI (companion contract, reads lots and rates from the calculator)
+export const PARKING_RESERVATIONS_ABI = [
+  "function version() external view returns (string memory)",
+  "function MAX_ACTIVE_RESERVATIONS() external view returns (uint256)",
+  "function MAX_OPEN_BOOKINGS() external view returns (uint256)",
+  "function MAX_ADVANCE() external view returns (uint64)",
+  "function MAX_RESERVATION_MINUTES() external view returns (uint64)",
+  "function lotCapacity(uint256 lotId) external view returns (uint16)",
+  "function penaltyPerBlock() external view returns (uint64)",
+  "function reservationCount() external view returns (uint256)",
+  "function getReservation(uint256 id) external view returns (address driver, uint256 lotId, bytes32 startHandle, bytes32 endHandle, bytes32 feeHandle, bytes32 penaltyHandle, bytes32 penaltyPaidHandle, bytes32 confirmedHandle, uint64 expiresAt, bool active)",
+  "function getMyReservationIds() external view returns (uint256[])",
+  "function getActiveReservationCount(uint256 lotId) external view returns (uint256)",
+  "function getActiveReservationIds(uint256 lotId) external view returns (uint256[])",
+  "function getReleasableHandle(uint256 id) external view returns (bytes32)",
+  "function openBookings(address driver) external view returns (uint256)",
+  "function setLotCapacity(uint256 lotId, uint16 capacity) external",
+  "function reserve(uint256 lotId, bytes32 startExt, bytes32 minutesExt, bytes calldata proof) external returns (uint256 id)",
+  "function cancelReservation(uint256 id) external",
+  "function checkOut(uint256 id) external returns (bytes32 penaltyHandle)",
+  "function settleExpired(uint256 id) external",
+  "function requestRelease(uint256 id) external returns (bytes32 releasableHandle)",
+  "function release(uint256 id, bytes calldata cleartexts, bytes calldata decryptionProof) external",
+  "function setPenaltyPerBlock(uint64 price) external",
+  "event LotCapacityUpdated(uint256 indexed lotId, uint16 capacity)",
+  "event Reserved(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 feeHandle)",
+  "event ReservationCancelled(address indexed driver, uint256 indexed lotId, uint256 indexed id)",
+  "event CheckedOut(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 penaltyHandle)",
+  "event ReservationExpired(address indexed driver, uint256 indexed lotId, uint256 indexed id, bytes32 penaltyHandle)",
+  "event PenaltyCharged(address indexed driver, address indexed recipient, uint256 indexed id, bytes32 paidHandle)",
+  "event ReleaseRequested(uint256 indexed id, bytes32 releasableHandle)",
+  "event PenaltyPriceUpdated(uint64 penaltyPerBlock)"
+] as const;
+
+// Mirrors ParkingFeeCalculator.MAX_TIERS
+export const MAX_PRICING_TIERS = 8;
+
+// Vehicle classes (mirrors the contract's class ids); quotes without a class bill at 1x
+export const VEHICLE_CLASSES = [
+  { id: 0, label: 'Car' },
+  { id: 1, label: 'Motorcycle' },
+  { id: 2, label: 'EV' },
+  { id: 3, label: 'Oversized' },
 ] as const;
 
+// Mirrors ParkingFeeCalculator.MAX_CLASS_MULTIPLIER (basis points, 5x)
+export const MAX_CLASS_MULTIPLIER = 50000;
+
+// A registered parking lot and its rate card
+export interface ParkingLot {
+  id: number;
+  name: string;
+  operator: string;
+  pricePerBlock: bigint; // cents
+  maxBlocks: number;
+  blockMinutes: number;
+  active: boolean;
+  pendingRateChange: PendingRateChange | null; // Queued rate card (already shown as current once due)
+}
+
+// An entry of the user's encrypted quote history
+export interface QuoteRecord {
+  index: number;
+  feeHandle: string;
+  timestamp: number; // unix seconds
+  lotId: number;
+  rateVersion: number;
+}
+
+// A fee another user shared with the connected address (QuoteShared event)
+export interface SharedQuote {
+  user: string;
+  index: number; // Position in the sharing user's quote history
+  lotId: number;
+  timestamp: number; // unix seconds of the quote
+  feeHandle: string;
+  txHash: string; // Transaction that shared the fee
+}
+
+// A validation a merchant issued (ValidationIssued event); the amounts stay encrypted
+export interface IssuedValidation {
+  driver: string;
+  txHash: string;
+}
+
+// An encrypted revenue total and the number of fees it sums
+export interface RevenueTotal {
+  amountHandle: string; // ZeroHash until the first fee
+  quotes: number;
+}
+
+// Fee rules of every lot (tiers apply to the default lot only); they change only
+// together with a scheduled default-lot rate change
+export interface SharedFeeRules {
+  tiers: PricingTier[];
+  dailyMaxFee: bigint; // cents, 0 = no cap
+  minimumFee: bigint; // cents, 0 = none
+  graceMinutes: number; // 0 = no grace period
+  graceDeducted: boolean;
+  classMultipliers: number[]; // Basis points per vehicle class
+}
+
+// A queued rate card change of a lot
+export interface PendingRateChange {
+  pricePerBlock: bigint; // cents
+  maxBlocks: number;
+  blockMinutes: number;
+  effectiveAt: number; // unix seconds
+  rules?: SharedFeeRules; // Default lot only: the fee rules queued with it
+}
+
+// A spot reservation; start, end, fee and outcome are encrypted for the driver
+export interface Reservation {
+  id: number;
+  lotId: number;
+  startHandle: string; // unix seconds
+  endHandle: string; // unix seconds
+  feeHandle: string; // cents, charged at booking (0 if not confirmed)
+  penaltyHandle: string; // cents, overstay penalty (zero hash until checked out)
+  penaltyPaidHandle: string; // cents, penalty charged to the lot (zero hash if none)
+  confirmedHandle: string; // ebool: in the booking window, a spot was free and the fee paid
+  expiresAt: number; // unix seconds, capacity is released after it
+  active: boolean; // Not cancelled and not expired
+}
+
+// Emergency pause status (reason is kept from the last pause)
+export interface PauseState {
+  paused: boolean;
+  reason: string;
+}
+
 // Contract address - set via environment variable or use default
 export const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || '';
 
+// Reservations contract address (reservations are disabled if unset)
+export const RESERVATIONS_ADDRESS = import.meta.env.VITE_RESERVATIONS_ADDRESS || '';
+
+// Block the contract was deployed at (bounds event lookups)
+export const CONTRACT_DEPLOY_BLOCK = Number(import.meta.env.VITE_CONTRACT_DEPLOY_BLOCK || 0);
+
+// Minimum notice for rate and fee rule changes (mirrors MIN_RATE_CHANGE_DELAY)
+export const MIN_RATE_CHANGE_DELAY = 24 * 60 * 60;
+
+// Shown when quote reverts because rates changed after they were displayed
+export const RATES_CHANGED_ERROR = 'Rates changed since they were loaded. Reload the rates and try again.';
+
 // Sepolia chain ID
 export const SEPOLIA_CHAIN_ID = 11155111;
 
+// Default lot, backed by the contract-level parameters (mirrors DEFAULT_LOT)
+export const DEFAULT_LOT_ID = 0;
+
+// Validity of a monthly pass in seconds (mirrors PASS_DURATION)
+export const PASS_DURATION = 30 * 24 * 60 * 60;
+
+// Reservation limits (mirror ParkingReservations.MAX_ADVANCE / MAX_RESERVATION_MINUTES /
+// MAX_OPEN_BOOKINGS)
+export const MAX_RESERVATION_ADVANCE = 14 * 24 * 60 * 60;
+export const MAX_RESERVATION_MINUTES = 24 * 60;
+export const MAX_OPEN_BOOKINGS = 2;
+
+// How long the calculator stays approved as token operator (seconds)
+export const PAYMENT_OPERATOR_DURATION = 60 * 60;
+
+// How long the reservations contract stays approved to charge fees and overstay
+// penalties: until a booking made now surely ended (mirrors the contract's expiresAt)
+export const RESERVATION_OPERATOR_DURATION = MAX_RESERVATION_ADVANCE + MAX_RESERVATION_MINUTES * 60;
+
+// Access roles (mirrors the *_ROLE constants; the owner implicitly holds all of them)
+export const ROLES = {
+  rateManager: id('RATE_MANAGER_ROLE'),
+  pauser: id('PAUSER_ROLE'),
+  operator: id('OPERATOR_ROLE'),
+  merchant: id('MERCHANT_ROLE'),
+} as const;
+
+export type RoleName = keyof typeof ROLES;
+
 // Get provider from window.ethereum
 export async function getProvider(): Promise<BrowserProvider> {
   if (!window.ethereum) {
@@ -57,6 +363,23 @@ export function getContract(signerOrProvider: Signer | BrowserProvider): Contrac
   return new Contract(CONTRACT_ADDRESS, PARKING_FEE_CALCULATOR_ABI, signerOrProvider);
 }
 
+// Get reservations contract instance
+export function getReservationsContract(signerOrProvider: Signer | BrowserProvider): Contract {
+  if (!RESERVATIONS_ADDRESS) {
+    throw new Error('Reservations address not configured. Set VITE_RESERVATIONS_ADDRESS in .env');
+  }
+  return new Contract(RESERVATIONS_ADDRESS, PARKING_RESERVATIONS_ABI, signerOrProvider);
+}
+
+// Get payment token instance (address read from the calculator)
+export async function getPaymentTokenContract(signerOrProvider: Signer | BrowserProvider): Promise<Contract> {
+  const tokenAddress = await getContract(signerOrProvider).paymentToken();
+  if (!tokenAddress || tokenAddress === ZeroAddress) {
+    throw new Error('Payment token not configured on the contract');
+  }
+  return new Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, signerOrProvider);
+}
+
 // Check if connected to Sepolia
 export async function checkNetwork(): Promise<boolean> {
   const provider = await getProvider();
@@ -111,6 +434,61 @@ export async function getContractOwner(): Promise<string> {
   return contract.owner();
 }
 
+export async function getPendingOwner(): Promise<string> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const pending: string = await contract.pendingOwner();
+  return pending === ZeroAddress ? '' : pending;
+}
+
+export async function getPauseState(): Promise<PauseState> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const [paused, reason] = await Promise.all([contract.paused(), contract.pauseReason()]);
+  return { paused, reason };
+}
+
+export async function hasRole(role: RoleName, account: string): Promise<boolean> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  return contract.hasRole(ROLES[role], account);
+}
+
+/**
+ * Current holders of each role, replayed from RoleGranted/RoleRevoked events
+ * since CONTRACT_DEPLOY_BLOCK (the owner is not listed)
+ */
+export async function getRoleHolders(): Promise<Record<RoleName, string[]>> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+
+  const [granted, revoked] = await Promise.all([
+    contract.queryFilter(contract.filters.RoleGranted(), CONTRACT_DEPLOY_BLOCK),
+    contract.queryFilter(contract.filters.RoleRevoked(), CONTRACT_DEPLOY_BLOCK),
+  ]);
+
+  // Apply events in chain order; the last one wins
+  const events = [...granted, ...revoked].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+  );
+  const holders = new Map<string, Set<string>>();
+  for (const event of events) {
+    if (!(event instanceof EventLog)) continue;
+    const role = event.args.role.toLowerCase();
+    if (!holders.has(role)) holders.set(role, new Set());
+    if (event.eventName === 'RoleGranted') {
+      holders.get(role)!.add(event.args.account);
+    } else {
+      holders.get(role)!.delete(event.args.account);
+    }
+  }
+
+  const names = Object.keys(ROLES) as RoleName[];
+  return Object.fromEntries(
+    names.map((name) => [name, [...(holders.get(ROLES[name].toLowerCase()) ?? [])]])
+  ) as Record<RoleName, string[]>;
+}
+
 export async function getPricePerBlock(): Promise<bigint> {
   const provider = await getProvider();
   const contract = getContract(provider);
@@ -127,33 +505,408 @@ export async function getMaxBlocks(): Promise<number> {
 export async function getBlockMinutes(): Promise<number> {
   const provider = await getProvider();
   const contract = getContract(provider);
-  const result = await contract.BLOCK_MINUTES();
+  const result = await contract.blockMinutes();
+  return Number(result);
+}
+
+// Tier table in effect, or the one queued with the default lot's pending change
+async function readTiers(contract: Contract, pending: boolean): Promise<PricingTier[]> {
+  const count = Number(await (pending ? contract.getPendingTierCount() : contract.getTierCount()));
+
+  const tiers = await Promise.all(
+    Array.from({ length: count }, (_, i) => (pending ? contract.getPendingTier(i) : contract.getTier(i)))
+  );
+  return tiers.map(([fromBlock, price]) => ({
+    fromBlock: Number(fromBlock),
+    pricePerBlock: price,
+  }));
+}
+
+/**
+ * Fee rules of every lot: tiers, limits, grace period and class multipliers
+ * (a due scheduled change is applied by the next quote on any lot; show it as current)
+ */
+export async function getFeeRules(): Promise<SharedFeeRules> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const [tiers, dailyMaxFee, minimumFee, graceMinutes, graceDeducted, multipliers, pending] =
+    await Promise.all([
+      readTiers(contract, false),
+      contract.dailyMaxFee(),
+      contract.minimumFee(),
+      contract.graceMinutes(),
+      contract.graceDeducted(),
+      contract.getClassMultipliers(),
+      getPendingRateChange(DEFAULT_LOT_ID),
+    ]);
+  if (pending?.rules && isRateChangeDue(pending)) {
+    return pending.rules;
+  }
+  return {
+    tiers,
+    dailyMaxFee,
+    minimumFee,
+    graceMinutes: Number(graceMinutes),
+    graceDeducted,
+    classMultipliers: (multipliers as bigint[]).map(Number),
+  };
+}
+
+export async function getLots(): Promise<ParkingLot[]> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const count = Number(await contract.lotCount());
+
+  const [lots, pending] = await Promise.all([
+    Promise.all(Array.from({ length: count }, (_, i) => contract.getLot(i))),
+    Promise.all(Array.from({ length: count }, (_, i) => getPendingRateChange(i))),
+  ]);
+  return lots.map(([name, operator, price, lotMaxBlocks, blockMinutes, active], id) => {
+    const lot: ParkingLot = {
+      id,
+      name,
+      operator,
+      pricePerBlock: price,
+      maxBlocks: Number(lotMaxBlocks),
+      blockMinutes: Number(blockMinutes),
+      active,
+      pendingRateChange: pending[id],
+    };
+
+    // A due scheduled change is applied by the lot's next quote; show it as current
+    const change = pending[id];
+    if (change && isRateChangeDue(change)) {
+      lot.pricePerBlock = change.pricePerBlock;
+      lot.maxBlocks = change.maxBlocks;
+      lot.blockMinutes = change.blockMinutes;
+    }
+    return lot;
+  });
+}
+
+export async function getPendingRateChange(lotId: number = DEFAULT_LOT_ID): Promise<PendingRateChange | null> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  if (lotId === DEFAULT_LOT_ID) {
+    const [rates, dailyMaxFee, minimumFee, graceMinutes, graceDeducted, multipliers] =
+      await contract.pendingRateChange();
+    if (rates.effectiveAt === 0n) return null;
+    return {
+      pricePerBlock: rates.pricePerBlock,
+      maxBlocks: Number(rates.maxBlocks),
+      blockMinutes: Number(rates.blockMinutes),
+      effectiveAt: Number(rates.effectiveAt),
+      rules: {
+        tiers: await readTiers(contract, true),
+        dailyMaxFee,
+        minimumFee,
+        graceMinutes: Number(graceMinutes),
+        graceDeducted,
+        classMultipliers: (multipliers as bigint[]).map(Number),
+      },
+    };
+  }
+
+  const [price, lotMaxBlocks, lotBlockMinutes, effectiveAt] = await contract.pendingLotRateChange(lotId);
+  if (effectiveAt === 0n) return null;
+  return {
+    pricePerBlock: price,
+    maxBlocks: Number(lotMaxBlocks),
+    blockMinutes: Number(lotBlockMinutes),
+    effectiveAt: Number(effectiveAt),
+  };
+}
+
+export function isRateChangeDue(change: PendingRateChange): boolean {
+  return change.effectiveAt * 1000 <= Date.now();
+}
+
+export async function getRateVersion(): Promise<number> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const result = await contract.rateVersion();
   return Number(result);
 }
 
+/**
+ * Rate version the next quote on `lotId` will be computed with: due scheduled changes of
+ * the default lot (whose fee rules apply to every lot) and of the lot itself are applied,
+ * each bumping the version, before quoting
+ */
+export function quoteRateVersion(rateVersion: number, lots: ParkingLot[], lotId: number): number {
+  const due = (id: number) => {
+    const change = lots.find((lot) => lot.id === id)?.pendingRateChange;
+    return change && isRateChangeDue(change) ? 1 : 0;
+  };
+  return rateVersion + due(DEFAULT_LOT_ID) + (lotId === DEFAULT_LOT_ID ? 0 : due(lotId));
+}
+
+export async function getMyQuotes(): Promise<QuoteRecord[]> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  const count = Number(await contract.getMyQuoteCount());
+
+  const quotes = await Promise.all(
+    Array.from({ length: count }, (_, i) => contract.getMyQuote(i))
+  );
+  return quotes.map(([feeHandle, timestamp, lotId, quoteRateVersion], index) => ({
+    index,
+    feeHandle,
+    timestamp: Number(timestamp),
+    lotId: Number(lotId),
+    rateVersion: Number(quoteRateVersion),
+  }));
+}
+
+/**
+ * Map the user's fee handles to the transactions that produced them
+ * (Quoted and SessionEnded events since CONTRACT_DEPLOY_BLOCK)
+ */
+export async function getMyQuoteTxHashes(userAddress: string): Promise<Record<string, string>> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+
+  const [quoted, ended] = await Promise.all([
+    contract.queryFilter(contract.filters.Quoted(userAddress), CONTRACT_DEPLOY_BLOCK),
+    contract.queryFilter(contract.filters.SessionEnded(userAddress), CONTRACT_DEPLOY_BLOCK),
+  ]);
+
+  const txHashes: Record<string, string> = {};
+  for (const event of [...quoted, ...ended]) {
+    if (event instanceof EventLog) {
+      txHashes[event.args.feeHandle.toLowerCase()] = event.transactionHash;
+    }
+  }
+  return txHashes;
+}
+
+// Fees shared with `viewer` since CONTRACT_DEPLOY_BLOCK, newest first
+export async function getQuotesSharedWith(viewer: string): Promise<SharedQuote[]> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+
+  const events = await contract.queryFilter(
+    contract.filters.QuoteShared(null, viewer),
+    CONTRACT_DEPLOY_BLOCK
+  );
+
+  const shared: SharedQuote[] = [];
+  for (const event of events) {
+    if (event instanceof EventLog) {
+      shared.push({
+        user: event.args.user,
+        index: Number(event.args.index),
+        lotId: Number(event.args.lotId),
+        timestamp: Number(event.args.timestamp),
+        feeHandle: event.args.feeHandle,
+        txHash: event.transactionHash,
+      });
+    }
+  }
+
+  // The same fee may be shared more than once
+  const unique = shared.filter(
+    (quote, i) => shared.findIndex((other) => other.feeHandle === quote.feeHandle) === i
+  );
+  return unique.reverse();
+}
+
+/**
+ * Validations issued by a merchant, newest first
+ */
+export async function getValidationsIssuedBy(merchant: string): Promise<IssuedValidation[]> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+
+  const events = await contract.queryFilter(
+    contract.filters.ValidationIssued(merchant),
+    CONTRACT_DEPLOY_BLOCK
+  );
+
+  const issued: IssuedValidation[] = [];
+  for (const event of events) {
+    if (event instanceof EventLog) {
+      issued.push({ driver: event.args.driver, txHash: event.transactionHash });
+    }
+  }
+  return issued.reverse();
+}
+
+// Index of the current day bucket of the per-lot revenue totals
+export async function getCurrentRevenuePeriod(): Promise<number> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  return Number(await contract.currentRevenuePeriod());
+}
+
+// Revenue across all lots (decryptable by the owner)
+export async function getRevenue(): Promise<RevenueTotal> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const [amountHandle, quotes] = await contract.getRevenue();
+  return { amountHandle, quotes: Number(quotes) };
+}
+
+// Revenue of one lot (decryptable by the owner and the lot's operator)
+export async function getLotRevenue(lotId: number): Promise<RevenueTotal> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const [amountHandle, quotes] = await contract.getLotRevenue(lotId);
+  return { amountHandle, quotes: Number(quotes) };
+}
+
+export async function getLotPeriodRevenue(lotId: number, period: number): Promise<RevenueTotal> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  const [amountHandle, quotes] = await contract.getLotPeriodRevenue(lotId, period);
+  return { amountHandle, quotes: Number(quotes) };
+}
+
 export async function getMyFeeHandle(): Promise<string> {
   const signer = await getSigner();
   const contract = getContract(signer);
   return contract.getMyFeeHandle();
 }
 
+export async function hasActiveSession(userAddress: string, lotId: number = DEFAULT_LOT_ID): Promise<boolean> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  return contract.hasActiveSession(userAddress, lotId);
+}
+
+export async function getMySessionEntryHandle(lotId: number = DEFAULT_LOT_ID): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  return contract.getMySessionEntryHandle(lotId);
+}
+
+export async function isFeeSettled(userAddress: string): Promise<boolean> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  return contract.isFeeSettled(userAddress);
+}
+
+export async function getMyPaymentHandle(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  return contract.getMyPaymentHandle();
+}
+
+// Handle to the caller's encrypted prepaid balance (ZeroHash before the first deposit)
+export async function getMyBalanceHandle(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  return contract.getMyBalanceHandle();
+}
+
+// Handle to the encrypted "last fee was deducted from the prepaid balance" flag
+// (ZeroHash if the caller had no prepaid balance when the fee was stored)
+export async function getMyChargedHandle(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  return contract.getMyChargedHandle();
+}
+
+// Handles to the caller's pending encrypted free minutes and discount percent
+// (ZeroHash if no validation is pending)
+export async function getMyValidationHandles(): Promise<{ minutesHandle: string; percentHandle: string }> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  const [minutesHandle, percentHandle] = await contract.getMyValidationHandles();
+  return { minutesHandle, percentHandle };
+}
+
+// Monthly pass price of a lot in cents (0 = no passes sold)
+export async function getPassPrice(lotId: number): Promise<bigint> {
+  const provider = await getProvider();
+  const contract = getContract(provider);
+  return contract.passPrice(lotId);
+}
+
+// Handle to the caller's encrypted pass expiry (ZeroHash if never bought)
+export async function getMyPassHandle(lotId: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+  return contract.getMyPassHandle(lotId);
+}
+
+export async function isPaymentOperatorApproved(
+  userAddress: string,
+  operator: string = CONTRACT_ADDRESS
+): Promise<boolean> {
+  const provider = await getProvider();
+  const token = await getPaymentTokenContract(provider);
+  return token.isOperator(userAddress, operator);
+}
+
+// Find a named event in a receipt and return one of its args
+function findEventArg(
+  contract: Contract,
+  receipt: ContractTransactionReceipt,
+  eventName: string,
+  argName: string
+): string {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed.args[argName] || '';
+      }
+    } catch {
+      // Not our event
+    }
+  }
+  return '';
+}
+
 // Contract write functions
 
 /**
  * Call quote function with encrypted minutes
  * @param encryptedMinutes - The encrypted minutes handle (bytes32)
  * @param inputProof - The proof from FHE encryption
+ * @param lotId - Lot whose rate card is applied
+ * @param expectedRateVersion - Rate version of the rates the caller displayed, e.g.
+ *   quoteRateVersion(loadedVersion, lot); reverts with "Rates changed" otherwise
+ * @param encryptedVehicleClass - Encrypted vehicle class handle from the same input proof
  * @returns Transaction receipt and fee handle
  */
 export async function callQuote(
   encryptedMinutes: string,
-  inputProof: string
+  inputProof: string,
+  lotId: number,
+  expectedRateVersion: number,
+  encryptedVehicleClass?: string
 ): Promise<{ txHash: string; feeHandle: string }> {
   const signer = await getSigner();
   const contract = getContract(signer);
 
-  console.log('[Contract] Calling quote...');
-  const tx = await contract.quote(encryptedMinutes, inputProof);
+  console.log('[Contract] Calling quote for lot', lotId);
+  let tx;
+  try {
+    if (encryptedVehicleClass !== undefined) {
+      tx = await contract['quote(uint256,bytes32,bytes32,bytes,uint256)'](
+        lotId,
+        encryptedMinutes,
+        encryptedVehicleClass,
+        inputProof,
+        expectedRateVersion
+      );
+    } else {
+      tx = await contract['quote(uint256,bytes32,bytes,uint256)'](
+        lotId,
+        encryptedMinutes,
+        inputProof,
+        expectedRateVersion
+      );
+    }
+  } catch (error: any) {
+    // Reverts surface during gas estimation, before anything is sent
+    if (error?.reason === 'Rates changed') {
+      throw new Error(RATES_CHANGED_ERROR);
+    }
+    throw error;
+  }
   console.log('[Contract] Transaction sent:', tx.hash);
 
   const receipt = await tx.wait();
@@ -183,36 +936,626 @@ export async function callQuote(
   return { txHash: tx.hash, feeHandle };
 }
 
-// Owner functions
-
-export async function setPricePerBlock(newPrice: number): Promise<string> {
+/**
+ * Quote several stays in one transaction
+ * @param encryptedMinutes - Handles from one encrypted input, one per stay
+ * @param inputProof - Proof shared by all handles
+ * @param lotId - Lot whose rate card is applied
+ * @param expectedRateVersion - Rate version of the rates the caller displayed (see callQuote)
+ * @returns Transaction hash, fee handle per stay (input order) and handle of the total
+ */
+export async function callQuoteBatch(
+  encryptedMinutes: string[],
+  inputProof: string,
+  lotId: number,
+  expectedRateVersion: number
+): Promise<{ txHash: string; feeHandles: string[]; totalHandle: string }> {
   const signer = await getSigner();
   const contract = getContract(signer);
 
-  const tx = await contract.setPricePerBlock(BigInt(newPrice));
-  await tx.wait();
+  console.log(`[Contract] Calling quoteBatch for lot ${lotId} (${encryptedMinutes.length} stays)`);
+  let tx;
+  try {
+    tx = await contract['quoteBatch(uint256,bytes32[],bytes,uint256)'](
+      lotId,
+      encryptedMinutes,
+      inputProof,
+      expectedRateVersion
+    );
+  } catch (error) {
+    if ((error as { reason?: string })?.reason === 'Rates changed') {
+      throw new Error(RATES_CHANGED_ERROR);
+    }
+    throw error;
+  }
+  console.log('[Contract] Transaction sent:', tx.hash);
 
-  return tx.hash;
+  const receipt = await tx.wait();
+  console.log('[Contract] Transaction confirmed');
+
+  // Quoted is emitted once per stay in input order, BatchQuoted once with the total
+  const feeHandles: string[] = [];
+  let totalHandle = '';
+  for (const log of receipt.logs) {
+    let parsed;
+    try {
+      parsed = contract.interface.parseLog(log);
+    } catch {
+      continue;
+    }
+    if (parsed?.name === 'Quoted') {
+      feeHandles.push(parsed.args.feeHandle);
+    } else if (parsed?.name === 'BatchQuoted') {
+      totalHandle = parsed.args.totalHandle;
+    }
+  }
+
+  // The total is also the user's last fee
+  if (!totalHandle) {
+    totalHandle = await getMyFeeHandle();
+  }
+
+  return { txHash: tx.hash, feeHandles, totalHandle };
 }
 
-export async function setMaxBlocks(newMax: number): Promise<string> {
+/**
+ * Check in at a lot (stores the public check-in time as a euint64 on-chain)
+ * @param lotId - Lot identifier
+ * @returns Transaction hash, entry handle and block timestamp of check-in (seconds)
+ */
+export async function startSession(
+  lotId: number = DEFAULT_LOT_ID
+): Promise<{ txHash: string; entryHandle: string; startedAt: number }> {
   const signer = await getSigner();
   const contract = getContract(signer);
 
-  const tx = await contract.setMaxBlocks(newMax);
-  await tx.wait();
+  console.log('[Contract] Starting session...');
+  const tx = await contract.startSession(lotId);
+  const receipt = await tx.wait();
+  console.log('[Contract] Session started');
 
-  return tx.hash;
+  const entryHandle = findEventArg(contract, receipt, 'SessionStarted', 'entryHandle');
+  const block = await receipt.getBlock();
+
+  return { txHash: tx.hash, entryHandle, startedAt: Number(block.timestamp) };
 }
 
-export async function transferOwnership(newOwner: string): Promise<string> {
+/**
+ * Check out of a lot (fee computed on-chain from encrypted duration)
+ * @param lotId - Lot identifier
+ * @returns Transaction hash and fee handle
+ */
+export async function endSession(
+  lotId: number = DEFAULT_LOT_ID
+): Promise<{ txHash: string; feeHandle: string }> {
   const signer = await getSigner();
   const contract = getContract(signer);
 
-  const tx = await contract.transferOwnership(newOwner);
-  await tx.wait();
+  console.log('[Contract] Ending session...');
+  const tx = await contract.endSession(lotId);
+  const receipt = await tx.wait();
+  console.log('[Contract] Session ended');
 
-  return tx.hash;
+  let feeHandle = findEventArg(contract, receipt, 'SessionEnded', 'feeHandle');
+  if (!feeHandle) {
+    feeHandle = await getMyFeeHandle();
+  }
+
+  return { txHash: tx.hash, feeHandle };
+}
+
+/**
+ * Approve the calculator (or another contract) as operator on the payment token
+ * @param durationSeconds - How long the approval stays valid
+ * @param operator - Contract allowed to move the caller's tokens
+ * @returns Transaction hash
+ */
+export async function approvePaymentOperator(
+  durationSeconds: number = PAYMENT_OPERATOR_DURATION,
+  operator: string = CONTRACT_ADDRESS
+): Promise<string> {
+  const signer = await getSigner();
+  const token = await getPaymentTokenContract(signer);
+
+  const until = Math.floor(Date.now() / 1000) + durationSeconds;
+  const tx = await token.setOperator(operator, until);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+/**
+ * Pay the last calculated fee with the confidential payment token
+ * @returns Transaction hash and handle to the encrypted transferred amount
+ */
+export async function callPay(): Promise<{ txHash: string; paidHandle: string }> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  console.log('[Contract] Paying fee...');
+  const tx = await contract.pay();
+  const receipt = await tx.wait();
+  console.log('[Contract] Fee paid');
+
+  let paidHandle = findEventArg(contract, receipt, 'Paid', 'paidHandle');
+  if (!paidHandle) {
+    paidHandle = await getMyPaymentHandle();
+  }
+
+  return { txHash: tx.hash, paidHandle };
+}
+
+/**
+ * Let a viewer (e.g. an employer) decrypt one fee of the caller's history
+ * @param index - Position in the caller's quote history
+ * @param viewer - Address to grant decryption access to
+ * @returns Transaction hash
+ */
+export async function shareQuote(index: number, viewer: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.shareQuote(index, viewer);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+/**
+ * Top up the prepaid balance with the confidential payment token
+ * @param encryptedAmount - The encrypted amount handle in cents (bytes32)
+ * @param inputProof - The proof from FHE encryption
+ * @returns Transaction hash and handle to the encrypted new balance
+ */
+export async function callDeposit(
+  encryptedAmount: string,
+  inputProof: string
+): Promise<{ txHash: string; balanceHandle: string }> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  console.log('[Contract] Depositing to prepaid balance...');
+  const tx = await contract.deposit(encryptedAmount, inputProof);
+  const receipt = await tx.wait();
+  console.log('[Contract] Deposit complete');
+
+  let balanceHandle = findEventArg(contract, receipt, 'Deposited', 'balanceHandle');
+  if (!balanceHandle) {
+    balanceHandle = await getMyBalanceHandle();
+  }
+
+  return { txHash: tx.hash, balanceHandle };
+}
+
+/**
+ * Move the whole prepaid balance back to the caller's token balance and close it
+ * @returns Transaction hash
+ */
+export async function callWithdraw(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  console.log('[Contract] Withdrawing prepaid balance...');
+  const tx = await contract.withdraw();
+  await tx.wait();
+  console.log('[Contract] Withdrawal complete');
+
+  return tx.hash;
+}
+
+/**
+ * Grant a driver free minutes and a discount on their next quote (merchant role)
+ * @param driver - Driver address
+ * @param encryptedMinutes - Encrypted free minutes handle (bytes32)
+ * @param encryptedPercent - Encrypted discount percent handle (bytes32)
+ * @param inputProof - The proof covering both handles
+ * @returns Transaction hash
+ */
+export async function callValidate(
+  driver: string,
+  encryptedMinutes: string,
+  encryptedPercent: string,
+  inputProof: string
+): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  console.log('[Contract] Issuing validation to', driver);
+  const tx = await contract.validate(driver, encryptedMinutes, encryptedPercent, inputProof);
+  await tx.wait();
+  console.log('[Contract] Validation issued');
+
+  return tx.hash;
+}
+
+/**
+ * Buy or extend a monthly pass with the confidential payment token
+ * @param lotId - Lot the pass is valid at
+ * @param expectedPrice - Pass price the caller displayed (reverts if it changed)
+ * @returns Transaction hash and handle to the encrypted expiry timestamp
+ */
+export async function callBuyPass(
+  lotId: number,
+  expectedPrice: bigint
+): Promise<{ txHash: string; expiryHandle: string }> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  console.log('[Contract] Buying pass for lot', lotId);
+  const tx = await contract.buyPass(lotId, expectedPrice);
+  const receipt = await tx.wait();
+  console.log('[Contract] Pass purchased');
+
+  let expiryHandle = findEventArg(contract, receipt, 'PassPurchased', 'expiryHandle');
+  if (!expiryHandle) {
+    expiryHandle = await getMyPassHandle(lotId);
+  }
+
+  return { txHash: tx.hash, expiryHandle };
+}
+
+// Owner functions
+
+/**
+ * Queue the default lot's rate card together with the fee rules of every lot; every
+ * fee parameter changes only this way
+ * @param change - Full rate card and rules (unchanged fields carry their current value);
+ *                 effectiveAt at least MIN_RATE_CHANGE_DELAY from now
+ */
+export async function scheduleRateChange(change: Required<PendingRateChange>): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const { rules } = change;
+  const tx = await contract.scheduleRateChange(
+    {
+      pricePerBlock: change.pricePerBlock,
+      maxBlocks: change.maxBlocks,
+      blockMinutes: change.blockMinutes,
+      effectiveAt: change.effectiveAt,
+    },
+    {
+      tiers: rules.tiers.map((t) => ({ fromBlock: t.fromBlock, pricePerBlock: t.pricePerBlock })),
+      dailyMaxFee: rules.dailyMaxFee,
+      minimumFee: rules.minimumFee,
+      graceMinutes: rules.graceMinutes,
+      graceDeducted: rules.graceDeducted,
+      classMultipliers: rules.classMultipliers,
+    }
+  );
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function cancelRateChange(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.cancelRateChange();
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function setPassPrice(lotId: number, priceCents: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.setPassPrice(lotId, BigInt(priceCents));
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function addLot(
+  name: string,
+  operator: string,
+  pricePerBlock: number,
+  maxBlocks: number,
+  blockMinutes: number
+): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.addLot(name, operator, BigInt(pricePerBlock), maxBlocks, blockMinutes);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function setLotOperator(lotId: number, operator: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.setLotOperator(lotId, operator);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+/**
+ * Queue a new rate card for a lot (same timelock as the default lot)
+ * @param effectiveAt - Unix seconds, at least MIN_RATE_CHANGE_DELAY from now
+ */
+export async function scheduleLotRateChange(
+  lotId: number,
+  pricePerBlock: number,
+  maxBlocks: number,
+  blockMinutes: number,
+  effectiveAt: number
+): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.scheduleLotRateChange(lotId, BigInt(pricePerBlock), maxBlocks, blockMinutes, effectiveAt);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function cancelLotRateChange(lotId: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.cancelLotRateChange(lotId);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function setLotActive(lotId: number, active: boolean): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.setLotActive(lotId, active);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function transferOwnership(newOwner: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.transferOwnership(newOwner);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// Complete a pending ownership transfer (called by the pending owner)
+export async function acceptOwnership(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.acceptOwnership();
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// Stop quoting, sessions and payments (pauser role)
+export async function pauseContract(reason: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.pause(reason);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function unpauseContract(): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.unpause();
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function grantRole(role: RoleName, account: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.grantRole(ROLES[role], account);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+export async function revokeRole(role: RoleName, account: string): Promise<string> {
+  const signer = await getSigner();
+  const contract = getContract(signer);
+
+  const tx = await contract.revokeRole(ROLES[role], account);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// Spots of a lot bookable in advance (0 = no reservations)
+export async function getLotCapacity(lotId: number): Promise<number> {
+  const provider = await getProvider();
+  const contract = getReservationsContract(provider);
+  return Number(await contract.lotCapacity(lotId));
+}
+
+/**
+ * Set how many spots of a lot can be reserved (lot operator or operator role)
+ * @returns Transaction hash
+ */
+export async function setLotCapacity(lotId: number, capacity: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const tx = await contract.setLotCapacity(lotId, capacity);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// Overstay penalty per block past a reservation's end, in cents (0 = no penalty)
+export async function getPenaltyPerBlock(): Promise<bigint> {
+  const provider = await getProvider();
+  const contract = getReservationsContract(provider);
+  return await contract.penaltyPerBlock();
+}
+
+/**
+ * Set the overstay penalty per block (calculator owner only)
+ * @param cents - Penalty per block in cents (0 disables it)
+ * @returns Transaction hash
+ */
+export async function setPenaltyPerBlock(cents: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const tx = await contract.setPenaltyPerBlock(cents);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// Bookings a driver holds open (at most MAX_OPEN_BOOKINGS)
+export async function getOpenBookings(driver: string): Promise<number> {
+  const provider = await getProvider();
+  const contract = getReservationsContract(provider);
+  return Number(await contract.openBookings(driver));
+}
+
+// Ids of the bookings holding capacity at a lot
+export async function getActiveReservationIds(lotId: number): Promise<number[]> {
+  const provider = await getProvider();
+  const contract = getReservationsContract(provider);
+  const ids: bigint[] = await contract.getActiveReservationIds(lotId);
+  return ids.map(Number);
+}
+
+/**
+ * The caller's reservations, newest first
+ */
+export async function getMyReservations(): Promise<Reservation[]> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const ids: bigint[] = await contract.getMyReservationIds();
+  const reservations = await Promise.all(
+    ids.map(async (id) => {
+      const r = await contract.getReservation(id);
+      return {
+        id: Number(id),
+        lotId: Number(r.lotId),
+        startHandle: r.startHandle,
+        endHandle: r.endHandle,
+        feeHandle: r.feeHandle,
+        penaltyHandle: r.penaltyHandle,
+        penaltyPaidHandle: r.penaltyPaidHandle,
+        confirmedHandle: r.confirmedHandle,
+        expiresAt: Number(r.expiresAt),
+        active: r.active,
+      };
+    })
+  );
+  return reservations.reverse();
+}
+
+/**
+ * Book a spot with an encrypted start time and duration
+ * @param lotId - Lot to book
+ * @param encryptedStart - Encrypted start handle, unix seconds (bytes32)
+ * @param encryptedMinutes - Encrypted duration handle, minutes (bytes32)
+ * @param inputProof - The proof covering both handles
+ * @returns Transaction hash and handle to the encrypted fee
+ */
+export async function callReserve(
+  lotId: number,
+  encryptedStart: string,
+  encryptedMinutes: string,
+  inputProof: string
+): Promise<{ txHash: string; feeHandle: string }> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  console.log('[Contract] Reserving at lot', lotId);
+  const tx = await contract.reserve(lotId, encryptedStart, encryptedMinutes, inputProof);
+  const receipt = await tx.wait();
+  console.log('[Contract] Reservation stored');
+
+  return { txHash: tx.hash, feeHandle: findEventArg(contract, receipt, 'Reserved', 'feeHandle') };
+}
+
+/**
+ * Cancel a reservation (or release the spot early after leaving)
+ * @returns Transaction hash
+ */
+export async function cancelReservation(id: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const tx = await contract.cancelReservation(id);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+/**
+ * First step of releasing a booking that holds a spot without a car (anyone can call it)
+ * @returns Handle of the encrypted "not confirmed or ended" bit, publicly decryptable
+ */
+export async function requestReservationRelease(id: number): Promise<string> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const tx = await contract.requestRelease(id);
+  const receipt = await tx.wait();
+
+  return findEventArg(contract, receipt, 'ReleaseRequested', 'releasableHandle');
+}
+
+/**
+ * Release a booking with the public decryption of its requested bit
+ * @param cleartexts - ABI-encoded decrypted bit from publicDecrypt
+ * @param decryptionProof - KMS proof from publicDecrypt
+ * @returns Transaction hash
+ */
+export async function releaseReservation(
+  id: number,
+  cleartexts: string,
+  decryptionProof: string
+): Promise<string> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  const tx = await contract.release(id, cleartexts, decryptionProof);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+/**
+ * Check out of a reservation: bills the blocks parked past the reserved end,
+ * charges them to the lot in the payment token and releases the spot
+ * @returns Transaction hash and handles to the encrypted overstay penalty and
+ * the amount charged for it (empty if no penalty is set)
+ */
+export async function checkOutReservation(
+  id: number
+): Promise<{ txHash: string; penaltyHandle: string; penaltyPaidHandle: string }> {
+  const signer = await getSigner();
+  const contract = getReservationsContract(signer);
+
+  console.log('[Contract] Checking out of reservation', id);
+  const tx = await contract.checkOut(id);
+  const receipt = await tx.wait();
+
+  return {
+    txHash: tx.hash,
+    penaltyHandle: findEventArg(contract, receipt, 'CheckedOut', 'penaltyHandle'),
+    penaltyPaidHandle: findEventArg(contract, receipt, 'PenaltyCharged', 'paidHandle'),
+  };
 }
 
 // Format price (cents to dollars)
@@ -221,6 +1564,11 @@ export function formatPrice(cents: bigint | number): string {
   return `$${(centsNum / 100).toFixed(2)}`;
 }
 
+// Format a vehicle class multiplier (basis points to "×1.5")
+export function formatMultiplier(bps: number): string {
+  return `×${bps / MULTIPLIER_BASE}`;
+}
+
 // Declare ethereum on window
 declare global {
   interface Window {
@@ -7,7 +7,7 @@ import {
   initSDK,
   SepoliaConfig as SDKSepoliaConfig,
 } from '@zama-fhe/relayer-sdk/web';
-import { getAddress, hexlify } from 'ethers';
+import { getAddress, hexlify, type Signer } from 'ethers';
 
 // Use SDK's built-in Sepolia config (FHEVM 0.9.1)
 const envRelayerUrl =
@@ -116,6 +116,34 @@ export async function encryptUint64(
   };
 }
 
+/**
+ * Encrypt several uint64 values in one input (one shared proof)
+ * @param values - The values to encrypt, at most 32 (2048 bits per input)
+ * @param contractAddress - The target contract address
+ * @param userAddress - The user's wallet address
+ * @returns Handles in input order and the shared inputProof
+ */
+export async function encryptUint64Batch(
+  values: (number | bigint)[],
+  contractAddress: string,
+  userAddress: string
+): Promise<{ handles: string[]; inputProof: string }> {
+  const fhe = await initializeFHE();
+
+  const contractAddr = getAddress(contractAddress) as `0x${string}`;
+  const input = fhe.createEncryptedInput(contractAddr, userAddress);
+  for (const value of values) {
+    input.add64(BigInt(value));
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+
+  return {
+    handles: handles.map((handle) => hexlify(handle)),
+    inputProof: hexlify(inputProof)
+  };
+}
+
 /**
  * Encrypt parking minutes for the quote function
  * @param minutes - Total parking minutes
@@ -137,3 +165,197 @@ export async function encryptParkingMinutes(
 
   return result;
 }
+
+/**
+ * Encrypt the minutes of several stays for quoteBatch
+ * @param minutesList - Minutes of each stay
+ * @param contractAddress - ParkingFeeCalculator contract address
+ * @param userAddress - User's wallet address
+ */
+export async function encryptParkingMinutesBatch(
+  minutesList: number[],
+  contractAddress: string,
+  userAddress: string
+): Promise<{ handles: string[]; inputProof: string }> {
+  if (minutesList.length === 0) {
+    throw new Error('Add at least one stay');
+  }
+  if (minutesList.some((minutes) => minutes <= 0)) {
+    throw new Error('Minutes must be greater than 0');
+  }
+
+  console.log(`[FHE] Encrypting ${minutesList.length} stays...`);
+  const result = await encryptUint64Batch(minutesList, contractAddress, userAddress);
+  console.log('[FHE] Encryption complete');
+
+  return result;
+}
+
+/**
+ * Encrypt parking minutes and vehicle class in one input (one shared proof)
+ * @param minutes - Total parking minutes
+ * @param vehicleClass - Vehicle class id (0 = car, 1 = motorcycle, 2 = EV, 3 = oversized)
+ * @param contractAddress - ParkingFeeCalculator contract address
+ * @param userAddress - User's wallet address
+ */
+export async function encryptParkingMinutesWithClass(
+  minutes: number,
+  vehicleClass: number,
+  contractAddress: string,
+  userAddress: string
+): Promise<{ minutesHandle: string; classHandle: string; inputProof: string }> {
+  if (minutes <= 0) {
+    throw new Error('Minutes must be greater than 0');
+  }
+
+  const fhe = await initializeFHE();
+
+  console.log(`[FHE] Encrypting ${minutes} minutes and vehicle class...`);
+  const contractAddr = getAddress(contractAddress) as `0x${string}`;
+  const input = fhe.createEncryptedInput(contractAddr, userAddress);
+  input.add64(BigInt(minutes));
+  input.add8(vehicleClass);
+
+  const { handles, inputProof } = await input.encrypt();
+  console.log('[FHE] Encryption complete');
+
+  return {
+    minutesHandle: hexlify(handles[0]),
+    classHandle: hexlify(handles[1]),
+    inputProof: hexlify(inputProof)
+  };
+}
+
+// Validity window requested for user decryption signatures
+const DECRYPT_DURATION_DAYS = 1;
+
+// Handles per userDecrypt request (the relayer accepts 2048 bits = 32 x uint64)
+const DECRYPT_BATCH_SIZE = 32;
+
+/**
+ * User-decrypt a single uint64 handle via the Relayer SDK
+ * @param handle - The encrypted handle (bytes32)
+ * @param contractAddress - Contract that granted ACL access to the handle
+ * @param signer - Connected wallet signer (must be allowed on the handle)
+ * @returns Decrypted value as bigint
+ */
+export async function userDecryptUint64(
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint> {
+  const [value] = await userDecryptUint64Batch([handle], contractAddress, signer);
+  return value;
+}
+
+/**
+ * User-decrypt several uint64 handles with a single wallet signature
+ * Generates an ephemeral keypair, asks the wallet to sign the EIP-712
+ * request and lets the KMS re-encrypt the values for that keypair.
+ * @param handles - The encrypted handles (bytes32)
+ * @param contractAddress - Contract that granted ACL access to the handles
+ * @param signer - Connected wallet signer (must be allowed on every handle)
+ * @returns Decrypted values as bigint, in input order
+ */
+export async function userDecryptUint64Batch(
+  handles: string[],
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint[]> {
+  const fhe = await initializeFHE();
+
+  const contractAddr = getAddress(contractAddress);
+  const userAddress = getAddress(await signer.getAddress());
+
+  // Ephemeral keypair used by the KMS to re-encrypt the result
+  const keypair = fhe.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+  const contractAddresses = [contractAddr];
+
+  // EIP-712 authorization signed by the wallet
+  const eip712 = fhe.createEIP712(
+    keypair.publicKey,
+    contractAddresses,
+    startTimestamp,
+    DECRYPT_DURATION_DAYS
+  );
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    {
+      UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+    },
+    eip712.message
+  );
+
+  // The same authorization covers every request of the batch
+  const values: bigint[] = [];
+  for (let i = 0; i < handles.length; i += DECRYPT_BATCH_SIZE) {
+    const chunk = handles.slice(i, i + DECRYPT_BATCH_SIZE);
+    const results = await fhe.userDecrypt(
+      chunk.map((handle) => ({ handle, contractAddress: contractAddr })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace('0x', ''),
+      contractAddresses,
+      userAddress,
+      startTimestamp,
+      DECRYPT_DURATION_DAYS
+    );
+
+    for (const handle of chunk) {
+      const value = results[handle as `0x${string}`];
+      if (value === undefined) {
+        throw new Error('Decryption result missing for handle');
+      }
+      values.push(BigInt(value));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Public-decrypt a boolean handle a contract made publicly decryptable
+ * @param handle - The encrypted handle (bytes32)
+ * @returns The value, with the ABI-encoded cleartexts and KMS proof the contract
+ * verifies (FHE.checkSignatures)
+ */
+export async function publicDecryptBool(
+  handle: string
+): Promise<{ value: boolean; cleartexts: string; decryptionProof: string }> {
+  const fhe = await initializeFHE();
+  const results = await fhe.publicDecrypt([handle]);
+  const value = results.clearValues[handle as `0x${string}`];
+  if (value === undefined) {
+    throw new Error('Decryption result missing for handle');
+  }
+
+  return {
+    value: value === true,
+    cleartexts: results.abiEncodedClearValues,
+    decryptionProof: results.decryptionProof,
+  };
+}
+
+/**
+ * Decrypt an encrypted parking fee handle returned by quote
+ * @param feeHandle - The encrypted fee handle (bytes32)
+ * @param contractAddress - ParkingFeeCalculator contract address
+ * @param signer - Connected wallet signer
+ * @returns Fee in cents
+ */
+export async function decryptFee(
+  feeHandle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint> {
+  if (!feeHandle || BigInt(feeHandle) === 0n) {
+    throw new Error('No fee to decrypt. Calculate a fee first.');
+  }
+
+  console.log('[FHE] Decrypting fee...');
+  const fee = await userDecryptUint64(feeHandle, contractAddress, signer);
+  console.log('[FHE] Decryption complete');
+
+  return fee;
+}
@@ -0,0 +1,223 @@
+// Plaintext simulation of ParkingFeeCalculator.quote
+// Follows the encrypted computation step by step with uint64 wraparound,
+// so an estimate equals the fee the contract returns for the same inputs.
+
+// Dependency-free on purpose: the contracts' fuzz test imports it as the
+// plaintext reference for FeeMath.computeBlocks. The root package is ESM, so
+// contracts/tsconfig.json has ts-node load this file as CommonJS.
+
+// Minutes in one daily cap period (mirrors ParkingFeeCalculator.DAY_MINUTES)
+export const DAY_MINUTES = 1440;
+
+// Vehicle class multipliers are in basis points (mirrors MULTIPLIER_BASE)
+export const MULTIPLIER_BASE = 10000;
+
+const UINT64_MASK = (1n << 64n) - 1n;
+
+// A pricing tier applies from `fromBlock` (0-based) up to the next tier's start
+export interface PricingTier {
+  fromBlock: number;
+  pricePerBlock: bigint; // cents
+}
+
+// Fee rules of one lot, as read from the contract
+export interface FeeRules {
+  pricePerBlock: bigint; // cents
+  blockMinutes: number;
+  maxBlocks: number;
+  tiers: PricingTier[];
+  dailyMaxFee: bigint; // cents, 0 = no cap
+  minimumFee: bigint; // cents, 0 = none
+  graceMinutes: number; // Stays up to this long are free, 0 = no grace period
+  graceDeducted: boolean; // Longer stays are billed for their minutes beyond the grace period
+}
+
+// Every intermediate step of a simulated quote
+export interface FeeBreakdown {
+  minutes: bigint;
+  billedMinutes: bigint; // After deducting the grace period
+  withinGrace: boolean; // Free stay, all other steps are skipped
+  blocks: bigint; // Billed blocks, after the maxBlocks cap
+  capHit: boolean; // Stay longer than maxBlocks blocks, billed at the cap
+  blocksFee: bigint; // cents, flat or tiered price of the billed blocks
+  dailyCapApplied: boolean; // At least one day was capped at dailyMaxFee
+  minimumApplied: boolean; // Raised to minimumFee
+  classMultiplierBps: number | null; // Vehicle class multiplier, null for quotes without a class
+  fee: bigint; // cents, what quote returns
+}
+
+const u64 = (value: bigint) => value & UINT64_MASK;
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+// Billed blocks for a stay (mirrors FeeMath.computeBlocks)
+export function computeBlocks(minutes: bigint, blockMinutes: number, maxBlocks: number): bigint {
+  // Clamp to the longest billable stay, then ceil(minutes / blockMinutes)
+  const clamped = min(u64(minutes), BigInt(maxBlocks) * BigInt(blockMinutes));
+  return (clamped + BigInt(blockMinutes) - 1n) / BigInt(blockMinutes);
+}
+
+// Segment of blocks at one price starting at `from`, split at tier starts and,
+// when perDay > 0, at 24h periods (mirrors FeeMath.nextSegment)
+function nextSegment(from: number, rules: FeeRules, perDay: number) {
+  let to = rules.maxBlocks;
+  let price = rules.pricePerBlock;
+  for (const tier of rules.tiers) {
+    if (tier.fromBlock > from) {
+      to = Math.min(to, tier.fromBlock);
+      break;
+    }
+    price = tier.pricePerBlock;
+  }
+  if (perDay > 0) {
+    to = Math.min(to, (Math.floor(from / perDay) + 1) * perDay);
+  }
+  return { to, price };
+}
+
+// Fee for a number of blocks, each 24h period capped at dailyMaxFee if set
+// (mirrors FeeMath.priceBlocks)
+export function priceBlocks(
+  blocks: bigint,
+  rules: FeeRules
+): { fee: bigint; dailyCapApplied: boolean } {
+  const perDay = rules.dailyMaxFee > 0n ? Math.floor(DAY_MINUTES / rules.blockMinutes) : 0;
+  let fee = 0n;
+  let periodFee = 0n;
+  let dailyCapApplied = false;
+  let lower = 0n;
+
+  // Segment fee = price * (min(blocks, to) - min(blocks, from))
+  for (let from = 0; from < rules.maxBlocks; ) {
+    const { to, price } = nextSegment(from, rules, perDay);
+    const upper = to < rules.maxBlocks ? min(blocks, BigInt(to)) : blocks;
+    periodFee = u64(periodFee + u64(u64(upper - lower) * price));
+
+    if (to === rules.maxBlocks || (perDay > 0 && to % perDay === 0)) {
+      if (perDay > 0 && periodFee > rules.dailyMaxFee) {
+        dailyCapApplied = true;
+        periodFee = rules.dailyMaxFee;
+      }
+      fee = u64(fee + periodFee);
+      periodFee = 0n;
+    }
+    lower = upper;
+    from = to;
+  }
+  return { fee, dailyCapApplied };
+}
+
+// HCU per euint64 operation as charged by the coprocessor (mirrors the FeeMath cost model;
+// _S: scalar operand)
+const HCU_ADD = 162_000; // Also sub
+const HCU_ADD_S = 133_000;
+const HCU_MUL_S = 365_000;
+const HCU_DIV_S = 715_000;
+const HCU_MIN_S = 150_000; // Also max
+const HCU_LIMIT = 20_000_000; // Per transaction
+const HCU_DEPTH_LIMIT = 5_000_000; // Per sequential chain
+const QUOTE_OVERHEAD_HCU = 4_210_000;
+const QUOTE_OVERHEAD_DEPTH = 2_395_000;
+const BATCH_STAY_OVERHEAD_HCU = 707_000;
+
+const log2Ceil = (x: number) => {
+  let levels = 0;
+  while (2 ** levels < x) levels++;
+  return levels;
+};
+
+// Upper bound on the HCU and sequential depth of pricing one stay (mirrors FeeMath.pricingCost)
+function pricingCost(rules: FeeRules): { hcu: number; depth: number } {
+  const perDay = rules.dailyMaxFee > 0n ? Math.floor(DAY_MINUTES / rules.blockMinutes) : 0;
+  let hcu = 0;
+  let periods = 0;
+  let longest = 0; // Most segments in one period
+  let n = 0;
+  for (let from = 0; from < rules.maxBlocks; ) {
+    const { to } = nextSegment(from, rules, perDay);
+    hcu += HCU_MIN_S + HCU_ADD + HCU_MUL_S + HCU_ADD;
+    longest = Math.max(longest, ++n);
+    if (to === rules.maxBlocks || (perDay > 0 && to % perDay === 0)) {
+      periods++;
+      n = 0;
+    }
+    from = to;
+  }
+
+  const blocksCost = HCU_MIN_S + HCU_ADD_S + HCU_DIV_S;
+  hcu += blocksCost;
+  let depth = blocksCost + HCU_MIN_S + HCU_ADD + HCU_MUL_S;
+  depth += (log2Ceil(longest) + log2Ceil(periods)) * HCU_ADD;
+  if (perDay > 0) {
+    hcu += periods * HCU_MIN_S;
+    depth += HCU_MIN_S;
+  }
+  if (rules.minimumFee > 0n) {
+    hcu += HCU_MIN_S;
+    depth += HCU_MIN_S;
+  }
+  return { hcu, depth };
+}
+
+// Most stays one batch quote can take at these rules, 0 if none (mirrors
+// FeeMath.maxBatchSize: larger batches revert with "Bad batch size")
+export function maxBatchSize(rules: FeeRules): number {
+  const pricing = pricingCost(rules);
+  const hcu = pricing.hcu + QUOTE_OVERHEAD_HCU;
+  const depth = pricing.depth + QUOTE_OVERHEAD_DEPTH;
+  if (hcu > HCU_LIMIT || depth > HCU_DEPTH_LIMIT) return 0;
+
+  const byHcu = Math.floor((HCU_LIMIT - hcu) / (pricing.hcu + BATCH_STAY_OVERHEAD_HCU));
+  const byDepth = Math.floor((HCU_DEPTH_LIMIT - depth) / HCU_ADD);
+  return 1 + Math.min(byHcu, byDepth);
+}
+
+// Simulate quote for a stay (mirrors _computeFee: grace period, blocks, pricing, daily cap,
+// minimum, then the class multiplier when quoting with a vehicle class)
+export function simulateQuote(
+  minutes: bigint,
+  rules: FeeRules,
+  classMultiplierBps?: number
+): FeeBreakdown {
+  // Grace period: free at or below the threshold, optionally deducted above it
+  const grace = BigInt(rules.graceMinutes);
+  const withinGrace = grace > 0n && u64(minutes) <= grace;
+  const billedMinutes =
+    grace > 0n && rules.graceDeducted ? (withinGrace ? 0n : u64(minutes) - grace) : u64(minutes);
+
+  const blocks = computeBlocks(billedMinutes, rules.blockMinutes, rules.maxBlocks);
+  const blocksFee = priceBlocks(blocks, { ...rules, dailyMaxFee: 0n }).fee;
+
+  // Daily cap: cap the fee of each 24h period
+  const capped = priceBlocks(blocks, rules);
+  let fee = capped.fee;
+  const dailyCapApplied = capped.dailyCapApplied;
+
+  // Minimum charge
+  const minimumApplied = !withinGrace && fee < rules.minimumFee;
+  if (minimumApplied) {
+    fee = rules.minimumFee;
+  }
+
+  if (withinGrace) {
+    fee = 0n;
+  }
+
+  // Vehicle class: fee * multiplier / 10000, rounded down
+  if (classMultiplierBps !== undefined) {
+    fee = u64(fee * BigInt(classMultiplierBps)) / BigInt(MULTIPLIER_BASE);
+  }
+
+  return {
+    minutes,
+    billedMinutes,
+    withinGrace,
+    blocks,
+    capHit: billedMinutes > BigInt(rules.maxBlocks) * BigInt(rules.blockMinutes),
+    blocksFee,
+    dailyCapApplied,
+    minimumApplied,
+    classMultiplierBps: classMultiplierBps ?? null,
+    fee,
+  };
+}
@@ -3,41 +3,99 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Settings,
   DollarSign,
-  Clock,
+  CalendarClock,
   Shield,
   AlertCircle,
   Loader2,
   CheckCircle2,
   ExternalLink,
   RefreshCw,
+  Layers,
+  Plus,
+  Trash2,
+  Scale,
+  PauseCircle,
 } from "lucide-react";
+import LotManagementCard from "@/components/admin/LotManagementCard";
+import RolesCard from "@/components/admin/RolesCard";
+import RevenueCard from "@/components/admin/RevenueCard";
+import VehicleClassCard from "@/components/admin/VehicleClassCard";
+import PassPricingCard from "@/components/admin/PassPricingCard";
+import ReservationsCard from "@/components/admin/ReservationsCard";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/hooks/useWallet";
 import {
   getContractVersion,
   getContractOwner,
+  getPendingOwner,
+  getPauseState,
+  getPendingRateChange,
+  getRateVersion,
+  hasRole,
   getPricePerBlock,
   getMaxBlocks,
   getBlockMinutes,
-  setPricePerBlock as updatePricePerBlock,
-  setMaxBlocks as updateMaxBlocks,
+  getFeeRules,
+  getLots,
+  scheduleRateChange as contractScheduleRateChange,
+  cancelRateChange as contractCancelRateChange,
   transferOwnership as contractTransferOwnership,
+  acceptOwnership as contractAcceptOwnership,
+  pauseContract,
+  unpauseContract,
   formatPrice,
+  isRateChangeDue,
   CONTRACT_ADDRESS,
+  MAX_CLASS_MULTIPLIER,
+  MAX_PRICING_TIERS,
+  MIN_RATE_CHANGE_DELAY,
+  type ParkingLot,
+  type PendingRateChange,
+  type PauseState,
+  type PricingTier,
+  type SharedFeeRules,
 } from "@/lib/contract";
+import { DAY_MINUTES, MULTIPLIER_BASE } from "@/lib/pricing";
+import { toDateTimeInput } from "@/lib/utils";
 
 interface ContractInfo {
   version: string;
   owner: string;
+  pendingOwner: string;
+  canManageRates: boolean;
+  canOperate: boolean;
+  canPause: boolean;
+  pauseState: PauseState;
+  pendingRateChange: PendingRateChange | null;
+  rateVersion: number;
   pricePerBlock: bigint;
   maxBlocks: number;
   blockMinutes: number;
+  rules: SharedFeeRules;
+  lots: ParkingLot[];
 }
 
+// Editable tier row (string inputs, price in USD)
+interface TierRow {
+  fromBlock: string;
+  price: string;
+}
+
+// One-line summary of the fee rules queued with a rate change
+const describeRules = (rules: SharedFeeRules) =>
+  [
+    rules.tiers.length > 0 ? `${rules.tiers.length} tiers` : "flat price",
+    `daily max ${rules.dailyMaxFee > 0n ? formatPrice(rules.dailyMaxFee) : "none"}`,
+    `minimum ${rules.minimumFee > 0n ? formatPrice(rules.minimumFee) : "none"}`,
+    `grace ${rules.graceMinutes} min${rules.graceDeducted ? " deducted" : ""}`,
+    `class rates ${rules.classMultipliers.map((bps) => `${bps / MULTIPLIER_BASE}x`).join("/")}`,
+  ].join(", ");
+
 const Admin = () => {
   const [contractInfo, setContractInfo] = useState<ContractInfo | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -45,7 +103,16 @@ const Admin = () => {
 
   const [newPrice, setNewPrice] = useState("");
   const [newMaxBlocks, setNewMaxBlocks] = useState("");
+  const [newEffectiveAt, setNewEffectiveAt] = useState("");
+  const [newBlockMinutes, setNewBlockMinutes] = useState("");
   const [newOwner, setNewOwner] = useState("");
+  const [tierRows, setTierRows] = useState<TierRow[]>([]);
+  const [newDailyMax, setNewDailyMax] = useState("");
+  const [newMinimumFee, setNewMinimumFee] = useState("");
+  const [newGraceMinutes, setNewGraceMinutes] = useState("");
+  const [newGraceDeducted, setNewGraceDeducted] = useState(false);
+  const [classFactors, setClassFactors] = useState<string[]>([]);
+  const [pauseReason, setPauseReason] = useState("");
 
   const { toast } = useToast();
   const wallet = useWallet();
@@ -55,35 +122,97 @@ const Admin = () => {
     contractInfo?.owner &&
     wallet.address.toLowerCase() === contractInfo.owner.toLowerCase();
 
+  const canManageRates = wallet.isConnected && !!contractInfo?.canManageRates;
+
+  const isPendingOwner =
+    wallet.isConnected &&
+    !!contractInfo?.pendingOwner &&
+    wallet.address.toLowerCase() === contractInfo.pendingOwner.toLowerCase();
+
+  const operatedLots =
+    wallet.isConnected && contractInfo
+      ? contractInfo.lots.filter(
+          (lot) => lot.operator.toLowerCase() === wallet.address.toLowerCase()
+        ).length
+      : 0;
+
   // Load contract info
   useEffect(() => {
     if (wallet.isConnected && wallet.isCorrectNetwork && CONTRACT_ADDRESS) {
       loadContractInfo();
     }
-  }, [wallet.isConnected, wallet.isCorrectNetwork]);
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
 
   const loadContractInfo = async () => {
     setIsLoading(true);
     try {
-      const [version, owner, pricePerBlock, maxBlocks, blockMinutes] = await Promise.all([
+      const [
+        version,
+        owner,
+        pendingOwner,
+        canManageRates,
+        canOperate,
+        canPause,
+        pauseState,
+        pendingRateChange,
+        rateVersion,
+        pricePerBlock,
+        maxBlocks,
+        blockMinutes,
+        rules,
+        lots,
+      ] = await Promise.all([
         getContractVersion(),
         getContractOwner(),
+        getPendingOwner(),
+        hasRole("rateManager", wallet.address),
+        hasRole("operator", wallet.address),
+        hasRole("pauser", wallet.address),
+        getPauseState(),
+        getPendingRateChange(),
+        getRateVersion(),
         getPricePerBlock(),
         getMaxBlocks(),
         getBlockMinutes(),
+        getFeeRules(),
+        getLots(),
       ]);
 
       setContractInfo({
         version,
         owner,
+        pendingOwner,
+        canManageRates,
+        canOperate,
+        canPause,
+        pauseState,
+        pendingRateChange,
+        rateVersion,
         pricePerBlock,
         maxBlocks,
         blockMinutes,
+        rules,
+        lots,
       });
 
       // Set form defaults
       setNewPrice((Number(pricePerBlock) / 100).toString());
       setNewMaxBlocks(maxBlocks.toString());
+      // Earliest allowed time plus a margin for the transaction to be mined
+      setNewEffectiveAt(toDateTimeInput(Date.now() + (MIN_RATE_CHANGE_DELAY + 3600) * 1000));
+      setNewBlockMinutes(blockMinutes.toString());
+      setNewDailyMax((Number(rules.dailyMaxFee) / 100).toString());
+      setNewMinimumFee((Number(rules.minimumFee) / 100).toString());
+      setNewGraceMinutes(rules.graceMinutes.toString());
+      setNewGraceDeducted(rules.graceDeducted);
+      // Multipliers are edited as factors ("1.5") and stored in basis points
+      setClassFactors(rules.classMultipliers.map((bps) => (bps / MULTIPLIER_BASE).toString()));
+      setTierRows(
+        rules.tiers.map((t) => ({
+          fromBlock: t.fromBlock.toString(),
+          price: (Number(t.pricePerBlock) / 100).toString(),
+        }))
+      );
     } catch (error) {
       console.error("Failed to load contract info:", error);
       toast({
@@ -96,8 +225,11 @@ const Admin = () => {
     }
   };
 
-  const handleUpdatePrice = async () => {
+  const handleScheduleRateChange = async () => {
     const priceInCents = Math.round(parseFloat(newPrice) * 100);
+    const blocks = parseInt(newMaxBlocks);
+    const minutesPerBlock = parseInt(newBlockMinutes);
+    const effectiveAt = Math.floor(new Date(newEffectiveAt).getTime() / 1000);
     if (isNaN(priceInCents) || priceInCents <= 0) {
       toast({
         title: "Invalid Price",
@@ -106,12 +238,117 @@ const Admin = () => {
       });
       return;
     }
+    if (isNaN(blocks) || blocks <= 0 || blocks > 65535) {
+      toast({
+        title: "Invalid Value",
+        description: "Max blocks must be 1-65535",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (isNaN(minutesPerBlock) || minutesPerBlock <= 0 || DAY_MINUTES % minutesPerBlock !== 0) {
+      toast({
+        title: "Invalid Value",
+        description: "Block size must divide 24 hours (e.g., 5, 15, 30, 60 minutes)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tiers: PricingTier[] = tierRows.map((row) => ({
+      fromBlock: parseInt(row.fromBlock),
+      pricePerBlock: BigInt(Math.round(parseFloat(row.price) * 100) || 0),
+    }));
+    const invalidTiers = tiers.some(
+      (tier, i) =>
+        isNaN(tier.fromBlock) ||
+        tier.pricePerBlock <= 0n ||
+        (i === 0 ? tier.fromBlock !== 0 : tier.fromBlock <= tiers[i - 1].fromBlock)
+    );
+    if (invalidTiers) {
+      toast({
+        title: "Invalid Tiers",
+        description:
+          "The first tier must start at block 0, start blocks must increase and prices must be greater than 0",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const dailyMaxFee = Math.round(parseFloat(newDailyMax) * 100);
+    const minimumFee = Math.round(parseFloat(newMinimumFee) * 100);
+    if (isNaN(dailyMaxFee) || dailyMaxFee < 0 || isNaN(minimumFee) || minimumFee < 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "Please enter valid fee limits (0 disables the rule)",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (dailyMaxFee > 0 && minimumFee > dailyMaxFee) {
+      toast({
+        title: "Invalid Amount",
+        description: "The minimum charge cannot exceed the daily maximum",
+        variant: "destructive",
+      });
+      return;
+    }
+    // The contract evaluates the daily cap over at most 7 days of maxBlocks
+    if (dailyMaxFee > 0 && blocks * minutesPerBlock > 7 * DAY_MINUTES) {
+      toast({
+        title: "Invalid Value",
+        description: "With a daily maximum set, maxBlocks at this block size cannot exceed 7 days",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const graceMinutes = parseInt(newGraceMinutes);
+    if (isNaN(graceMinutes) || graceMinutes < 0 || graceMinutes > DAY_MINUTES) {
+      toast({
+        title: "Invalid Grace Period",
+        description: `Please enter 0 to ${DAY_MINUTES} minutes (0 disables the grace period)`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const classMultipliers = classFactors.map((f) => Math.round(parseFloat(f) * MULTIPLIER_BASE));
+    if (classMultipliers.some((bps) => isNaN(bps) || bps < 0 || bps > MAX_CLASS_MULTIPLIER)) {
+      toast({
+        title: "Invalid Multiplier",
+        description: `Vehicle class multipliers must be between 0 and ${MAX_CLASS_MULTIPLIER / MULTIPLIER_BASE}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (isNaN(effectiveAt) || effectiveAt < Date.now() / 1000 + MIN_RATE_CHANGE_DELAY) {
+      toast({
+        title: "Invalid Date",
+        description: `Changes must be scheduled at least ${MIN_RATE_CHANGE_DELAY / 3600} hours ahead`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    setIsUpdating("price");
+    setIsUpdating("schedule");
     try {
-      const txHash = await updatePricePerBlock(priceInCents);
+      const txHash = await contractScheduleRateChange({
+        pricePerBlock: BigInt(priceInCents),
+        maxBlocks: blocks,
+        blockMinutes: minutesPerBlock,
+        effectiveAt,
+        rules: {
+          tiers,
+          dailyMaxFee: BigInt(dailyMaxFee),
+          minimumFee: BigInt(minimumFee),
+          graceMinutes,
+          graceDeducted: newGraceDeducted,
+          classMultipliers,
+        },
+      });
       toast({
-        title: "Price Updated",
+        title: "Rate Change Scheduled",
         description: (
           <span>
             Transaction:{" "}
@@ -128,10 +365,10 @@ const Admin = () => {
       });
       await loadContractInfo();
     } catch (error: any) {
-      console.error("Failed to update price:", error);
+      console.error("Failed to schedule rate change:", error);
       toast({
         title: "Update Failed",
-        description: error.message || "Failed to update price",
+        description: error.message || "Failed to schedule rate change",
         variant: "destructive",
       });
     } finally {
@@ -139,22 +376,12 @@ const Admin = () => {
     }
   };
 
-  const handleUpdateMaxBlocks = async () => {
-    const blocks = parseInt(newMaxBlocks);
-    if (isNaN(blocks) || blocks <= 0) {
-      toast({
-        title: "Invalid Value",
-        description: "Please enter a valid number greater than 0",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    setIsUpdating("maxBlocks");
+  const handleCancelRateChange = async () => {
+    setIsUpdating("cancelSchedule");
     try {
-      const txHash = await updateMaxBlocks(blocks);
+      const txHash = await contractCancelRateChange();
       toast({
-        title: "Max Blocks Updated",
+        title: "Rate Change Cancelled",
         description: (
           <span>
             Transaction:{" "}
@@ -171,10 +398,10 @@ const Admin = () => {
       });
       await loadContractInfo();
     } catch (error: any) {
-      console.error("Failed to update max blocks:", error);
+      console.error("Failed to cancel rate change:", error);
       toast({
-        title: "Update Failed",
-        description: error.message || "Failed to update max blocks",
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel rate change",
         variant: "destructive",
       });
     } finally {
@@ -182,6 +409,20 @@ const Admin = () => {
     }
   };
 
+  const updateTierRow = (index: number, field: keyof TierRow, value: string) => {
+    setTierRows((rows) => rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const addTierRow = () => {
+    const last = tierRows[tierRows.length - 1];
+    const nextFrom = last ? (parseInt(last.fromBlock) || 0) + 2 : 0;
+    setTierRows((rows) => [...rows, { fromBlock: nextFrom.toString(), price: last?.price ?? newPrice }]);
+  };
+
+  const removeTierRow = (index: number) => {
+    setTierRows((rows) => rows.filter((_, i) => i !== index));
+  };
+
   const handleTransferOwnership = async () => {
     if (!newOwner || !newOwner.startsWith("0x") || newOwner.length !== 42) {
       toast({
@@ -192,16 +433,11 @@ const Admin = () => {
       return;
     }
 
-    // Confirm dangerous action
-    if (!window.confirm("Are you sure you want to transfer ownership? This action is irreversible!")) {
-      return;
-    }
-
     setIsUpdating("ownership");
     try {
       const txHash = await contractTransferOwnership(newOwner);
       toast({
-        title: "Ownership Transferred",
+        title: "Ownership Transfer Started",
         description: (
           <span>
             Transaction:{" "}
@@ -230,6 +466,82 @@ const Admin = () => {
     }
   };
 
+  const handleTogglePause = async (pause: boolean) => {
+    if (pause && !pauseReason.trim()) {
+      toast({
+        title: "Reason Required",
+        description: "Please describe why quoting is being paused",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUpdating("pause");
+    try {
+      const txHash = pause ? await pauseContract(pauseReason.trim()) : await unpauseContract();
+      toast({
+        title: pause ? "Contract Paused" : "Contract Unpaused",
+        description: (
+          <span>
+            Transaction:{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      setPauseReason("");
+      await loadContractInfo();
+    } catch (error: any) {
+      console.error("Failed to toggle pause:", error);
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to change pause state",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
+  const handleAcceptOwnership = async () => {
+    setIsUpdating("acceptOwnership");
+    try {
+      const txHash = await contractAcceptOwnership();
+      toast({
+        title: "Ownership Accepted",
+        description: (
+          <span>
+            Transaction:{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadContractInfo();
+    } catch (error: any) {
+      console.error("Failed to accept ownership:", error);
+      toast({
+        title: "Accept Failed",
+        description: error.message || "Failed to accept ownership",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(null);
+    }
+  };
+
   const formatAddress = (address: string) => {
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
@@ -290,7 +602,17 @@ const Admin = () => {
           <Alert className="mb-8 border-destructive/50 bg-destructive/10">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription>
-              You are not the contract owner. All write operations are disabled.
+              {canManageRates || contractInfo.canOperate || contractInfo.canPause
+                ? `You are not the contract owner. Your roles allow ${[
+                    canManageRates && "changing rates",
+                    contractInfo.canOperate && "managing lots",
+                    contractInfo.canPause && "pausing the contract",
+                  ]
+                    .filter(Boolean)
+                    .join(" and ")}.`
+                : operatedLots > 0
+                  ? `You are not the contract owner. You operate ${operatedLots} lot(s) and can manage their rates below.`
+                  : "You are not the contract owner. All write operations are disabled."}
               <br />
               Current owner: <span className="font-mono">{formatAddress(contractInfo.owner)}</span>
             </AlertDescription>
@@ -345,6 +667,14 @@ const Admin = () => {
                   <ExternalLink className="h-3 w-3" />
                 </a>
               </div>
+              {contractInfo.pendingOwner && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Pending Owner</span>
+                  <span className="font-mono font-semibold">
+                    {formatAddress(contractInfo.pendingOwner)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">Contract Address</span>
                 <a
@@ -365,6 +695,10 @@ const Admin = () => {
                 <span className="text-muted-foreground">Block Size</span>
                 <span className="font-semibold">{contractInfo.blockMinutes} minutes</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Rate Version</span>
+                <span className="font-semibold">v{contractInfo.rateVersion}</span>
+              </div>
             </div>
           ) : (
             <p className="text-sm text-muted-foreground text-center py-4">
@@ -373,16 +707,89 @@ const Admin = () => {
           )}
         </Card>
 
-        {/* Price Configuration */}
+        {/* Emergency Pause */}
+        {contractInfo && (
+          <Card className="glass-card p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold flex items-center gap-2">
+                <PauseCircle className="h-5 w-5 text-destructive" />
+                Emergency Pause
+              </h3>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {contractInfo.pauseState.paused ? "Paused" : "Running"}
+                </span>
+                {isUpdating === "pause" ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Switch
+                    checked={contractInfo.pauseState.paused}
+                    onCheckedChange={handleTogglePause}
+                    disabled={!contractInfo.canPause || isUpdating !== null}
+                  />
+                )}
+              </div>
+            </div>
+            <div className="space-y-4">
+              {contractInfo.pauseState.paused ? (
+                <p className="text-sm">
+                  Reason:{" "}
+                  <span className="font-medium">{contractInfo.pauseState.reason || "--"}</span>
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="pauseReason">Reason</Label>
+                  <Input
+                    id="pauseReason"
+                    type="text"
+                    placeholder="e.g., Investigating a pricing issue"
+                    value={pauseReason}
+                    onChange={(e) => setPauseReason(e.target.value)}
+                    disabled={!contractInfo.canPause || isUpdating !== null}
+                    className="bg-background/50"
+                  />
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                While paused, quotes, check-in/out and payments revert. Views, decryption and
+                admin settings stay available. Requires the pauser role.
+              </p>
+            </div>
+          </Card>
+        )}
+
+        {/* Parking Lots */}
+        {contractInfo && (
+          <LotManagementCard
+            lots={contractInfo.lots}
+            canOperate={contractInfo.canOperate}
+            walletAddress={wallet.address}
+            onUpdated={loadContractInfo}
+          />
+        )}
+
+        {/* Revenue */}
+        {contractInfo && (
+          <RevenueCard
+            lots={contractInfo.lots}
+            isOwner={!!isOwner}
+            walletAddress={wallet.address}
+          />
+        )}
+
+        {/* Roles */}
+        {contractInfo && <RolesCard isOwner={!!isOwner} />}
+
+        {/* Rate Card */}
         <Card className="glass-card p-6 mb-6">
           <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
             <DollarSign className="h-5 w-5 text-primary" />
-            Price Configuration
+            Rate Card
           </h3>
           <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="pricePerBlock">Price per Block (USD)</Label>
-              <div className="flex gap-4">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="pricePerBlock">Price per Block (USD)</Label>
                 <Input
                   id="pricePerBlock"
                   type="number"
@@ -390,68 +797,285 @@ const Admin = () => {
                   min="0.01"
                   value={newPrice}
                   onChange={(e) => setNewPrice(e.target.value)}
-                  disabled={!isOwner || isUpdating !== null}
+                  disabled={!canManageRates || isUpdating !== null}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxBlocks">Maximum Billable Blocks</Label>
+                <Input
+                  id="maxBlocks"
+                  type="number"
+                  min="1"
+                  value={newMaxBlocks}
+                  onChange={(e) => setNewMaxBlocks(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="blockMinutes">Block Size (minutes)</Label>
+                <Input
+                  id="blockMinutes"
+                  type="number"
+                  min="1"
+                  value={newBlockMinutes}
+                  onChange={(e) => setNewBlockMinutes(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
                   className="bg-background/50"
                 />
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Current rate: {contractInfo ? formatPrice(contractInfo.pricePerBlock) : "--"} per
+              block, max {contractInfo?.maxBlocks ?? "--"} blocks of{" "}
+              {contractInfo?.blockMinutes ?? "--"} minutes. Block sizes must divide 24 hours; tier
+              boundaries are counted in blocks, so review them after changing the size.
+            </p>
+          </div>
+        </Card>
+
+        {/* Pricing Tiers */}
+        <Card className="glass-card p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Pricing Tiers
+          </h3>
+          <div className="space-y-4">
+            {tierRows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No tiers configured. All blocks are charged the flat price per block.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-4">
+                  <Label>From Block</Label>
+                  <Label>Price per Block (USD)</Label>
+                  <span className="w-10" />
+                </div>
+                {tierRows.map((row, i) => (
+                  <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-center">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={row.fromBlock}
+                      onChange={(e) => updateTierRow(i, "fromBlock", e.target.value)}
+                      disabled={!canManageRates || isUpdating !== null || i === 0}
+                      className="bg-background/50"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={row.price}
+                      onChange={(e) => updateTierRow(i, "price", e.target.value)}
+                      disabled={!canManageRates || isUpdating !== null}
+                      className="bg-background/50"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeTierRow(i)}
+                      disabled={!canManageRates || isUpdating !== null}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-4">
+              <Button
+                variant="outline"
+                onClick={addTierRow}
+                disabled={!canManageRates || isUpdating !== null || tierRows.length >= MAX_PRICING_TIERS}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tier
+              </Button>
+              {tierRows.length > 0 && (
                 <Button
-                  onClick={handleUpdatePrice}
-                  disabled={!isOwner || isUpdating !== null}
-                  className="bg-gradient-primary hover:opacity-90"
+                  variant="outline"
+                  onClick={() => setTierRows([])}
+                  disabled={!canManageRates || isUpdating !== null}
                 >
-                  {isUpdating === "price" ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    "Update"
-                  )}
+                  Use Flat Price
                 </Button>
-              </div>
+              )}
             </div>
             <p className="text-sm text-muted-foreground">
-              Current rate: {contractInfo ? formatPrice(contractInfo.pricePerBlock) : "--"} per
-              block. This affects all new parking fee calculations.
+              Each tier charges its price for blocks from its start block until the next tier
+              starts ({contractInfo?.blockMinutes ?? 30}-minute blocks). The last tier applies to
+              all remaining blocks.
             </p>
           </div>
         </Card>
 
-        {/* Max Blocks Configuration */}
+        {/* Fee Limits */}
         <Card className="glass-card p-6 mb-6">
           <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
-            <Clock className="h-5 w-5 text-secondary" />
-            Maximum Blocks
+            <Scale className="h-5 w-5 text-primary" />
+            Fee Limits
           </h3>
           <div className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="maxBlocks">Maximum Billable Blocks</Label>
+              <Label htmlFor="dailyMaxFee">Daily Maximum (USD per 24h, 0 = no cap)</Label>
               <div className="flex gap-4">
                 <Input
-                  id="maxBlocks"
+                  id="dailyMaxFee"
                   type="number"
-                  min="1"
-                  value={newMaxBlocks}
-                  onChange={(e) => setNewMaxBlocks(e.target.value)}
-                  disabled={!isOwner || isUpdating !== null}
+                  step="0.01"
+                  min="0"
+                  value={newDailyMax}
+                  onChange={(e) => setNewDailyMax(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
+                  className="bg-background/50"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="minimumFee">Minimum Charge (USD, 0 = none)</Label>
+              <div className="flex gap-4">
+                <Input
+                  id="minimumFee"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={newMinimumFee}
+                  onChange={(e) => setNewMinimumFee(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
+                  className="bg-background/50"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="graceMinutes">Grace Period (free minutes, 0 = none)</Label>
+              <div className="flex gap-4 items-center">
+                <Input
+                  id="graceMinutes"
+                  type="number"
+                  min="0"
+                  max={DAY_MINUTES}
+                  value={newGraceMinutes}
+                  onChange={(e) => setNewGraceMinutes(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
+                  className="bg-background/50"
+                />
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    id="graceDeducted"
+                    checked={newGraceDeducted}
+                    onCheckedChange={setNewGraceDeducted}
+                    disabled={!canManageRates || isUpdating !== null}
+                  />
+                  <Label htmlFor="graceDeducted" className="text-sm font-normal">
+                    Deduct from longer stays
+                  </Label>
+                </div>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              The daily maximum caps the fee of each 24h period of a stay (up to 7 days of
+              maxBlocks). The minimum charge cannot exceed the daily maximum. Stays within the
+              grace period are free, without the minimum charge; when deducted, longer stays are
+              billed only for the minutes beyond it.
+            </p>
+          </div>
+        </Card>
+
+        {/* Vehicle Classes */}
+        {contractInfo && (
+          <VehicleClassCard
+            factors={classFactors}
+            onChange={setClassFactors}
+            disabled={!canManageRates || isUpdating !== null}
+          />
+        )}
+
+        {/* Scheduled Rate Change */}
+        <Card className="glass-card p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            Schedule Rate Change
+          </h3>
+          <div className="space-y-4">
+            {contractInfo?.pendingRateChange && (
+              <div className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg bg-muted/30 border border-border/50">
+                <p className="text-sm">
+                  Scheduled: {formatPrice(contractInfo.pendingRateChange.pricePerBlock)} per block,
+                  max {contractInfo.pendingRateChange.maxBlocks} blocks of{" "}
+                  {contractInfo.pendingRateChange.blockMinutes} minutes
+                  {contractInfo.pendingRateChange.rules &&
+                    ` (${describeRules(contractInfo.pendingRateChange.rules)})`}{" "}
+                  from{" "}
+                  <span className="font-medium">
+                    {new Date(contractInfo.pendingRateChange.effectiveAt * 1000).toLocaleString()}
+                  </span>
+                  {isRateChangeDue(contractInfo.pendingRateChange) && " (in effect)"}
+                </p>
+                {isOwner && !isRateChangeDue(contractInfo.pendingRateChange) && (
+                  <Button
+                    variant="outline"
+                    onClick={handleCancelRateChange}
+                    disabled={isUpdating !== null}
+                  >
+                    {isUpdating === "cancelSchedule" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Cancel"
+                    )}
+                  </Button>
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="effectiveAt">Effective From</Label>
+              <div className="flex gap-4">
+                <Input
+                  id="effectiveAt"
+                  type="datetime-local"
+                  value={newEffectiveAt}
+                  onChange={(e) => setNewEffectiveAt(e.target.value)}
+                  disabled={!canManageRates || isUpdating !== null}
                   className="bg-background/50"
                 />
                 <Button
-                  onClick={handleUpdateMaxBlocks}
-                  disabled={!isOwner || isUpdating !== null}
+                  onClick={handleScheduleRateChange}
+                  disabled={!canManageRates || isUpdating !== null}
                   className="bg-gradient-primary hover:opacity-90"
                 >
-                  {isUpdating === "maxBlocks" ? (
+                  {isUpdating === "schedule" ? (
                     <Loader2 className="h-4 w-4 animate-spin" />
                   ) : (
-                    "Update"
+                    "Schedule Change"
                   )}
                 </Button>
               </div>
             </div>
             <p className="text-sm text-muted-foreground">
-              Current maximum: {contractInfo?.maxBlocks ?? "--"} blocks (
-              {contractInfo ? contractInfo.maxBlocks * contractInfo.blockMinutes : "--"} minutes).
+              The rate card, pricing tiers, fee limits, grace period and vehicle class rates above
+              take effect together. Changes are announced at least {MIN_RATE_CHANGE_DELAY / 3600}{" "}
+              hours ahead and shown on the Calculator; scheduling again replaces a change that is
+              not yet in effect. Only the owner can cancel.
             </p>
           </div>
         </Card>
 
+        {/* Monthly Passes */}
+        {contractInfo && (
+          <PassPricingCard lots={contractInfo.lots} canManageRates={canManageRates} />
+        )}
+
+        {/* Reservations */}
+        {contractInfo && (
+          <ReservationsCard
+            lots={contractInfo.lots}
+            canOperate={contractInfo.canOperate}
+            isOwner={!!isOwner}
+            walletAddress={wallet.address}
+          />
+        )}
+
         {/* Transfer Ownership */}
         <Card className="glass-card p-6">
           <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -484,9 +1108,31 @@ const Admin = () => {
                 </Button>
               </div>
             </div>
-            <p className="text-sm text-destructive">
-              ⚠️ Warning: Transferring ownership is irreversible. Make sure you trust the new
-              owner address.
+            {contractInfo?.pendingOwner && (
+              <div className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/30 border border-border/50">
+                <p className="text-sm">
+                  Transfer pending to{" "}
+                  <span className="font-mono">{formatAddress(contractInfo.pendingOwner)}</span>
+                </p>
+                {isPendingOwner && (
+                  <Button
+                    onClick={handleAcceptOwnership}
+                    disabled={isUpdating !== null}
+                    className="bg-gradient-primary hover:opacity-90"
+                  >
+                    {isUpdating === "acceptOwnership" ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      "Accept Ownership"
+                    )}
+                  </Button>
+                )}
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Ownership moves only once the new owner calls Accept Ownership from their wallet.
+              Until then the current owner keeps control and can start a transfer to a different
+              address.
             </p>
           </div>
         </Card>
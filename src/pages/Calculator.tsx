@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Calculator as CalcIcon,
   Clock,
@@ -13,34 +14,158 @@ import {
   ExternalLink,
   AlertCircle,
   CheckCircle2,
+  Unlock,
+  Timer,
+  LogIn,
+  LogOut,
+  Wallet,
+  PauseCircle,
+  CalendarClock,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useWallet } from "@/hooks/useWallet";
-import { useFHE, useCalculateFee } from "@/hooks/useFHE";
+import { useFHE, useCalculateFee, useDecryptFee } from "@/hooks/useFHE";
+import { useParkingSession } from "@/hooks/useParkingSession";
+import { usePayFee } from "@/hooks/usePayFee";
+import BatchQuote from "@/components/calculator/BatchQuote";
+import ShareQuote from "@/components/calculator/ShareQuote";
+import PendingValidations from "@/components/calculator/PendingValidations";
+import ReservationCheckOut, {
+  type ReservationCheckout,
+} from "@/components/calculator/ReservationCheckOut";
+import { userDecryptUint64Batch } from "@/lib/fhe";
 import {
-  getPricePerBlock,
-  getBlockMinutes,
-  getMaxBlocks,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getLots,
+  getFeeRules,
+  getPauseState,
+  getRateVersion,
+  quoteRateVersion,
+  isRateChangeDue,
   formatPrice,
+  formatMultiplier,
+  getSigner,
   CONTRACT_ADDRESS,
+  RESERVATIONS_ADDRESS,
+  DEFAULT_LOT_ID,
+  VEHICLE_CLASSES,
+  RATES_CHANGED_ERROR,
+  type ParkingLot,
+  type PauseState,
+  type SharedFeeRules,
 } from "@/lib/contract";
+import { simulateQuote, MULTIPLIER_BASE, type FeeRules } from "@/lib/pricing";
+
+type CalculatorMode = "single" | "batch";
 
-interface ContractInfo {
-  pricePerBlock: bigint;
-  blockMinutes: number;
-  maxBlocks: number;
+interface RateData {
+  lots: ParkingLot[];
+  rules: SharedFeeRules; // Tiers apply to the default lot only
+  rateVersion: number; // Contract version when loaded (see quoteRateVersion per lot)
 }
 
+// Resolve the fee rules of a lot (tiers only apply to the default lot)
+const lotFeeRules = (data: RateData, lot: ParkingLot): FeeRules => ({
+  pricePerBlock: lot.pricePerBlock,
+  blockMinutes: lot.blockMinutes,
+  maxBlocks: lot.maxBlocks,
+  tiers: lot.id === DEFAULT_LOT_ID ? data.rules.tiers : [],
+  dailyMaxFee: data.rules.dailyMaxFee,
+  minimumFee: data.rules.minimumFee,
+  graceMinutes: data.rules.graceMinutes,
+  graceDeducted: data.rules.graceDeducted,
+});
+
+// Format a minute count as "1h 30m"
+const formatDuration = (totalMinutes: number) => {
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  if (h === 0) return `${m}m`;
+  return m === 0 ? `${h}h` : `${h}h ${m}m`;
+};
+
+// What a scheduled fee rule change changes for a lot, e.g. ["minimum charge $2.00"]
+const describeRuleChanges = (
+  current: SharedFeeRules,
+  next: SharedFeeRules,
+  lotId: number
+): string[] => {
+  const changes: string[] = [];
+  const tiersChanged =
+    next.tiers.length !== current.tiers.length ||
+    next.tiers.some(
+      (tier, i) =>
+        tier.fromBlock !== current.tiers[i].fromBlock ||
+        tier.pricePerBlock !== current.tiers[i].pricePerBlock
+    );
+  if (lotId === DEFAULT_LOT_ID && tiersChanged) {
+    changes.push(next.tiers.length > 0 ? "new pricing tiers" : "flat pricing");
+  }
+  if (next.dailyMaxFee !== current.dailyMaxFee) {
+    changes.push(
+      next.dailyMaxFee > 0n ? `daily maximum ${formatPrice(next.dailyMaxFee)}` : "no daily maximum"
+    );
+  }
+  if (next.minimumFee !== current.minimumFee) {
+    changes.push(
+      next.minimumFee > 0n ? `minimum charge ${formatPrice(next.minimumFee)}` : "no minimum charge"
+    );
+  }
+  if (next.graceMinutes !== current.graceMinutes || next.graceDeducted !== current.graceDeducted) {
+    changes.push(
+      next.graceMinutes > 0
+        ? `first ${formatDuration(next.graceMinutes)} free` +
+            (next.graceDeducted ? " (not billed on longer stays)" : "")
+        : "no grace period"
+    );
+  }
+  if (next.classMultipliers.some((bps, i) => bps !== current.classMultipliers[i])) {
+    changes.push("new vehicle class rates");
+  }
+  return changes;
+};
+
+// Format elapsed seconds as HH:MM:SS
+const formatElapsed = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s].map((v) => v.toString().padStart(2, "0")).join(":");
+};
+
 const Calculator = () => {
   const [hours, setHours] = useState("");
   const [minutes, setMinutes] = useState("");
-  const [contractInfo, setContractInfo] = useState<ContractInfo | null>(null);
+  const [rateData, setRateData] = useState<RateData | null>(null);
+  const [selectedLotId, setSelectedLotId] = useState(DEFAULT_LOT_ID);
   const [isLoadingInfo, setIsLoadingInfo] = useState(false);
+  const [pauseState, setPauseState] = useState<PauseState | null>(null);
+  const [mode, setMode] = useState<CalculatorMode>("single");
+  const [vehicleClass, setVehicleClass] = useState(0);
+  const [feeCount, setFeeCount] = useState(0); // New fees this visit; a fee uses up the pending validation
+  const [checkout, setCheckout] = useState<ReservationCheckout | null>(null);
+  const [checkoutBreakdown, setCheckoutBreakdown] = useState<{
+    fee: bigint;
+    penalty: bigint;
+    penaltyPaid: bigint;
+  } | null>(null);
+  const [isRevealingCheckout, setIsRevealingCheckout] = useState(false);
 
   const { toast } = useToast();
   const wallet = useWallet();
   const fhe = useFHE();
   const { isCalculating, error, result, calculateFee, reset } = useCalculateFee();
+  const decryption = useDecryptFee();
+  const activeAddress = wallet.isConnected && wallet.isCorrectNetwork ? wallet.address : "";
+  const session = useParkingSession(activeAddress, selectedLotId);
+  const payment = usePayFee(activeAddress);
+  const isPaused = !!pauseState?.paused;
 
   // Load contract info on mount and when connected
   useEffect(() => {
@@ -52,12 +177,14 @@ const Calculator = () => {
   const loadContractInfo = async () => {
     setIsLoadingInfo(true);
     try {
-      const [pricePerBlock, blockMinutes, maxBlocks] = await Promise.all([
-        getPricePerBlock(),
-        getBlockMinutes(),
-        getMaxBlocks(),
+      const [lots, rules, pause, rateVersion] = await Promise.all([
+        getLots(),
+        getFeeRules(),
+        getPauseState(),
+        getRateVersion(),
       ]);
-      setContractInfo({ pricePerBlock, blockMinutes, maxBlocks });
+      setRateData({ lots, rules, rateVersion });
+      setPauseState(pause);
     } catch (error) {
       console.error("Failed to load contract info:", error);
     } finally {
@@ -98,31 +225,265 @@ const Calculator = () => {
       return;
     }
 
+    // Quote only at the rates shown; reverts if they changed in the meantime
+    const lot = rateData?.lots.find((l) => l.id === selectedLotId);
+    if (!rateData || !lot) {
+      toast({
+        title: "Rates Not Loaded",
+        description: "Please wait for the current rates to load",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Initialize FHE if needed
     if (!fhe.isInitialized) {
       await fhe.initialize();
     }
 
-    const calcResult = await calculateFee(totalMinutes, wallet.address);
+    // The vehicle class is encrypted together with the minutes
+    const calcResult = await calculateFee(
+      totalMinutes,
+      wallet.address,
+      selectedLotId,
+      quoteRateVersion(rateData.rateVersion, rateData.lots, lot.id),
+      vehicleClass
+    );
 
     if (calcResult) {
+      setCheckout(null);
+      payment.reset();
+      setFeeCount((n) => n + 1);
       toast({
         title: "Encrypted Fee Ready",
         description: `Handle: ${calcResult.feeHandle.slice(0, 10)}...`,
       });
+
+      // Reveal the plaintext fee right away (requires a wallet signature)
+      await handleDecrypt(calcResult.feeHandle);
     }
   };
 
+  const handleDecrypt = async (feeHandle?: string) => {
+    if (!wallet.isConnected) {
+      toast({
+        title: "Wallet Not Connected",
+        description: "Please connect your wallet first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const feeCents = await decryption.decryptFee(feeHandle);
+
+    if (feeCents !== null) {
+      toast({
+        title: "Fee Decrypted",
+        description: `Your parking fee is ${formatPrice(feeCents)}`,
+      });
+    }
+  };
+
+  const handleStartSession = async () => {
+    const started = await session.startSession();
+    if (started) {
+      toast({
+        title: "Checked In",
+        description: "Check-in time is public on-chain; your fee will be encrypted",
+      });
+    }
+  };
+
+  const handleEndSession = async () => {
+    const ended = await session.endSession();
+    if (ended) {
+      reset();
+      setCheckout(null);
+      payment.reset();
+      setFeeCount((n) => n + 1);
+      toast({
+        title: "Checked Out",
+        description: `Handle: ${ended.feeHandle.slice(0, 10)}...`,
+      });
+
+      await handleDecrypt(ended.feeHandle);
+    }
+  };
+
+  // A reservation check-out replaces the single-stay result with its fee breakdown
+  const handleReservationCheckedOut = async (checkedOut: ReservationCheckout) => {
+    reset();
+    decryption.reset();
+    setMode("single");
+    setCheckout(checkedOut);
+    setCheckoutBreakdown(null);
+    await handleRevealCheckout(checkedOut);
+  };
+
+  // Decrypt the reserved fee, the overstay penalty and the charged amount with one signature
+  const handleRevealCheckout = async (checkedOut: ReservationCheckout) => {
+    setIsRevealingCheckout(true);
+    try {
+      const signer = await getSigner();
+      const handles = [checkedOut.feeHandle, checkedOut.penaltyHandle, checkedOut.penaltyPaidHandle];
+      const [fee, penalty, penaltyPaid = 0n] = await userDecryptUint64Batch(
+        handles.filter(Boolean),
+        RESERVATIONS_ADDRESS,
+        signer
+      );
+      setCheckoutBreakdown({ fee, penalty, penaltyPaid });
+    } catch (error: any) {
+      console.error("Failed to decrypt check-out:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt the check-out fees",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRevealingCheckout(false);
+    }
+  };
+
+  const handlePay = async () => {
+    const paid = await payment.pay();
+    if (paid) {
+      toast({
+        title: "Fee Paid",
+        description: "Encrypted fee transferred to the lot operator",
+      });
+    }
+  };
+
+  // The batch total replaced the last fee; drop the single-stay result
+  const handleBatchQuoted = () => {
+    reset();
+    setCheckout(null);
+    decryption.reset();
+    payment.reset();
+    setFeeCount((n) => n + 1);
+  };
+
+  const handleReloadRates = async () => {
+    reset();
+    await loadContractInfo();
+  };
+
   const handleReset = () => {
     setHours("");
     setMinutes("");
     reset();
+    decryption.reset();
+    setCheckout(null);
   };
 
+  const paymentSection = (
+    <div className="pt-4 border-t border-border/40 space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Payment Status:{" "}
+        <span
+          className={
+            payment.isSettled || payment.prepaidCharged ? "text-green-500 font-medium" : "font-medium"
+          }
+        >
+          {payment.isSettled ? "Paid" : payment.prepaidCharged ? "Paid from prepaid balance" : "Unpaid"}
+        </span>
+      </p>
+      {payment.chargedHandle && !payment.isSettled && payment.prepaidCharged === null && (
+        <Button
+          variant="link"
+          className="p-0 h-auto block"
+          onClick={payment.decryptCharged}
+          disabled={payment.isDecryptingCharge}
+        >
+          {payment.isDecryptingCharge ? "Decrypting..." : "Check prepaid balance deduction"}
+        </Button>
+      )}
+      {payment.prepaidCharged === false && !payment.isSettled && (
+        <p className="text-sm text-muted-foreground">
+          Your prepaid balance does not cover this fee; pay it with the token instead.
+        </p>
+      )}
+      {payment.prepaidCharged ? null : !payment.isSettled ? (
+        <Button
+          onClick={handlePay}
+          disabled={payment.isPaying || isPaused}
+          className="bg-gradient-primary hover:opacity-90"
+        >
+          {payment.isPaying ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              {payment.step === "approving" ? "Approving Token..." : "Paying..."}
+            </>
+          ) : (
+            <>
+              <Wallet className="mr-2 h-4 w-4" />
+              Pay Fee
+            </>
+          )}
+        </Button>
+      ) : payment.paidHandle ? (
+        payment.paidCents !== null ? (
+          <p className="text-sm text-muted-foreground">
+            Amount transferred:{" "}
+            <span className="font-semibold">{formatPrice(payment.paidCents)}</span>
+            {payment.paidCents === 0n && " (insufficient token balance)"}
+          </p>
+        ) : (
+          <Button
+            variant="link"
+            className="p-0 h-auto"
+            onClick={payment.decryptPaid}
+            disabled={payment.isDecrypting}
+          >
+            {payment.isDecrypting ? "Decrypting..." : "Verify amount transferred"}
+          </Button>
+        )
+      ) : null}
+      {payment.txHash && (
+        <p className="text-sm text-muted-foreground">
+          Payment:{" "}
+          <a
+            href={`https://sepolia.etherscan.io/tx/${payment.txHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline inline-flex items-center gap-1"
+          >
+            {payment.txHash.slice(0, 10)}...{payment.txHash.slice(-8)}
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </p>
+      )}
+      {payment.error && <p className="text-sm text-red-400">{payment.error}</p>}
+    </div>
+  );
+
+  const openLots = rateData?.lots.filter((lot) => lot.active) ?? [];
+  const selectedLot = rateData?.lots.find((lot) => lot.id === selectedLotId);
+  const contractInfo = rateData && selectedLot ? lotFeeRules(rateData, selectedLot) : null;
+
+  // Announced change of the selected lot that is not in effect yet
+  const pendingRateChange = selectedLot?.pendingRateChange;
+  const upcomingRateChange =
+    pendingRateChange && !isRateChangeDue(pendingRateChange) ? pendingRateChange : null;
+
+  // Announced fee rules, queued with the default lot's change (they apply to every lot)
+  const defaultRateChange = rateData?.lots.find((lot) => lot.id === DEFAULT_LOT_ID)?.pendingRateChange;
+  const upcomingRuleChanges =
+    rateData && defaultRateChange?.rules && !isRateChangeDue(defaultRateChange)
+      ? describeRuleChanges(rateData.rules, defaultRateChange.rules, selectedLotId)
+      : [];
+
   const totalMinutes = (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
-  const estimatedBlocks = contractInfo
-    ? Math.ceil(totalMinutes / contractInfo.blockMinutes)
-    : 0;
+  // Classes with a rate other than 1x, shown with the rate card
+  const classMultipliers = rateData?.rules.classMultipliers ?? [];
+  const adjustedClasses = VEHICLE_CLASSES.filter(
+    (vc) => classMultipliers[vc.id] !== undefined && classMultipliers[vc.id] !== MULTIPLIER_BASE
+  );
+
+  const estimate =
+    totalMinutes > 0 && contractInfo
+      ? simulateQuote(BigInt(totalMinutes), contractInfo, classMultipliers[vehicleClass])
+      : null;
 
   return (
     <main className="min-h-screen pt-24 pb-16">
@@ -178,9 +539,52 @@ const Calculator = () => {
           </Alert>
         )}
 
+        {isPaused && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <PauseCircle className="h-4 w-4 text-red-500" />
+            <AlertDescription>
+              The calculator is temporarily paused. Quotes, check-in/out and payments are
+              unavailable.
+              {pauseState?.reason && (
+                <>
+                  <br />
+                  Reason: {pauseState.reason}
+                </>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Current Rates Info */}
         <Card className="glass-card p-6 mb-8">
-          <h3 className="text-lg font-semibold mb-4">Current Rates</h3>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold">
+              Current Rates
+              {rateData && (
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  v{quoteRateVersion(rateData.rateVersion, rateData.lots, selectedLotId)}
+                </span>
+              )}
+            </h3>
+            {openLots.length > 1 && (
+              <Select
+                value={selectedLotId.toString()}
+                onValueChange={(value) => setSelectedLotId(Number(value))}
+                disabled={isCalculating}
+              >
+                <SelectTrigger className="md:w-64 bg-background/50">
+                  <SelectValue placeholder="Select a lot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {openLots.map((lot) => (
+                    <SelectItem key={lot.id} value={lot.id.toString()}>
+                      {lot.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
           {isLoadingInfo ? (
             <div className="flex items-center justify-center py-4">
               <Loader2 className="h-6 w-6 animate-spin text-primary" />
@@ -193,7 +597,11 @@ const Calculator = () => {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Price per Block</p>
-                  <p className="font-semibold">{formatPrice(contractInfo.pricePerBlock)}</p>
+                  <p className="font-semibold">
+                    {contractInfo.tiers.length > 0
+                      ? "Tiered"
+                      : formatPrice(contractInfo.pricePerBlock)}
+                  </p>
                 </div>
               </div>
               <div className="flex items-center gap-3">
@@ -214,6 +622,107 @@ const Calculator = () => {
                   <p className="font-semibold">{contractInfo.maxBlocks}</p>
                 </div>
               </div>
+              {(contractInfo.dailyMaxFee > 0n ||
+                contractInfo.minimumFee > 0n ||
+                contractInfo.graceMinutes > 0) && (
+                <div className="md:col-span-3 flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                  {contractInfo.dailyMaxFee > 0n && (
+                    <span>
+                      Daily maximum:{" "}
+                      <span className="font-semibold text-foreground">
+                        {formatPrice(contractInfo.dailyMaxFee)}
+                      </span>{" "}
+                      per 24h
+                    </span>
+                  )}
+                  {contractInfo.minimumFee > 0n && (
+                    <span>
+                      Minimum charge:{" "}
+                      <span className="font-semibold text-foreground">
+                        {formatPrice(contractInfo.minimumFee)}
+                      </span>
+                    </span>
+                  )}
+                  {contractInfo.graceMinutes > 0 && (
+                    <span>
+                      Grace period:{" "}
+                      <span className="font-semibold text-foreground">
+                        first {formatDuration(contractInfo.graceMinutes)} free
+                      </span>
+                      {contractInfo.graceDeducted && " (not billed on longer stays)"}
+                    </span>
+                  )}
+                </div>
+              )}
+              {adjustedClasses.length > 0 && (
+                <div className="md:col-span-3 flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                  {adjustedClasses.map((vc) => (
+                    <span key={vc.id}>
+                      {vc.label}:{" "}
+                      <span className="font-semibold text-foreground">
+                        {formatMultiplier(classMultipliers[vc.id])}
+                      </span>
+                    </span>
+                  ))}
+                </div>
+              )}
+              {upcomingRateChange && (
+                <div className="md:col-span-3 flex items-center gap-2 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/50 text-sm">
+                  <CalendarClock className="h-4 w-4 text-yellow-500 shrink-0" />
+                  <span>
+                    Rates change to{" "}
+                    <span className="font-semibold">
+                      {formatPrice(upcomingRateChange.pricePerBlock)}
+                    </span>{" "}
+                    per block (max {upcomingRateChange.maxBlocks} blocks of{" "}
+                    {upcomingRateChange.blockMinutes} min) on{" "}
+                    <span className="font-semibold">
+                      {new Date(upcomingRateChange.effectiveAt * 1000).toLocaleString()}
+                    </span>
+                  </span>
+                </div>
+              )}
+              {defaultRateChange && upcomingRuleChanges.length > 0 && (
+                <div className="md:col-span-3 flex items-center gap-2 p-3 rounded-lg bg-yellow-500/10 border border-yellow-500/50 text-sm">
+                  <CalendarClock className="h-4 w-4 text-yellow-500 shrink-0" />
+                  <span>
+                    Fee rules change on{" "}
+                    <span className="font-semibold">
+                      {new Date(defaultRateChange.effectiveAt * 1000).toLocaleString()}
+                    </span>
+                    : {upcomingRuleChanges.join(", ")}
+                  </span>
+                </div>
+              )}
+              {contractInfo.tiers.length > 0 && (
+                <div className="md:col-span-3 rounded-lg border border-border/50 overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/30 text-muted-foreground">
+                      <tr>
+                        <th className="text-left font-medium px-4 py-2">Duration</th>
+                        <th className="text-right font-medium px-4 py-2">Price per Block</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {contractInfo.tiers.map((tier, i) => {
+                        const next = contractInfo.tiers[i + 1];
+                        const from = formatDuration(tier.fromBlock * contractInfo.blockMinutes);
+                        const label = next
+                          ? `${from} – ${formatDuration(next.fromBlock * contractInfo.blockMinutes)}`
+                          : `${from}+`;
+                        return (
+                          <tr key={tier.fromBlock} className="border-t border-border/50">
+                            <td className="px-4 py-2">{label}</td>
+                            <td className="px-4 py-2 text-right font-semibold">
+                              {formatPrice(tier.pricePerBlock)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           ) : (
             <p className="text-sm text-muted-foreground text-center py-4">
@@ -222,143 +731,477 @@ const Calculator = () => {
           )}
         </Card>
 
-        {/* Calculator Form */}
-        <Card className="glass-card p-8">
-          <div className="space-y-6">
-            <div className="grid md:grid-cols-2 gap-6">
-              <div className="space-y-2">
-                <Label htmlFor="hours">Hours</Label>
-                <Input
-                  id="hours"
-                  type="number"
-                  min="0"
-                  placeholder="0"
-                  value={hours}
-                  onChange={(e) => setHours(e.target.value)}
-                  className="bg-background/50"
-                  disabled={isCalculating}
-                />
+        {/* Parking Session */}
+        <Card className="glass-card p-6 mb-8">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+                <Timer className="h-5 w-5 text-primary" />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="minutes">Minutes</Label>
-                <Input
-                  id="minutes"
-                  type="number"
-                  min="0"
-                  max="59"
-                  placeholder="0"
-                  value={minutes}
-                  onChange={(e) => setMinutes(e.target.value)}
-                  className="bg-background/50"
-                  disabled={isCalculating}
-                />
+              <div>
+                <h3 className="text-lg font-semibold">Parking Session</h3>
+                {session.isActive ? (
+                  session.startedAt !== null ? (
+                    <p className="font-mono text-2xl font-bold gradient-text">
+                      {formatElapsed(session.elapsedSeconds)}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      Session active.{" "}
+                      <Button
+                        variant="link"
+                        className="p-0 h-auto"
+                        onClick={session.revealStartTime}
+                        disabled={session.isLoading}
+                      >
+                        Load entry time
+                      </Button>
+                    </p>
+                  )
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Check in on arrival and check out when leaving. Billing uses on-chain time,
+                    so check-in and check-out times are public; only the fee is encrypted.
+                  </p>
+                )}
               </div>
             </div>
-
-            {/* Estimate Preview */}
-            {totalMinutes > 0 && contractInfo && (
-              <div className="p-4 rounded-lg bg-muted/30 border border-border/50">
-                <p className="text-sm text-muted-foreground">
-                  <span className="font-medium">Estimate:</span> {totalMinutes} minutes ≈{" "}
-                  {estimatedBlocks} blocks ≈{" "}
-                  {formatPrice(BigInt(estimatedBlocks) * contractInfo.pricePerBlock)}
-                </p>
-              </div>
-            )}
-
-            {/* Error Display */}
-            {error && (
-              <Alert className="border-red-500/50 bg-red-500/10">
-                <AlertCircle className="h-4 w-4 text-red-500" />
-                <AlertDescription className="text-red-400">{error}</AlertDescription>
-              </Alert>
-            )}
-
-            {/* Action Buttons */}
-            <div className="flex gap-4">
+            {session.isActive ? (
               <Button
-                onClick={handleCalculate}
-                disabled={
-                  isCalculating ||
-                  !wallet.isConnected ||
-                  !CONTRACT_ADDRESS ||
-                  fhe.isInitializing
-                }
-                className="flex-1 bg-gradient-primary hover:opacity-90"
+                onClick={handleEndSession}
+                disabled={session.isEnding || decryption.isDecrypting || isPaused}
+                variant="outline"
               >
-                {fhe.isInitializing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Initializing FHE...
-                  </>
-                ) : isCalculating ? (
-                  <>
-                    <Lock className="mr-2 h-4 w-4 animate-pulse" />
-                    Encrypting & Computing...
-                  </>
+                {session.isEnding ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 ) : (
-                  <>
-                    <CalcIcon className="mr-2 h-4 w-4" />
-                    Calculate Fee
-                  </>
+                  <LogOut className="mr-2 h-4 w-4" />
                 )}
+                Check Out
               </Button>
+            ) : (
               <Button
-                onClick={handleReset}
-                variant="outline"
-                disabled={isCalculating}
+                onClick={handleStartSession}
+                disabled={
+                  session.isStarting ||
+                  session.isLoading ||
+                  isPaused ||
+                  !wallet.isConnected ||
+                  !wallet.isCorrectNetwork ||
+                  !CONTRACT_ADDRESS
+                }
+                className="bg-gradient-primary hover:opacity-90"
               >
-                Reset
+                {session.isStarting ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <LogIn className="mr-2 h-4 w-4" />
+                )}
+                Check In
               </Button>
-            </div>
+            )}
+          </div>
+          {session.error && (
+            <Alert className="mt-4 border-red-500/50 bg-red-500/10">
+              <AlertCircle className="h-4 w-4 text-red-500" />
+              <AlertDescription className="text-red-400">{session.error}</AlertDescription>
+            </Alert>
+          )}
+        </Card>
 
-            {/* Result Display */}
-            {result && (
-              <div className="mt-8 p-6 rounded-xl bg-gradient-primary/10 border border-primary/20">
-                <div className="text-center space-y-4">
-                  <div className="flex items-center justify-center gap-2">
-                    <CheckCircle2 className="h-5 w-5 text-green-500" />
-                    <span className="text-sm text-green-500 font-medium">
-                      Calculation Complete
-                    </span>
+        {/* Reservation Check-Out */}
+        {activeAddress && RESERVATIONS_ADDRESS && (
+          <ReservationCheckOut
+            key={activeAddress}
+            walletAddress={activeAddress}
+            lots={rateData?.lots ?? []}
+            isPaused={isPaused}
+            onCheckedOut={handleReservationCheckedOut}
+          />
+        )}
+
+        {/* Merchant Validation */}
+        {activeAddress && (
+          <PendingValidations
+            key={activeAddress}
+            walletAddress={activeAddress}
+            refreshKey={feeCount}
+          />
+        )}
+
+        {/* Calculator Form */}
+        <Card className="glass-card p-8">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as CalculatorMode)}>
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="single">Single Stay</TabsTrigger>
+              <TabsTrigger value="batch">Batch</TabsTrigger>
+            </TabsList>
+            <TabsContent value="single">
+              <div className="space-y-6">
+                <div className="grid md:grid-cols-3 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="hours">Hours</Label>
+                    <Input
+                      id="hours"
+                      type="number"
+                      min="0"
+                      placeholder="0"
+                      value={hours}
+                      onChange={(e) => setHours(e.target.value)}
+                      className="bg-background/50"
+                      disabled={isCalculating}
+                    />
                   </div>
-                  <div>
-                    <p className="text-sm text-muted-foreground">Encrypted Fee Handle</p>
-                    <p className="font-mono text-sm break-all bg-background/40 rounded-lg px-4 py-3 border border-border/40">
-                      {result.feeHandle}
-                    </p>
-                    <p className="text-xs text-muted-foreground mt-2">
-                      Store this handle to decrypt later with your preferred tooling.
-                    </p>
+                  <div className="space-y-2">
+                    <Label htmlFor="minutes">Minutes</Label>
+                    <Input
+                      id="minutes"
+                      type="number"
+                      min="0"
+                      max="59"
+                      placeholder="0"
+                      value={minutes}
+                      onChange={(e) => setMinutes(e.target.value)}
+                      className="bg-background/50"
+                      disabled={isCalculating}
+                    />
                   </div>
-                  <div className="text-sm text-muted-foreground space-y-1">
-                    <p>
-                      Transaction:{" "}
-                      <a
-                        href={`https://sepolia.etherscan.io/tx/${result.txHash}`}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="text-primary hover:underline inline-flex items-center gap-1"
-                      >
-                        {result.txHash.slice(0, 10)}...{result.txHash.slice(-8)}
-                        <ExternalLink className="h-3 w-3" />
-                      </a>
+                  <div className="space-y-2">
+                    <Label htmlFor="vehicleClass">Vehicle</Label>
+                    <Select
+                      value={vehicleClass.toString()}
+                      onValueChange={(value) => setVehicleClass(Number(value))}
+                      disabled={isCalculating}
+                    >
+                      <SelectTrigger id="vehicleClass" className="bg-background/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VEHICLE_CLASSES.map((vc) => (
+                          <SelectItem key={vc.id} value={vc.id.toString()}>
+                            {vc.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {/* Estimate Preview */}
+                {estimate && contractInfo && (
+                  <div className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-3">
+                    <p className="text-sm font-medium">Estimate for {formatDuration(totalMinutes)}</p>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-muted-foreground">Blocks</p>
+                        <p className="font-semibold">
+                          {estimate.blocks.toString()} × {contractInfo.blockMinutes}m
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Max Blocks</p>
+                        <p className={`font-semibold ${estimate.capHit ? "text-primary" : ""}`}>
+                          {estimate.capHit ? `Cap hit (${contractInfo.maxBlocks})` : "Not reached"}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-muted-foreground">Fee</p>
+                        <p className="font-semibold">{formatPrice(estimate.fee)}</p>
+                      </div>
+                    </div>
+                    {(estimate.withinGrace ||
+                      estimate.billedMinutes !== estimate.minutes ||
+                      estimate.dailyCapApplied ||
+                      estimate.minimumApplied ||
+                      (estimate.classMultiplierBps ?? MULTIPLIER_BASE) !== MULTIPLIER_BASE) && (
+                      <p className="text-xs text-muted-foreground">
+                        {estimate.withinGrace &&
+                          `Within the ${formatDuration(contractInfo.graceMinutes)} grace period, no fee. `}
+                        {!estimate.withinGrace &&
+                          estimate.billedMinutes !== estimate.minutes &&
+                          `First ${formatDuration(contractInfo.graceMinutes)} free, ${formatDuration(Number(estimate.billedMinutes))} billed. `}
+                        {estimate.dailyCapApplied &&
+                          `Daily max fee lowers ${formatPrice(estimate.blocksFee)} for the blocks. `}
+                        {estimate.minimumApplied &&
+                          `Raised to the ${formatPrice(contractInfo.minimumFee)} minimum charge. `}
+                        {estimate.classMultiplierBps !== null &&
+                          estimate.classMultiplierBps !== MULTIPLIER_BASE &&
+                          `${VEHICLE_CLASSES[vehicleClass].label} rate ${formatMultiplier(estimate.classMultiplierBps)} applied.`}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {/* Error Display */}
+                {(error || decryption.error) && (
+                  <Alert className="border-red-500/50 bg-red-500/10">
+                    <AlertCircle className="h-4 w-4 text-red-500" />
+                    <AlertDescription className="text-red-400">
+                      {error || decryption.error}
+                      {error === RATES_CHANGED_ERROR && (
+                        <Button
+                          variant="link"
+                          className="text-red-400 p-0 ml-2 h-auto"
+                          onClick={handleReloadRates}
+                          disabled={isLoadingInfo}
+                        >
+                          Reload Rates
+                        </Button>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex gap-4">
+                  <Button
+                    onClick={handleCalculate}
+                    disabled={
+                      isCalculating ||
+                      isPaused ||
+                      !wallet.isConnected ||
+                      !CONTRACT_ADDRESS ||
+                      fhe.isInitializing ||
+                      isLoadingInfo ||
+                      !selectedLot
+                    }
+                    className="flex-1 bg-gradient-primary hover:opacity-90"
+                  >
+                    {fhe.isInitializing ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Initializing FHE...
+                      </>
+                    ) : isCalculating ? (
+                      <>
+                        <Lock className="mr-2 h-4 w-4 animate-pulse" />
+                        Encrypting & Computing...
+                      </>
+                    ) : (
+                      <>
+                        <CalcIcon className="mr-2 h-4 w-4" />
+                        Calculate Fee
+                      </>
+                    )}
+                  </Button>
+                  <Button
+                    onClick={() => handleDecrypt()}
+                    variant="outline"
+                    disabled={
+                      isCalculating ||
+                      decryption.isDecrypting ||
+                      !wallet.isConnected ||
+                      !CONTRACT_ADDRESS
+                    }
+                  >
+                    {decryption.isDecrypting && !result ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Unlock className="mr-2 h-4 w-4" />
+                    )}
+                    Decrypt Last Fee
+                  </Button>
+                  <Button
+                    onClick={handleReset}
+                    variant="outline"
+                    disabled={isCalculating || decryption.isDecrypting}
+                  >
+                    Reset
+                  </Button>
+                </div>
+
+                {/* Last Fee Display (decrypted on demand via getMyFeeHandle) */}
+                {decryption.feeCents !== null && decryption.feeHandle !== result?.feeHandle && (
+                  <div className="p-4 rounded-lg bg-primary/10 border border-primary/20 text-center">
+                    <p className="text-sm text-muted-foreground">Your Last Quoted Fee</p>
+                    <p className="text-3xl font-bold gradient-text">
+                      {formatPrice(decryption.feeCents)}
                     </p>
+                    <div className="mt-4">{paymentSection}</div>
+                  </div>
+                )}
+
+                {/* Result Display */}
+                {result && (
+                  <div className="mt-8 p-6 rounded-xl bg-gradient-primary/10 border border-primary/20">
+                    <div className="text-center space-y-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <CheckCircle2 className="h-5 w-5 text-green-500" />
+                        <span className="text-sm text-green-500 font-medium">
+                          Calculation Complete
+                        </span>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Parking Fee</p>
+                        {decryption.feeCents !== null &&
+                        decryption.feeHandle === result.feeHandle ? (
+                          <p className="text-4xl font-bold gradient-text">
+                            {formatPrice(decryption.feeCents)}
+                          </p>
+                        ) : (
+                          <Button
+                            onClick={() => handleDecrypt(result.feeHandle)}
+                            disabled={decryption.isDecrypting}
+                            variant="outline"
+                            className="mt-2"
+                          >
+                            {decryption.isDecrypting ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Decrypting...
+                              </>
+                            ) : (
+                              <>
+                                <Unlock className="mr-2 h-4 w-4" />
+                                Reveal Fee
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Encrypted Fee Handle</p>
+                        <p className="font-mono text-sm break-all bg-background/40 rounded-lg px-4 py-3 border border-border/40">
+                          {result.feeHandle}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-2">
+                          Only your wallet can decrypt this handle.
+                        </p>
+                      </div>
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        <p>
+                          Transaction:{" "}
+                          <a
+                            href={`https://sepolia.etherscan.io/tx/${result.txHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline inline-flex items-center gap-1"
+                          >
+                            {result.txHash.slice(0, 10)}...{result.txHash.slice(-8)}
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        </p>
+                      </div>
+                      {activeAddress && (
+                        <ShareQuote feeHandle={result.feeHandle} walletAddress={activeAddress} />
+                      )}
+                      {paymentSection}
+                    </div>
+                  </div>
+                )}
+
+                {/* Reservation Check-Out Breakdown */}
+                {checkout && !result && (
+                  <div className="mt-8 p-6 rounded-xl bg-gradient-primary/10 border border-primary/20">
+                    <div className="text-center space-y-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <CheckCircle2 className="h-5 w-5 text-green-500" />
+                        <span className="text-sm text-green-500 font-medium">
+                          Reservation #{checkout.id} Checked Out
+                        </span>
+                      </div>
+                      {checkoutBreakdown ? (
+                        <div className="grid grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <p className="text-muted-foreground">Reserved Fee</p>
+                            <p className="font-semibold">{formatPrice(checkoutBreakdown.fee)}</p>
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">Overstay Penalty</p>
+                            <p
+                              className={`font-semibold ${checkoutBreakdown.penalty > 0n ? "text-red-400" : ""}`}
+                            >
+                              {formatPrice(checkoutBreakdown.penalty)}
+                            </p>
+                            {checkoutBreakdown.penalty > 0n && checkout.penaltyPerBlock > 0n && (
+                              <p className="text-xs text-muted-foreground">
+                                {(checkoutBreakdown.penalty / checkout.penaltyPerBlock).toString()}{" "}
+                                × {formatPrice(checkout.penaltyPerBlock)} per block
+                              </p>
+                            )}
+                            {checkoutBreakdown.penalty > 0n && (
+                              <p className="text-xs text-muted-foreground">
+                                {formatPrice(checkoutBreakdown.penaltyPaid)} charged
+                                {checkoutBreakdown.penaltyPaid < checkoutBreakdown.penalty &&
+                                  " (insufficient balance)"}
+                              </p>
+                            )}
+                          </div>
+                          <div>
+                            <p className="text-muted-foreground">Total</p>
+                            <p className="text-2xl font-bold gradient-text">
+                              {formatPrice(checkoutBreakdown.fee + checkoutBreakdown.penalty)}
+                            </p>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button
+                          onClick={() => handleRevealCheckout(checkout)}
+                          disabled={isRevealingCheckout}
+                          variant="outline"
+                        >
+                          {isRevealingCheckout ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              Decrypting...
+                            </>
+                          ) : (
+                            <>
+                              <Unlock className="mr-2 h-4 w-4" />
+                              Reveal Breakdown
+                            </>
+                          )}
+                        </Button>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        The penalty covers only the blocks parked past your reserved end and is
+                        charged to the lot in the payment token. All amounts are stored encrypted
+                        with the reservation.
+                      </p>
+                      <div className="text-sm text-muted-foreground">
+                        Transaction:{" "}
+                        <a
+                          href={`https://sepolia.etherscan.io/tx/${checkout.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline inline-flex items-center gap-1"
+                        >
+                          {checkout.txHash.slice(0, 10)}...{checkout.txHash.slice(-8)}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </div>
+                    </div>
                   </div>
+                )}
+
+                {/* Privacy Note */}
+                <div className="mt-6 p-4 rounded-lg bg-muted/30 border border-border/50">
+                  <p className="text-sm text-muted-foreground">
+                    <span className="text-primary font-semibold">Privacy Note:</span> Your parking
+                    duration is encrypted using FHE before transmission. The fee is calculated on
+                    encrypted data, and only your wallet can decrypt the result via a signed
+                    user-decryption request.
+                  </p>
                 </div>
               </div>
-            )}
-
-            {/* Privacy Note */}
-            <div className="mt-6 p-4 rounded-lg bg-muted/30 border border-border/50">
-              <p className="text-sm text-muted-foreground">
-                <span className="text-primary font-semibold">Privacy Note:</span> Your parking
-                duration is encrypted using FHE before transmission. The fee is calculated on
-                encrypted data, and the dapp now returns the encrypted handle for you to decrypt on
-                your own schedule.
-              </p>
-            </div>
-          </div>
+            </TabsContent>
+            <TabsContent value="batch">
+              <BatchQuote
+                walletAddress={activeAddress}
+                lotId={selectedLotId}
+                rules={contractInfo}
+                rateVersion={
+                  rateData
+                    ? quoteRateVersion(rateData.rateVersion, rateData.lots, selectedLotId)
+                    : null
+                }
+                isPaused={isPaused}
+                onQuoted={handleBatchQuoted}
+              >
+                {paymentSection}
+              </BatchQuote>
+            </TabsContent>
+          </Tabs>
         </Card>
 
         {/* Process Steps */}
@@ -392,10 +1235,9 @@ const Calculator = () => {
                 3
               </div>
               <div>
-                <p className="font-medium">Receive Encrypted Handle</p>
+                <p className="font-medium">Decrypt Your Fee</p>
                 <p className="text-sm text-muted-foreground">
-                  The app returns an encrypted fee handle so you can store it or decrypt later with
-                  external tooling
+                  Sign a decryption request with your wallet to reveal the fee only to you
                 </p>
               </div>
             </div>
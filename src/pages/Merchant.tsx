@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { isAddress } from "ethers";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Store, Loader2, AlertCircle, ExternalLink, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/useWallet";
+import { encryptUint64Batch } from "@/lib/fhe";
+import {
+  hasRole,
+  callValidate,
+  getValidationsIssuedBy,
+  CONTRACT_ADDRESS,
+  type IssuedValidation,
+} from "@/lib/contract";
+
+type IssueStep = "idle" | "encrypting" | "issuing";
+
+const ISSUE_STEP_LABELS: Record<IssueStep, string> = {
+  idle: "Issue Validation",
+  encrypting: "Encrypting...",
+  issuing: "Issuing...",
+};
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Merchant = () => {
+  const [isMerchant, setIsMerchant] = useState<boolean | null>(null);
+  const [issued, setIssued] = useState<IssuedValidation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [driver, setDriver] = useState("");
+  const [freeMinutes, setFreeMinutes] = useState("");
+  const [discountPercent, setDiscountPercent] = useState("");
+  const [step, setStep] = useState<IssueStep>("idle");
+
+  const { toast } = useToast();
+  const wallet = useWallet();
+
+  // Load merchant status when connected
+  useEffect(() => {
+    if (wallet.isConnected && wallet.isCorrectNetwork && CONTRACT_ADDRESS) {
+      loadMerchant();
+    }
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
+
+  const loadMerchant = async () => {
+    setIsLoading(true);
+    try {
+      const [merchant, validations] = await Promise.all([
+        hasRole("merchant", wallet.address),
+        getValidationsIssuedBy(wallet.address),
+      ]);
+      setIsMerchant(merchant);
+      setIssued(validations);
+    } catch (error) {
+      console.error("Failed to load merchant info:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load merchant info",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleIssue = async () => {
+    const minutesValue = freeMinutes ? parseInt(freeMinutes) : 0;
+    const percentValue = discountPercent ? parseInt(discountPercent) : 0;
+
+    if (!isAddress(driver) || driver.toLowerCase() === wallet.address.toLowerCase()) {
+      toast({
+        title: "Invalid Address",
+        description: "Please enter the driver's wallet address",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (
+      isNaN(minutesValue) ||
+      isNaN(percentValue) ||
+      minutesValue < 0 ||
+      percentValue < 0 ||
+      percentValue > 100 ||
+      minutesValue + percentValue === 0
+    ) {
+      toast({
+        title: "Invalid Validation",
+        description: "Enter free minutes and/or a discount between 1 and 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setStep("encrypting");
+      const { handles, inputProof } = await encryptUint64Batch(
+        [minutesValue, percentValue],
+        CONTRACT_ADDRESS,
+        wallet.address
+      );
+
+      setStep("issuing");
+      const txHash = await callValidate(driver, handles[0], handles[1], inputProof);
+      setDriver("");
+      setFreeMinutes("");
+      setDiscountPercent("");
+      toast({
+        title: "Validation Issued",
+        description: (
+          <span>
+            Applies to the driver's next quote.{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadMerchant();
+    } catch (error: any) {
+      console.error("Failed to issue validation:", error);
+      toast({
+        title: "Validation Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setStep("idle");
+    }
+  };
+
+  return (
+    <main className="min-h-screen pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            Merchant <span className="gradient-text">Validations</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Give customers free parking minutes or a discount on their next fee
+          </p>
+        </div>
+
+        {/* Connection Status */}
+        {!wallet.isConnected && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              Please connect your merchant wallet.
+              <Button
+                variant="link"
+                className="text-yellow-500 p-0 ml-2 h-auto"
+                onClick={wallet.connect}
+              >
+                Connect Wallet
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && !wallet.isCorrectNetwork && (
+          <Alert className="mb-6 border-orange-500/50 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-500" />
+            <AlertDescription>
+              Please switch to Sepolia testnet.
+              <Button
+                variant="link"
+                className="text-orange-500 p-0 ml-2 h-auto"
+                onClick={wallet.switchNetwork}
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && isMerchant === false && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <AlertDescription>
+              This address is not a registered merchant. Ask the contract owner to grant the
+              Merchant role.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Issue Validation */}
+        <Card className="glass-card p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <Store className="h-5 w-5 text-primary" />
+            Issue Validation
+          </h3>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="validationDriver">Driver address</Label>
+              <Input
+                id="validationDriver"
+                placeholder="0x..."
+                value={driver}
+                onChange={(e) => setDriver(e.target.value.trim())}
+                disabled={!isMerchant || step !== "idle"}
+                className="font-mono bg-background/50"
+              />
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="validationMinutes">Free minutes</Label>
+                <Input
+                  id="validationMinutes"
+                  type="number"
+                  min="0"
+                  placeholder="60"
+                  value={freeMinutes}
+                  onChange={(e) => setFreeMinutes(e.target.value)}
+                  disabled={!isMerchant || step !== "idle"}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="validationPercent">Discount (%)</Label>
+                <Input
+                  id="validationPercent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  placeholder="0"
+                  value={discountPercent}
+                  onChange={(e) => setDiscountPercent(e.target.value)}
+                  disabled={!isMerchant || step !== "idle"}
+                  className="bg-background/50"
+                />
+              </div>
+            </div>
+            <Button
+              onClick={handleIssue}
+              disabled={!isMerchant || step !== "idle" || !driver}
+              className="w-full bg-gradient-primary hover:opacity-90"
+            >
+              {step !== "idle" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {ISSUE_STEP_LABELS[step]}
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Both amounts are encrypted in your browser; only the driver can decrypt them. Free
+              minutes come off the stay before pricing, the discount off the resulting fee.
+              Validations stack until the driver's next quote: minutes add up and the highest
+              discount applies.
+            </p>
+          </div>
+        </Card>
+
+        {/* Issued Validations */}
+        <Card className="glass-card p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">Issued by You</h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadMerchant}
+              disabled={isLoading || !wallet.isConnected}
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : issued.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {wallet.isConnected
+                ? "No validations issued yet"
+                : "Connect wallet to load your validations"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Driver</TableHead>
+                  <TableHead>Amounts</TableHead>
+                  <TableHead className="text-right">Transaction</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issued.map((validation) => (
+                  <TableRow key={validation.txHash}>
+                    <TableCell className="font-mono">{formatAddress(validation.driver)}</TableCell>
+                    <TableCell className="text-muted-foreground">Encrypted</TableCell>
+                    <TableCell className="text-right">
+                      <a
+                        href={`https://sepolia.etherscan.io/tx/${validation.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline inline-flex items-center gap-1"
+                      >
+                        {validation.txHash.slice(0, 10)}...
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default Merchant;
@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  History,
+  Loader2,
+  AlertCircle,
+  ExternalLink,
+  RefreshCw,
+  Unlock,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/useWallet";
+import { decryptFee } from "@/lib/fhe";
+import {
+  getMyQuotes,
+  getMyQuoteTxHashes,
+  getLots,
+  getSigner,
+  formatPrice,
+  CONTRACT_ADDRESS,
+  type QuoteRecord,
+} from "@/lib/contract";
+
+const MyQuotes = () => {
+  const [quotes, setQuotes] = useState<QuoteRecord[]>([]);
+  const [lotNames, setLotNames] = useState<Record<number, string>>({});
+  const [txHashes, setTxHashes] = useState<Record<string, string>>({});
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [decryptingHandle, setDecryptingHandle] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { toast } = useToast();
+  const wallet = useWallet();
+
+  // Load history when connected
+  useEffect(() => {
+    if (wallet.isConnected && wallet.isCorrectNetwork && CONTRACT_ADDRESS) {
+      loadQuotes();
+    }
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
+
+  const loadQuotes = async () => {
+    setIsLoading(true);
+    try {
+      const [history, lots] = await Promise.all([getMyQuotes(), getLots()]);
+      // Newest first
+      setQuotes([...history].reverse());
+      setLotNames(Object.fromEntries(lots.map((lot) => [lot.id, lot.name])));
+    } catch (error) {
+      console.error("Failed to load quotes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load your quote history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+
+    // Transaction links are best-effort (RPC log ranges may be limited)
+    try {
+      setTxHashes(await getMyQuoteTxHashes(wallet.address));
+    } catch (error) {
+      console.warn("Could not load quote transactions:", error);
+    }
+  };
+
+  const handleDecrypt = async (feeHandle: string) => {
+    setDecryptingHandle(feeHandle);
+    try {
+      const signer = await getSigner();
+      const feeCents = await decryptFee(feeHandle, CONTRACT_ADDRESS, signer);
+      setDecrypted((prev) => ({ ...prev, [feeHandle]: feeCents }));
+    } catch (error: any) {
+      console.error("Failed to decrypt fee:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt fee",
+        variant: "destructive",
+      });
+    } finally {
+      setDecryptingHandle(null);
+    }
+  };
+
+  return (
+    <main className="min-h-screen pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            My <span className="gradient-text">Quotes</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Every fee you have calculated, stored encrypted on-chain
+          </p>
+        </div>
+
+        {/* Connection Status */}
+        {!wallet.isConnected && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              Please connect your wallet to view your quotes.
+              <Button
+                variant="link"
+                className="text-yellow-500 p-0 ml-2 h-auto"
+                onClick={wallet.connect}
+              >
+                Connect Wallet
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && !wallet.isCorrectNetwork && (
+          <Alert className="mb-6 border-orange-500/50 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-500" />
+            <AlertDescription>
+              Please switch to Sepolia testnet.
+              <Button
+                variant="link"
+                className="text-orange-500 p-0 ml-2 h-auto"
+                onClick={wallet.switchNetwork}
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-card p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Quote History
+            </h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={loadQuotes}
+              disabled={isLoading || !wallet.isConnected}
+            >
+              <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : quotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {wallet.isConnected ? "No quotes yet" : "Connect wallet to load your quotes"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Rates</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">Transaction</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotes.map((quote) => {
+                  const txHash = txHashes[quote.feeHandle.toLowerCase()];
+                  const fee = decrypted[quote.feeHandle];
+                  return (
+                    <TableRow key={quote.index}>
+                      <TableCell className="text-muted-foreground">{quote.index + 1}</TableCell>
+                      <TableCell>{new Date(quote.timestamp * 1000).toLocaleString()}</TableCell>
+                      <TableCell>{lotNames[quote.lotId] ?? `#${quote.lotId}`}</TableCell>
+                      <TableCell className="text-muted-foreground">v{quote.rateVersion}</TableCell>
+                      <TableCell className="text-right">
+                        {fee !== undefined ? (
+                          <span className="font-semibold">{formatPrice(fee)}</span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDecrypt(quote.feeHandle)}
+                            disabled={decryptingHandle !== null}
+                          >
+                            {decryptingHandle === quote.feeHandle ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <>
+                                <Unlock className="mr-1 h-3 w-3" />
+                                Decrypt
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {txHash ? (
+                          <a
+                            href={`https://sepolia.etherscan.io/tx/${txHash}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-primary hover:underline inline-flex items-center gap-1"
+                          >
+                            {txHash.slice(0, 10)}...
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        ) : (
+                          <span className="text-muted-foreground">--</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default MyQuotes;
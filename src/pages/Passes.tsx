@@ -0,0 +1,327 @@
+import { useState, useEffect } from "react";
+import { ZeroHash } from "ethers";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Ticket, Loader2, AlertCircle, RefreshCw, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/useWallet";
+import { userDecryptUint64Batch } from "@/lib/fhe";
+import {
+  getLots,
+  getPassPrice,
+  getMyPassHandle,
+  getPauseState,
+  isPaymentOperatorApproved,
+  approvePaymentOperator,
+  callBuyPass,
+  getSigner,
+  formatPrice,
+  CONTRACT_ADDRESS,
+  PASS_DURATION,
+  type ParkingLot,
+} from "@/lib/contract";
+
+interface LotPass {
+  lot: ParkingLot;
+  price: bigint; // cents, 0 = no passes sold
+  expiryHandle: string; // ZeroHash if never bought
+}
+
+const PASS_DAYS = PASS_DURATION / (24 * 60 * 60);
+
+const Passes = () => {
+  const [passes, setPasses] = useState<LotPass[]>([]);
+  const [expiries, setExpiries] = useState<Record<number, bigint>>({}); // Unix seconds by lot
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [buyingLot, setBuyingLot] = useState<number | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  const { toast } = useToast();
+  const wallet = useWallet();
+
+  // Load passes when connected
+  useEffect(() => {
+    if (wallet.isConnected && wallet.isCorrectNetwork && CONTRACT_ADDRESS) {
+      loadPasses();
+    }
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
+
+  const loadPasses = async () => {
+    setIsLoading(true);
+    try {
+      const [lots, pause] = await Promise.all([getLots(), getPauseState()]);
+      const rows = await Promise.all(
+        lots.map(async (lot) => {
+          const [price, expiryHandle] = await Promise.all([
+            getPassPrice(lot.id),
+            getMyPassHandle(lot.id),
+          ]);
+          return { lot, price, expiryHandle };
+        })
+      );
+      // Lots without passes are only listed if the user still holds one there
+      setPasses(rows.filter((row) => row.price > 0n || row.expiryHandle !== ZeroHash));
+      setExpiries({});
+      setIsPaused(pause.paused);
+    } catch (error) {
+      console.error("Failed to load passes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load passes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Decrypt every pass expiry with one signature
+  const handleReveal = async () => {
+    const owned = passes.filter((p) => p.expiryHandle !== ZeroHash);
+    if (owned.length === 0) return;
+
+    setIsRevealing(true);
+    try {
+      const signer = await getSigner();
+      const values = await userDecryptUint64Batch(
+        owned.map((p) => p.expiryHandle),
+        CONTRACT_ADDRESS,
+        signer
+      );
+      setExpiries(Object.fromEntries(owned.map((p, i) => [p.lot.id, values[i]])));
+    } catch (error: any) {
+      console.error("Failed to decrypt passes:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt passes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const handleBuy = async (pass: LotPass) => {
+    setBuyingLot(pass.lot.id);
+    try {
+      // Approve the calculator as token operator if needed
+      if (!(await isPaymentOperatorApproved(wallet.address))) {
+        await approvePaymentOperator();
+      }
+
+      const { txHash } = await callBuyPass(pass.lot.id, pass.price);
+      toast({
+        title: "Pass Purchase Submitted",
+        description: (
+          <span>
+            Reveal your pass to confirm the payment went through.{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadPasses();
+    } catch (error: any) {
+      console.error("Failed to buy pass:", error);
+      toast({
+        title: "Purchase Failed",
+        description: error.message?.includes("Price changed")
+          ? "The pass price changed. Reload and try again."
+          : error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setBuyingLot(null);
+    }
+  };
+
+  const passStatus = (pass: LotPass) => {
+    if (pass.expiryHandle === ZeroHash) {
+      return <span className="text-muted-foreground">No pass</span>;
+    }
+    const expiry = expiries[pass.lot.id];
+    if (expiry === undefined) {
+      return <span className="text-muted-foreground">Encrypted</span>;
+    }
+    // A failed payment leaves the expiry at 0
+    if (expiry === 0n) {
+      return <span className="text-red-400">Not paid</span>;
+    }
+    const date = new Date(Number(expiry) * 1000).toLocaleString();
+    return expiry * 1000n > BigInt(Date.now()) ? (
+      <span className="text-green-400 font-semibold">Active until {date}</span>
+    ) : (
+      <span className="text-muted-foreground">Expired {date}</span>
+    );
+  };
+
+  const hasOwnedPasses = passes.some((p) => p.expiryHandle !== ZeroHash);
+
+  return (
+    <main className="min-h-screen pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            Monthly <span className="gradient-text">Passes</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Park for free for {PASS_DAYS} days; your pass status stays encrypted on-chain
+          </p>
+        </div>
+
+        {/* Connection Status */}
+        {!wallet.isConnected && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              Please connect your wallet to view and buy passes.
+              <Button
+                variant="link"
+                className="text-yellow-500 p-0 ml-2 h-auto"
+                onClick={wallet.connect}
+              >
+                Connect Wallet
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && !wallet.isCorrectNetwork && (
+          <Alert className="mb-6 border-orange-500/50 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-500" />
+            <AlertDescription>
+              Please switch to Sepolia testnet.
+              <Button
+                variant="link"
+                className="text-orange-500 p-0 ml-2 h-auto"
+                onClick={wallet.switchNetwork}
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isPaused && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <AlertDescription className="text-red-400">
+              The contract is paused; passes cannot be bought right now.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-card p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <Ticket className="h-5 w-5 text-primary" />
+              Passes by Lot
+            </h3>
+            <div className="flex items-center gap-2">
+              {hasOwnedPasses && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleReveal}
+                  disabled={isRevealing || isLoading}
+                >
+                  {isRevealing ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <>
+                      <Unlock className="mr-1 h-3 w-3" />
+                      Reveal My Passes
+                    </>
+                  )}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadPasses}
+                disabled={isLoading || !wallet.isConnected}
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : passes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {wallet.isConnected ? "No lots sell passes yet" : "Connect wallet to load passes"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead>Your Pass</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {passes.map((pass) => (
+                  <TableRow key={pass.lot.id}>
+                    <TableCell>{pass.lot.name}</TableCell>
+                    <TableCell>
+                      {pass.price > 0n ? `${formatPrice(pass.price)} / ${PASS_DAYS} days` : "--"}
+                    </TableCell>
+                    <TableCell>{passStatus(pass)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => handleBuy(pass)}
+                        disabled={
+                          buyingLot !== null || isPaused || pass.price === 0n || !pass.lot.active
+                        }
+                        className="bg-gradient-primary hover:opacity-90"
+                      >
+                        {buyingLot === pass.lot.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : pass.expiryHandle === ZeroHash ? (
+                          "Buy"
+                        ) : (
+                          "Extend"
+                        )}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <p className="text-sm text-muted-foreground mt-4">
+            Passes are paid in the confidential payment token. Quotes, sessions and batch quotes
+            at a lot cost nothing while your pass there is active; the contract checks the
+            encrypted expiry, so nobody else can tell whether you hold a pass. If your balance is
+            too low the purchase still succeeds on-chain but the pass is not extended.
+          </p>
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default Passes;
@@ -0,0 +1,663 @@
+import { useState, useEffect } from "react";
+import { ZeroHash } from "ethers";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CalendarDays,
+  CalendarCheck,
+  Loader2,
+  AlertCircle,
+  RefreshCw,
+  Unlock,
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/useWallet";
+import { encryptUint64Batch, userDecryptUint64Batch } from "@/lib/fhe";
+import {
+  getLots,
+  getLotCapacity,
+  getFeeRules,
+  getMyReservations,
+  getOpenBookings,
+  getPenaltyPerBlock,
+  callReserve,
+  cancelReservation,
+  isPaymentOperatorApproved,
+  approvePaymentOperator,
+  getSigner,
+  formatPrice,
+  RESERVATIONS_ADDRESS,
+  DEFAULT_LOT_ID,
+  MAX_RESERVATION_ADVANCE,
+  MAX_RESERVATION_MINUTES,
+  MAX_OPEN_BOOKINGS,
+  RESERVATION_OPERATOR_DURATION,
+  type ParkingLot,
+  type PricingTier,
+  type Reservation,
+} from "@/lib/contract";
+import { simulateQuote, type FeeRules } from "@/lib/pricing";
+
+type ReserveStep = "idle" | "approving" | "encrypting" | "reserving";
+
+const RESERVE_STEP_LABELS: Record<ReserveStep, string> = {
+  idle: "Reserve Spot",
+  approving: "Approving Payments...",
+  encrypting: "Encrypting...",
+  reserving: "Reserving...",
+};
+
+interface RateData {
+  lots: ParkingLot[]; // Active lots that take reservations
+  lotNames: Record<number, string>; // Every lot, for past reservations
+  tiers: PricingTier[]; // Default lot only
+  dailyMaxFee: bigint;
+  minimumFee: bigint;
+  penaltyPerBlock: bigint; // Overstay penalty in cents (0 = none)
+}
+
+// Decrypted reservation details
+interface RevealedReservation {
+  start: number; // unix seconds
+  end: number; // unix seconds
+  fee: bigint; // cents
+  penalty: bigint | null; // Overstay penalty in cents, null until released
+  penaltyPaid: bigint; // Part of the penalty charged in the payment token
+  confirmed: boolean;
+}
+
+// Reservations are billed like a quote without a grace period
+const lotFeeRules = (data: RateData, lot: ParkingLot): FeeRules => ({
+  pricePerBlock: lot.pricePerBlock,
+  blockMinutes: lot.blockMinutes,
+  maxBlocks: lot.maxBlocks,
+  tiers: lot.id === DEFAULT_LOT_ID ? data.tiers : [],
+  dailyMaxFee: data.dailyMaxFee,
+  minimumFee: data.minimumFee,
+  graceMinutes: 0,
+  graceDeducted: false,
+});
+
+const startOfToday = () => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+};
+
+const Reserve = () => {
+  const [rateData, setRateData] = useState<RateData | null>(null);
+  const [lotId, setLotId] = useState<number | null>(null);
+  const [date, setDate] = useState<Date | undefined>();
+  const [time, setTime] = useState("09:00");
+  const [hours, setHours] = useState("");
+  const [minutes, setMinutes] = useState("");
+  const [step, setStep] = useState<ReserveStep>("idle");
+  const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [openBookings, setOpenBookings] = useState(0);
+  const [revealed, setRevealed] = useState<Record<number, RevealedReservation>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+
+  const { toast } = useToast();
+  const wallet = useWallet();
+
+  // Load lots and reservations when connected
+  useEffect(() => {
+    if (wallet.isConnected && wallet.isCorrectNetwork && RESERVATIONS_ADDRESS) {
+      loadData();
+    }
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    try {
+      const [lots, { tiers, dailyMaxFee, minimumFee }, penaltyPerBlock, mine, open] =
+        await Promise.all([
+          getLots(),
+          getFeeRules(),
+          getPenaltyPerBlock(),
+          getMyReservations(),
+          getOpenBookings(wallet.address),
+        ]);
+      const capacities = await Promise.all(lots.map((lot) => getLotCapacity(lot.id)));
+      const bookable = lots.filter((lot, i) => lot.active && capacities[i] > 0);
+
+      setRateData({
+        lots: bookable,
+        lotNames: Object.fromEntries(lots.map((lot) => [lot.id, lot.name])),
+        tiers,
+        dailyMaxFee,
+        minimumFee,
+        penaltyPerBlock,
+      });
+      setLotId((prev) =>
+        prev !== null && bookable.some((lot) => lot.id === prev) ? prev : bookable[0]?.id ?? null
+      );
+      setReservations(mine);
+      setOpenBookings(open);
+      setRevealed({});
+    } catch (error) {
+      console.error("Failed to load reservations:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load reservations",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectedLot = rateData?.lots.find((lot) => lot.id === lotId);
+  const totalMinutes = (parseInt(hours) || 0) * 60 + (parseInt(minutes) || 0);
+
+  // Selected start as unix seconds, or null if incomplete
+  const startTime = (() => {
+    if (!date || !time) return null;
+    const [h, m] = time.split(":").map(Number);
+    const start = new Date(date);
+    start.setHours(h, m, 0, 0);
+    return Math.floor(start.getTime() / 1000);
+  })();
+
+  const estimate =
+    rateData && selectedLot && totalMinutes > 0
+      ? simulateQuote(BigInt(totalMinutes), lotFeeRules(rateData, selectedLot)).fee
+      : null;
+
+  const handleReserve = async () => {
+    if (!selectedLot || startTime === null) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (startTime < now || startTime > now + MAX_RESERVATION_ADVANCE) {
+      toast({
+        title: "Invalid Start",
+        description: `Pick a start within the next ${MAX_RESERVATION_ADVANCE / 86400} days`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (totalMinutes <= 0 || totalMinutes > MAX_RESERVATION_MINUTES) {
+      toast({
+        title: "Invalid Duration",
+        description: `Reservations last between 1 minute and ${MAX_RESERVATION_MINUTES / 60} hours`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await ensureApproval(() => setStep("approving"));
+
+      setStep("encrypting");
+      const { handles, inputProof } = await encryptUint64Batch(
+        [startTime, totalMinutes],
+        RESERVATIONS_ADDRESS,
+        wallet.address
+      );
+
+      setStep("reserving");
+      const { txHash } = await callReserve(selectedLot.id, handles[0], handles[1], inputProof);
+      toast({
+        title: "Reservation Submitted",
+        description: (
+          <span>
+            Reveal it below to see whether a spot was free and the fee paid.{" "}
+            <a
+              href={`https://sepolia.etherscan.io/tx/${txHash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+            >
+              View on Etherscan
+            </a>
+          </span>
+        ),
+      });
+      await loadData();
+    } catch (error: any) {
+      console.error("Failed to reserve:", error);
+      toast({
+        title: "Reservation Failed",
+        description: error.message?.includes("Fully booked")
+          ? "This lot has too many open reservations. Try another lot."
+          : error.message?.includes("Too many bookings")
+          ? `You can hold ${MAX_OPEN_BOOKINGS} open reservations. Release one first.`
+          : error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setStep("idle");
+    }
+  };
+
+  // Decrypt every reservation with one signature
+  const handleReveal = async () => {
+    if (reservations.length === 0) return;
+
+    setIsRevealing(true);
+    try {
+      // Released reservations also carry their overstay penalty and what was charged for it
+      const settled = reservations.filter((r) => r.penaltyHandle !== ZeroHash);
+      const charged = settled.filter((r) => r.penaltyPaidHandle !== ZeroHash);
+      const signer = await getSigner();
+      const values = await userDecryptUint64Batch(
+        [
+          ...reservations.flatMap((r) => [r.startHandle, r.endHandle, r.feeHandle, r.confirmedHandle]),
+          ...settled.map((r) => r.penaltyHandle),
+          ...charged.map((r) => r.penaltyPaidHandle),
+        ],
+        RESERVATIONS_ADDRESS,
+        signer
+      );
+      const penalties: Record<number, bigint> = Object.fromEntries(
+        settled.map((r, i) => [r.id, values[4 * reservations.length + i]])
+      );
+      const paid: Record<number, bigint> = Object.fromEntries(
+        charged.map((r, i) => [r.id, values[4 * reservations.length + settled.length + i]])
+      );
+      setRevealed(
+        Object.fromEntries(
+          reservations.map((r, i) => [
+            r.id,
+            {
+              start: Number(values[4 * i]),
+              end: Number(values[4 * i + 1]),
+              fee: values[4 * i + 2],
+              penalty: penalties[r.id] ?? null,
+              penaltyPaid: paid[r.id] ?? 0n,
+              confirmed: values[4 * i + 3] !== 0n,
+            },
+          ])
+        )
+      );
+    } catch (error: any) {
+      console.error("Failed to decrypt reservations:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt reservations",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  // The reservations contract charges the fee, and any overstay penalty, from the
+  // driver's token balance and must stay approved until the booking surely ended
+  const ensureApproval = async (onApproving?: () => void) => {
+    if (!(await isPaymentOperatorApproved(wallet.address, RESERVATIONS_ADDRESS))) {
+      onApproving?.();
+      await approvePaymentOperator(RESERVATION_OPERATOR_DURATION, RESERVATIONS_ADDRESS);
+    }
+  };
+
+  const handleCancel = async (id: number) => {
+    setCancellingId(id);
+    try {
+      // A late cancellation is billed the overstay
+      if (rateData?.penaltyPerBlock) {
+        await ensureApproval();
+      }
+      await cancelReservation(id);
+      toast({
+        title: "Reservation Released",
+        description: "The spot is available to other drivers again",
+      });
+      await loadData();
+    } catch (error: any) {
+      console.error("Failed to cancel reservation:", error);
+      toast({
+        title: "Cancellation Failed",
+        description: error.message || "Transaction failed",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const lotName = (id: number) => rateData?.lotNames[id] ?? `Lot #${id}`;
+
+  const reservationStatus = (r: Reservation) => {
+    const details = revealed[r.id];
+    if (!details) {
+      return <span className="text-muted-foreground">Encrypted</span>;
+    }
+    if (!details.confirmed) {
+      return <span className="text-red-400">Not available</span>;
+    }
+    return r.active ? (
+      <span className="text-green-400 font-semibold">Confirmed</span>
+    ) : (
+      <span className="text-muted-foreground">Released</span>
+    );
+  };
+
+  const today = startOfToday();
+  const lastDay = new Date(Date.now() + MAX_RESERVATION_ADVANCE * 1000);
+
+  return (
+    <main className="min-h-screen pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            Reserve a <span className="gradient-text">Spot</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Book ahead without revealing when you'll park; start and duration stay encrypted
+          </p>
+        </div>
+
+        {/* Connection Status */}
+        {!RESERVATIONS_ADDRESS && (
+          <Alert className="mb-6 border-red-500/50 bg-red-500/10">
+            <AlertCircle className="h-4 w-4 text-red-500" />
+            <AlertDescription>
+              Reservations are not configured. Set VITE_RESERVATIONS_ADDRESS in .env.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!wallet.isConnected && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              Please connect your wallet to reserve a spot.
+              <Button
+                variant="link"
+                className="text-yellow-500 p-0 ml-2 h-auto"
+                onClick={wallet.connect}
+              >
+                Connect Wallet
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && !wallet.isCorrectNetwork && (
+          <Alert className="mb-6 border-orange-500/50 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-500" />
+            <AlertDescription>
+              Please switch to Sepolia testnet.
+              <Button
+                variant="link"
+                className="text-orange-500 p-0 ml-2 h-auto"
+                onClick={wallet.switchNetwork}
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Booking Form */}
+        <Card className="glass-card p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5 text-primary" />
+            New Reservation
+          </h3>
+          {rateData && rateData.lots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No lot takes reservations right now
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Lot</Label>
+                  <Select
+                    value={lotId !== null ? lotId.toString() : undefined}
+                    onValueChange={(value) => setLotId(Number(value))}
+                    disabled={!rateData || step !== "idle"}
+                  >
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="Select a lot" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rateData?.lots.map((lot) => (
+                        <SelectItem key={lot.id} value={lot.id.toString()}>
+                          {lot.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className="w-full justify-start font-normal bg-background/50"
+                        disabled={step !== "idle"}
+                      >
+                        <CalendarDays className="mr-2 h-4 w-4" />
+                        {date ? date.toLocaleDateString() : "Pick a date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={date}
+                        onSelect={setDate}
+                        disabled={{ before: today, after: lastDay }}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reserveTime">Arrival</Label>
+                  <Input
+                    id="reserveTime"
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    disabled={step !== "idle"}
+                    className="bg-background/50"
+                  />
+                </div>
+              </div>
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="reserveHours">Hours</Label>
+                  <Input
+                    id="reserveHours"
+                    type="number"
+                    min="0"
+                    max={MAX_RESERVATION_MINUTES / 60}
+                    placeholder="2"
+                    value={hours}
+                    onChange={(e) => setHours(e.target.value)}
+                    disabled={step !== "idle"}
+                    className="bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="reserveMinutes">Minutes</Label>
+                  <Input
+                    id="reserveMinutes"
+                    type="number"
+                    min="0"
+                    max="59"
+                    placeholder="0"
+                    value={minutes}
+                    onChange={(e) => setMinutes(e.target.value)}
+                    disabled={step !== "idle"}
+                    className="bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Estimated Fee</Label>
+                  <p className="h-10 flex items-center text-2xl font-bold gradient-text">
+                    {estimate !== null ? formatPrice(estimate) : "—"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                onClick={handleReserve}
+                disabled={
+                  step !== "idle" ||
+                  !wallet.isConnected ||
+                  !wallet.isCorrectNetwork ||
+                  !selectedLot ||
+                  startTime === null ||
+                  totalMinutes <= 0 ||
+                  openBookings >= MAX_OPEN_BOOKINGS
+                }
+                className="w-full bg-gradient-primary hover:opacity-90"
+              >
+                {step !== "idle" && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {RESERVE_STEP_LABELS[step]}
+              </Button>
+              <p className="text-sm text-muted-foreground">
+                The contract checks your encrypted window against the lot's other bookings and its
+                capacity without decrypting either. The fee is charged to the lot in the payment
+                token when you book and is not refunded; whether a spot was free is encrypted too,
+                and unavailable bookings (or ones your balance does not cover) cost nothing. Starts
+                up to {MAX_RESERVATION_ADVANCE / 86400} days ahead, stays up to{" "}
+                {MAX_RESERVATION_MINUTES / 60} hours, at most {MAX_OPEN_BOOKINGS} open reservations
+                per wallet ({openBookings} now). Check out on the Calculator page when you leave;
+                blocks parked past your reserved end, or released late, are billed as an overstay
+                penalty. Anyone can release a booking once it ended or if it was unavailable.
+                Bookings never checked out are charged the full overstay once they expire.
+              </p>
+            </div>
+          )}
+        </Card>
+
+        {/* My Reservations */}
+        <Card className="glass-card p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold">My Reservations</h3>
+            <div className="flex items-center gap-2">
+              {reservations.length > 0 && Object.keys(revealed).length === 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleReveal}
+                  disabled={isRevealing || isLoading}
+                >
+                  {isRevealing ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <>
+                      <Unlock className="mr-1 h-3 w-3" />
+                      Reveal
+                    </>
+                  )}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadData}
+                disabled={isLoading || !wallet.isConnected || !RESERVATIONS_ADDRESS}
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : reservations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {wallet.isConnected ? "No reservations yet" : "Connect wallet to load reservations"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Window</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">Action</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reservations.map((r) => {
+                  const details = revealed[r.id];
+                  return (
+                    <TableRow key={r.id}>
+                      <TableCell>{lotName(r.lotId)}</TableCell>
+                      <TableCell>
+                        {details ? (
+                          `${new Date(details.start * 1000).toLocaleString()} – ${new Date(
+                            details.end * 1000
+                          ).toLocaleTimeString()}`
+                        ) : (
+                          <span className="text-muted-foreground">Encrypted</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{reservationStatus(r)}</TableCell>
+                      <TableCell className="text-right">
+                        {details ? (
+                          <>
+                            <span className="font-semibold">{formatPrice(details.fee)}</span>
+                            {details.penalty !== null && details.penalty > 0n && (
+                              <span className="block text-xs text-red-400">
+                                + {formatPrice(details.penalty)} overstay
+                                {details.penaltyPaid < details.penalty &&
+                                  ` (${formatPrice(details.penalty - details.penaltyPaid)} unpaid)`}
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Encrypted</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {r.active && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleCancel(r.id)}
+                            disabled={cancellingId !== null}
+                          >
+                            {cancellingId === r.id ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              "Release"
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default Reserve;
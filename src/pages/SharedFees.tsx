@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Briefcase, Loader2, AlertCircle, ExternalLink, RefreshCw, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWallet } from "@/hooks/useWallet";
+import { userDecryptUint64Batch } from "@/lib/fhe";
+import {
+  getQuotesSharedWith,
+  getLots,
+  getSigner,
+  formatPrice,
+  CONTRACT_ADDRESS,
+  type SharedQuote,
+} from "@/lib/contract";
+
+const formatAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const SharedFees = () => {
+  const [shared, setShared] = useState<SharedQuote[]>([]);
+  const [lotNames, setLotNames] = useState<Record<number, string>>({});
+  const [decrypted, setDecrypted] = useState<Record<string, bigint>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const { toast } = useToast();
+  const wallet = useWallet();
+
+  // Load shared fees when connected
+  useEffect(() => {
+    if (wallet.isConnected && wallet.isCorrectNetwork && CONTRACT_ADDRESS) {
+      loadShared();
+    }
+  }, [wallet.isConnected, wallet.isCorrectNetwork, wallet.address]);
+
+  const loadShared = async () => {
+    setIsLoading(true);
+    try {
+      const [quotes, lots] = await Promise.all([getQuotesSharedWith(wallet.address), getLots()]);
+      setShared(quotes);
+      setLotNames(Object.fromEntries(lots.map((lot) => [lot.id, lot.name])));
+    } catch (error) {
+      console.error("Failed to load shared fees:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load fees shared with you",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Decrypt every shared fee with one signature
+  const handleDecryptAll = async () => {
+    const pending = shared.filter((quote) => decrypted[quote.feeHandle] === undefined);
+    if (pending.length === 0) return;
+
+    setIsDecrypting(true);
+    try {
+      const signer = await getSigner();
+      const fees = await userDecryptUint64Batch(
+        pending.map((quote) => quote.feeHandle),
+        CONTRACT_ADDRESS,
+        signer
+      );
+      setDecrypted((prev) => ({
+        ...prev,
+        ...Object.fromEntries(pending.map((quote, i) => [quote.feeHandle, fees[i]])),
+      }));
+    } catch (error: any) {
+      console.error("Failed to decrypt shared fees:", error);
+      toast({
+        title: "Decryption Failed",
+        description: error.message || "Failed to decrypt fees",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const allDecrypted = shared.every((quote) => decrypted[quote.feeHandle] !== undefined);
+  const total = shared.reduce((sum, quote) => sum + (decrypted[quote.feeHandle] ?? 0n), 0n);
+
+  return (
+    <main className="min-h-screen pt-24 pb-16">
+      <div className="container mx-auto px-4 max-w-4xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-4">
+            Shared <span className="gradient-text">Fees</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Parking fees drivers shared with you for reimbursement
+          </p>
+        </div>
+
+        {/* Connection Status */}
+        {!wallet.isConnected && (
+          <Alert className="mb-6 border-yellow-500/50 bg-yellow-500/10">
+            <AlertCircle className="h-4 w-4 text-yellow-500" />
+            <AlertDescription>
+              Please connect the wallet the fees were shared with.
+              <Button
+                variant="link"
+                className="text-yellow-500 p-0 ml-2 h-auto"
+                onClick={wallet.connect}
+              >
+                Connect Wallet
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {wallet.isConnected && !wallet.isCorrectNetwork && (
+          <Alert className="mb-6 border-orange-500/50 bg-orange-500/10">
+            <AlertCircle className="h-4 w-4 text-orange-500" />
+            <AlertDescription>
+              Please switch to Sepolia testnet.
+              <Button
+                variant="link"
+                className="text-orange-500 p-0 ml-2 h-auto"
+                onClick={wallet.switchNetwork}
+              >
+                Switch Network
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-card p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              <Briefcase className="h-5 w-5 text-primary" />
+              Shared With Me
+            </h3>
+            <div className="flex items-center gap-2">
+              {shared.length > 0 && !allDecrypted && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleDecryptAll}
+                  disabled={isDecrypting || isLoading}
+                >
+                  {isDecrypting ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <>
+                      <Unlock className="mr-1 h-3 w-3" />
+                      Decrypt All
+                    </>
+                  )}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadShared}
+                disabled={isLoading || !wallet.isConnected}
+              >
+                <RefreshCw className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`} />
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : shared.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              {wallet.isConnected
+                ? "No fees have been shared with this address"
+                : "Connect wallet to load shared fees"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Driver</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">Shared In</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shared.map((quote) => {
+                  const fee = decrypted[quote.feeHandle];
+                  return (
+                    <TableRow key={quote.feeHandle}>
+                      <TableCell className="font-mono">{formatAddress(quote.user)}</TableCell>
+                      <TableCell>{new Date(quote.timestamp * 1000).toLocaleString()}</TableCell>
+                      <TableCell>{lotNames[quote.lotId] ?? `#${quote.lotId}`}</TableCell>
+                      <TableCell className="text-right">
+                        {fee !== undefined ? (
+                          <span className="font-semibold">{formatPrice(fee)}</span>
+                        ) : (
+                          <span className="text-muted-foreground">Encrypted</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <a
+                          href={`https://sepolia.etherscan.io/tx/${quote.txHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline inline-flex items-center gap-1"
+                        >
+                          {quote.txHash.slice(0, 10)}...
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+              {allDecrypted && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right font-bold">{formatPrice(total)}</TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+};
+
+export default SharedFees;